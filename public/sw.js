@@ -0,0 +1,61 @@
+// Service worker: keeps the app shell and downloaded map tiles available offline.
+// Trip data lives in IndexedDB (src/lib/offline.ts); API requests always go to the network.
+
+const SHELL_CACHE = 'vagabond-shell-v1';
+// Filled by src/lib/offline.ts when a trip is downloaded: keep the name in sync
+const TILE_CACHE = 'vagabond-tiles-v1';
+const TILE_HOST = 'tile.openstreetmap.org';
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg'];
+// Addresses that serve the shell page itself; any other page may answer with something else
+const SHELL_PAGES = ['/', '/index.html'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('vagabond-shell-') && key !== SHELL_CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Tiles come from the downloads first, so maps work without a connection
+  if (url.hostname === TILE_HOST) {
+    event.respondWith(caches.open(TILE_CACHE).then(cache => cache.match(request.url)).then(cached => cached || fetch(request)));
+    return;
+  }
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  // Pages come from the network when possible, so a new release shows up straight away.
+  // Only a good copy of the shell replaces the cached one: an error page must never stand in for it.
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(res => {
+          if (res.ok && SHELL_PAGES.includes(url.pathname)) {
+            const copy = res.clone();
+            caches.open(SHELL_CACHE).then(cache => cache.put('/', copy));
+          }
+          return res;
+        })
+        .catch(() => caches.match('/'))
+    );
+    return;
+  }
+
+  // Built assets have content hashes in their names, so a cached copy is never stale
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(caches.match(request).then(cached => cached || fetch(request).then(res => {
+      const copy = res.clone();
+      if (res.ok) caches.open(SHELL_CACHE).then(cache => cache.put(request, copy));
+      return res;
+    })));
+  }
+});
@@ -1,78 +1,33 @@
+import dotenv from "dotenv";
 import express from "express";
 import { createServer as createViteServer } from "vite";
-import Database from "better-sqlite3";
-import { v4 as uuidv4 } from "uuid";
 import path from "path";
+import { createApp } from "./server/app";
+import { loadConfig } from "./server/config";
+import { openDatabase } from "./server/db";
+import { getSchemaVersion } from "./server/migrate";
+import { TripEvents } from "./server/events";
+import { attachLiveUpdates } from "./server/live";
+import { createProvider } from "./server/providers";
+import { loadPromptLibrary } from "./server/templates";
 
-const db = new Database("itineraries.db");
-
-// Initialize database
-db.exec(`
-  CREATE TABLE IF NOT EXISTS itineraries (
-    id TEXT PRIMARY KEY,
-    title TEXT,
-    destination TEXT,
-    duration INTEGER,
-    budget TEXT,
-    type TEXT,
-    interests TEXT,
-    activities TEXT,
-    content TEXT,
-    created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-  )
-`);
+dotenv.config({ path: [".env.local", ".env"], quiet: true });
 
 async function startServer() {
-  const app = express();
-  const PORT = 3000;
-
-  app.use(express.json());
-
-  // API Routes
-  app.post("/api/itineraries", (req, res) => {
-    const { title, destination, duration, budget, type, interests, activities, content } = req.body;
-    const id = uuidv4();
-    
-    const stmt = db.prepare(`
-      INSERT INTO itineraries (id, title, destination, duration, budget, type, interests, activities, content)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `);
-    
-    stmt.run(id, title || `Viaggio a ${destination}`, destination, duration, budget, type, JSON.stringify(interests), JSON.stringify(activities), content);
-    
-    res.json({ id });
-  });
-
-  app.get("/api/itineraries", (req, res) => {
-    const rows = db.prepare("SELECT * FROM itineraries ORDER BY created_at DESC").all();
-    res.json(rows.map(row => ({
-      ...row,
-      interests: JSON.parse(row.interests as string),
-      activities: JSON.parse(row.activities as string)
-    })));
-  });
-
-  app.get("/api/itineraries/:id", (req, res) => {
-    const row = db.prepare("SELECT * FROM itineraries WHERE id = ?").get(req.params.id);
-    if (!row) return res.status(404).json({ error: "Not found" });
-    
-    res.json({
-      ...row,
-      interests: JSON.parse(row.interests as string),
-      activities: JSON.parse(row.activities as string)
-    });
-  });
-
-  app.patch("/api/itineraries/:id", (req, res) => {
-    const { title } = req.body;
-    db.prepare("UPDATE itineraries SET title = ? WHERE id = ?").run(title, req.params.id);
-    res.json({ success: true });
-  });
-
-  app.delete("/api/itineraries/:id", (req, res) => {
-    db.prepare("DELETE FROM itineraries WHERE id = ?").run(req.params.id);
-    res.json({ success: true });
+  const config = loadConfig();
+  const db = openDatabase(config.databasePath);
+  const events = new TripEvents();
+  const app = createApp({
+    db,
+    provider: createProvider(),
+    events,
+    generationLimits: config.generationLimits,
+    generationCacheTtlHours: config.generationCacheTtlHours,
+    prompts: loadPromptLibrary(config.promptsDir, config.promptVersions),
+    adminEmails: config.adminEmails,
+    trustProxy: config.trustProxy
   });
+  const PORT = 3000;
 
   // Vite middleware for development
   if (process.env.NODE_ENV !== "production") {
@@ -88,9 +43,13 @@ async function startServer() {
     });
   }
 
-  app.listen(PORT, "0.0.0.0", () => {
-    console.log(`Server running on http://localhost:${PORT}`);
+  const server = app.listen(PORT, "0.0.0.0", () => {
+    console.log(`Server running on http://localhost:${PORT} (database schema v${getSchemaVersion(db)})`);
   });
+  attachLiveUpdates(server, db, events);
 }
 
-startServer();
+startServer().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,41 @@
+import type { Request } from "express";
+import { SHARE_TOKEN_HEADER } from "../src/lib/trip";
+import type { ItineraryAccess, ShareAccess, User } from "../src/lib/types";
+import type { Database } from "./db";
+
+const RANK: Record<ItineraryAccess, number> = { view: 1, comment: 2, edit: 3, owner: 4 };
+
+export function hasAccess(access: ItineraryAccess | null, required: ItineraryAccess) {
+  return access !== null && RANK[access] >= RANK[required];
+}
+
+// Active (not revoked, not expired) share link for a token
+export function findShareLink(db: Database, token: string) {
+  return db.prepare(`
+    SELECT token, itinerary_id, access, created_at, expires_at FROM share_links
+    WHERE token = ? AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ?)
+  `).get(token, new Date().toISOString()) as
+    { token: string; itinerary_id: string; access: ShareAccess; created_at: string; expires_at: string | null } | undefined;
+}
+
+// Owners always get full access; everyone else needs a share token for this itinerary.
+// Trips saved before accounts have no owner and stay readable by their id, as their old links were.
+export function itineraryAccessFor(
+  db: Database,
+  user: User | undefined,
+  token: string | null | undefined,
+  itineraryId: string
+): ItineraryAccess | null {
+  const row = db.prepare("SELECT owner_id FROM itineraries WHERE id = ?").get(itineraryId) as { owner_id: string | null } | undefined;
+  if (!row) return null;
+  if (user && row.owner_id === user.id) return "owner";
+
+  const link = token ? findShareLink(db, token) : undefined;
+  if (link?.itinerary_id === itineraryId) return link.access;
+  return row.owner_id === null ? "view" : null;
+}
+
+// HTTP requests carry the share token in the X-Share-Token header
+export function resolveItineraryAccess(db: Database, req: Request, itineraryId: string): ItineraryAccess | null {
+  return itineraryAccessFor(db, req.user, req.get(SHARE_TOKEN_HEADER), itineraryId);
+}
@@ -0,0 +1,60 @@
+import { anchorKey } from "../src/lib/comments";
+import { SLOTS, type Itinerary, type ItineraryActivity, type Slot } from "../src/lib/itinerary";
+import type { Database } from "./db";
+
+type Position = { day: number; slot: Slot; activity: number };
+type PlacedActivity = Position & { key: string; title: string };
+
+// An activity is recognised across versions by its title and place, wherever edits have moved it within its day
+const fingerprint = ({ title, place }: ItineraryActivity) => `${title}\n${place.name}`;
+
+function placedActivities(plan: Itinerary | null): PlacedActivity[] {
+  return (plan?.days ?? []).flatMap(day => SLOTS.flatMap(slot => day[slot].map((activity, index) => ({
+    day: day.day, slot, activity: index, key: fingerprint(activity), title: activity.title
+  }))));
+}
+
+// Comments and votes point at activities by position, which manual edits and day regeneration shift.
+// After the plan changes they follow their activity to its new position in the day; when it's gone, comments
+// fall back to the day with the activity's title kept, and votes are dropped. Days repeat places often enough
+// (the same restaurant every evening) that an activity isn't followed from one day to another.
+export function reanchorDiscussion(db: Database, itineraryId: string, before: Itinerary | null, after: Itinerary | null) {
+  const previous = new Map(placedActivities(before).map(activity => [anchorKey(activity), activity]));
+  const current = placedActivities(after);
+  const days = new Set((after?.days ?? []).map(day => day.day));
+
+  // Same position first, then anywhere else in the day
+  const locate = (position: Position): { to: Position | null; title: string } | undefined => {
+    const was = previous.get(anchorKey(position));
+    if (!was) return undefined;
+    const matches = current.filter(activity => activity.day === position.day && activity.key === was.key);
+    const to = matches.find(activity => activity.slot === position.slot && activity.activity === position.activity) ?? matches[0] ?? null;
+    return { to, title: was.title };
+  };
+
+  const comments = db.prepare("SELECT id, day, slot, activity FROM comments WHERE itinerary_id = ? AND activity IS NOT NULL")
+    .all(itineraryId) as (Position & { id: string })[];
+  const moveComment = db.prepare("UPDATE comments SET day = ?, slot = ?, activity = ?, orphaned_activity = ? WHERE id = ?");
+  for (const comment of comments) {
+    const found = locate(comment);
+    if (!found) continue;
+    if (!found.to) {
+      moveComment.run(days.has(comment.day) ? comment.day : null, null, null, found.title, comment.id);
+    } else if (anchorKey(found.to) !== anchorKey(comment)) {
+      moveComment.run(found.to.day, found.to.slot, found.to.activity, null, comment.id);
+    }
+  }
+
+  // Vote positions are part of the key, so they're rewritten in one go; two votes landing on the same activity keep the first
+  const votes = db.prepare("SELECT day, slot, activity, user_id, value, created_at FROM activity_votes WHERE itinerary_id = ?")
+    .all(itineraryId) as (Position & { user_id: string; value: number; created_at: string })[];
+  db.prepare("DELETE FROM activity_votes WHERE itinerary_id = ?").run(itineraryId);
+  const insertVote = db.prepare(`
+    INSERT OR IGNORE INTO activity_votes (itinerary_id, day, slot, activity, user_id, value, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  for (const vote of votes) {
+    const found = locate(vote);
+    const to = found ? found.to : vote;
+    if (to) insertVote.run(itineraryId, to.day, to.slot, to.activity, vote.user_id, vote.value, vote.created_at);
+  }
+}
@@ -0,0 +1,74 @@
+import express from "express";
+import { sessionMiddleware } from "./auth";
+import { GenerationCache } from "./cache";
+import { DEFAULT_GENERATION_CACHE_TTL_HOURS, DEFAULT_GENERATION_LIMITS, DEFAULT_PROMPTS_DIR, type GenerationLimits } from "./config";
+import type { Database } from "./db";
+import { apiNotFound, errorHandler } from "./errors";
+import { TripEvents } from "./events";
+import type { ItineraryProvider } from "./providers";
+import { adminRouter } from "./routes/admin";
+import { authRouter } from "./routes/auth";
+import { backupRouter } from "./routes/backup";
+import { commentsRouter } from "./routes/comments";
+import { exportsRouter } from "./routes/exports";
+import { generateRouter } from "./routes/generate";
+import { itinerariesRouter } from "./routes/itineraries";
+import { organisationRouter } from "./routes/organisation";
+import { revisionsRouter } from "./routes/revisions";
+import { sharesRouter } from "./routes/shares";
+import { loadPromptLibrary, type PromptLibrary } from "./templates";
+
+export interface AppDependencies {
+  db: Database;
+  provider: ItineraryProvider;
+  // Shared with the live channel so it can relay what the routes change
+  events?: TripEvents;
+  generationLimits?: GenerationLimits;
+  generationCacheTtlHours?: number;
+  prompts?: PromptLibrary;
+  adminEmails?: string[];
+  trustProxy?: boolean | number | string;
+}
+
+// Builds the API without the frontend middleware, so it can run against any database.
+export function createApp({
+  db,
+  provider,
+  events = new TripEvents(),
+  generationLimits = DEFAULT_GENERATION_LIMITS,
+  generationCacheTtlHours = DEFAULT_GENERATION_CACHE_TTL_HOURS,
+  prompts = loadPromptLibrary(DEFAULT_PROMPTS_DIR),
+  adminEmails = [],
+  trustProxy = false
+}: AppDependencies) {
+  const app = express();
+  app.set("trust proxy", trustProxy);
+
+  // Backups can be far larger than any other request
+  app.use("/api/import", express.json({ limit: "20mb" }));
+  app.use(express.json());
+  app.use("/api", sessionMiddleware(db));
+
+  // API Routes
+  app.use("/api", authRouter(db));
+  app.use("/api", generateRouter(
+    provider,
+    db,
+    events,
+    generationLimits,
+    new GenerationCache(db, provider, generationCacheTtlHours),
+    prompts
+  ));
+  app.use("/api", itinerariesRouter(db, events));
+  app.use("/api", sharesRouter(db));
+  app.use("/api", revisionsRouter(db, events));
+  app.use("/api", exportsRouter(db));
+  app.use("/api", organisationRouter(db));
+  app.use("/api", backupRouter(db));
+  app.use("/api", commentsRouter(db, events));
+  app.use("/api", adminRouter(db, prompts, adminEmails));
+  app.use("/api", apiNotFound);
+
+  app.use(errorHandler);
+  return app;
+}
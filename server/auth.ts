@@ -0,0 +1,117 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import { promisify } from "util";
+import type { User } from "../src/lib/types";
+import type { Database } from "./db";
+import { HttpError } from "./errors";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = "vagabond_session";
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Stored as "scrypt$<salt>$<hash>", both base64url.
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString("base64url")}$${hash.toString("base64url")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64url");
+  const actual = await scryptAsync(password, Buffer.from(salt, "base64url"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Only a hash of the token is stored, so a leaked database can't be replayed as cookies.
+function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function createSession(db: Database, userId: string) {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  db.prepare("DELETE FROM sessions WHERE expires_at <= ?").run(new Date().toISOString());
+  db.prepare("INSERT INTO sessions (id, user_id, expires_at) VALUES (?, ?, ?)")
+    .run(hashToken(token), userId, expiresAt.toISOString());
+  return { token, expiresAt };
+}
+
+export function destroySession(db: Database, token: string) {
+  db.prepare("DELETE FROM sessions WHERE id = ?").run(hashToken(token));
+}
+
+function findSessionUser(db: Database, token: string): User | undefined {
+  return db.prepare(`
+    SELECT users.id, users.email FROM sessions
+    JOIN users ON users.id = sessions.user_id
+    WHERE sessions.id = ? AND sessions.expires_at > ?
+  `).get(hashToken(token), new Date().toISOString()) as User | undefined;
+}
+
+// A value that doesn't decode reads as no cookie at all, so a mangled session cookie signs the browser out
+export function readCookie(req: Pick<Request, "headers">, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const index = part.indexOf("=");
+    if (index === -1) continue;
+    if (part.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(index + 1).trim());
+      } catch {
+        return undefined;
+      }
+    }
+  }
+}
+
+export function setSessionCookie(res: Response, token: string, expiresAt: Date) {
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    expires: expiresAt,
+    path: "/"
+  });
+}
+
+export function clearSessionCookie(res: Response) {
+  res.clearCookie(SESSION_COOKIE, { path: "/" });
+}
+
+// Signed-in user of any incoming request, including WebSocket upgrades that never reach Express
+export function sessionUser(db: Database, req: Pick<Request, "headers">): User | undefined {
+  const token = readCookie(req, SESSION_COOKIE);
+  return token ? findSessionUser(db, token) : undefined;
+}
+
+// Populates req.user from the session cookie; never rejects the request.
+export function sessionMiddleware(db: Database) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    req.user = sessionUser(db, req);
+    next();
+  };
+}
+
+export function requireAuth(req: Request, _res: Response, next: NextFunction) {
+  if (!req.user) return next(new HttpError(401, "Authentication required"));
+  next();
+}
+
+// Admins are listed by email in the config (ADMIN_EMAILS) rather than stored with the account
+export function requireAdmin(adminEmails: string[]) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    if (!req.user) return next(new HttpError(401, "Authentication required"));
+    if (!adminEmails.includes(req.user.email)) return next(new HttpError(403, "Admin access required"));
+    next();
+  };
+}
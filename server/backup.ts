@@ -0,0 +1,186 @@
+import { createHash } from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import type { z } from "zod";
+import { DEFAULT_LANGUAGE, messagesFor } from "../src/lib/i18n";
+import { BACKUP_FORMAT, BACKUP_VERSION, backupTripSchema, type Backup, type BackupRevision, type BackupTrip } from "../src/lib/backup";
+import { MAX_DURATION, tripConsistencyError } from "../src/lib/trip";
+import type { ImportReport, Language, SavedTrip } from "../src/lib/types";
+import type { Database } from "./db";
+import { JSON_COLUMNS, SNAPSHOT_COLUMNS, parseItineraryRow, tagsByItinerary, type ItineraryRow } from "./itineraries";
+
+type BackupRow = ItineraryRow & { id: string; folder_name: string | null };
+type RevisionRow = ItineraryRow & { version: number; author_email: string | null; created_at: string };
+
+function snapshot(trip: SavedTrip) {
+  const fields: Record<string, unknown> = { ...trip };
+  return Object.fromEntries(SNAPSHOT_COLUMNS.map(column => [column, fields[column] ?? null]));
+}
+
+// Every trip the user owns, with its history and organisation
+export function buildBackup(db: Database, userId: string): Backup {
+  const rows = db.prepare(`
+    SELECT i.*, f.name AS folder_name FROM itineraries i LEFT JOIN folders f ON f.id = i.folder_id
+    WHERE i.owner_id = ? ORDER BY i.created_at, i.id
+  `).all(userId) as BackupRow[];
+  const tags = tagsByItinerary(db, rows.map(row => row.id));
+  const revisions = db.prepare(`
+    SELECT r.*, u.email AS author_email FROM itinerary_revisions r LEFT JOIN users u ON u.id = r.author_id
+    WHERE r.itinerary_id = ? ORDER BY r.version
+  `);
+
+  const trips = rows.map(row => {
+    const trip = parseItineraryRow(row);
+    return {
+      id: trip.id,
+      ...snapshot(trip),
+      version: trip.version,
+      created_at: trip.created_at,
+      updated_at: trip.updated_at ?? null,
+      favourite: !!trip.favourite,
+      folder: row.folder_name ?? null,
+      tags: (tags.get(trip.id) ?? []).map(tag => tag.name),
+      prompt_template: trip.prompt_template ?? null,
+      prompt_version: trip.prompt_version ?? null,
+      revisions: (revisions.all(trip.id) as RevisionRow[]).map(revision => ({
+        ...snapshot(parseItineraryRow(revision)),
+        version: revision.version,
+        author_email: revision.author_email,
+        created_at: revision.created_at,
+      })),
+    } as BackupTrip;
+  });
+
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exported_at: new Date().toISOString(), trips };
+}
+
+// Same format as SQLite's CURRENT_TIMESTAMP, so imported trips sort with the rest
+function sqliteTimestamp(date = new Date()) {
+  return date.toISOString().replace("T", " ").slice(0, 19);
+}
+
+// Trips count as the same content when title, destination and text all match
+function fingerprint(trip: { title: string; destination: string; content: string }) {
+  return createHash("sha256").update(JSON.stringify([trip.title.trim(), trip.destination.trim(), trip.content.trim()])).digest("hex");
+}
+
+const formatIssues = (issues: z.core.$ZodIssue[]) => issues.map(issue => issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message);
+
+// A Markdown file becomes an unstructured trip, like those saved before itineraries had structure.
+// The title comes from the first heading and the duration from the "Giorno N" (or "Day N", "Tag N") sections.
+export function tripFromMarkdown(name: string, markdown: string, language: Language) {
+  const title = markdown.match(/^#\s+(.+)$/m)?.[1].trim() || name.replace(/\.(md|markdown)$/i, "").trim() || messagesFor(language).itinerary.imported;
+  const days = new Set([...markdown.matchAll(/^##\s+(?:Giorno|Day|Tag)\s+(\d+)/gim)].map(match => match[1])).size;
+  return {
+    id: uuidv4(),
+    title,
+    destination: title,
+    duration: Math.min(Math.max(days, 1), MAX_DURATION),
+    budget: "standard",
+    type: "cultural",
+    interests: [],
+    activities: [],
+    language,
+    content: markdown,
+    itinerary: null,
+    locations: [],
+    version: 1,
+    created_at: sqliteTimestamp(),
+  };
+}
+
+// Validates and deduplicates the entries, then writes them unless it's a dry run.
+// Duplicates are trips the user already has, by id or by content, and are skipped.
+// An id taken by someone else's trip is replaced, so the report's id is the one to use.
+export function importTrips(db: Database, userId: string, entries: unknown[], dryRun: boolean): ImportReport {
+  const report: ImportReport = { dryRun, imported: [], duplicates: [], invalid: [] };
+
+  const known = new Map<string, string>();
+  (db.prepare("SELECT id, title, destination, content FROM itineraries WHERE owner_id = ?").all(userId) as { id: string; title: string; destination: string; content: string }[])
+    .forEach(row => known.set(fingerprint(row), row.id));
+  const ownerOf = db.prepare("SELECT owner_id FROM itineraries WHERE id = ?");
+  const accepted: { id: string; trip: BackupTrip }[] = [];
+  const acceptedIds = new Set<string>();
+
+  entries.forEach((entry, index) => {
+    const rawTitle = (entry as { title?: unknown })?.title;
+    const parsed = backupTripSchema.safeParse(entry);
+    if (!parsed.success) {
+      report.invalid.push({ index, title: typeof rawTitle === "string" ? rawTitle : null, issues: formatIssues(parsed.error.issues) });
+      return;
+    }
+    const trip = parsed.data;
+    const inconsistency = tripConsistencyError(trip);
+    if (inconsistency) {
+      report.invalid.push({ index, title: trip.title, issues: [inconsistency] });
+      return;
+    }
+
+    const owner = ownerOf.get(trip.id) as { owner_id: string | null } | undefined;
+    if (owner?.owner_id === userId || acceptedIds.has(trip.id)) {
+      report.duplicates.push({ id: trip.id, title: trip.title, reason: "id", existing_id: trip.id });
+      return;
+    }
+    const print = fingerprint(trip);
+    if (known.has(print)) {
+      report.duplicates.push({ id: trip.id, title: trip.title, reason: "content", existing_id: known.get(print)! });
+      return;
+    }
+
+    const id = owner ? uuidv4() : trip.id;
+    known.set(print, id);
+    acceptedIds.add(trip.id);
+    accepted.push({ id, trip });
+    report.imported.push({ id, title: trip.title, revisions: trip.revisions?.length ?? 0 });
+  });
+
+  if (!dryRun) writeTrips(db, userId, accepted);
+  return report;
+}
+
+function writeTrips(db: Database, userId: string, trips: { id: string; trip: BackupTrip }[]) {
+  const values = (trip: BackupTrip | BackupRevision) => SNAPSHOT_COLUMNS.map(column => {
+    const value = (trip as Record<string, unknown>)[column];
+    if (column === "legs") return Array.isArray(value) && value.length ? JSON.stringify(value) : null;
+    if (column === "budget_currency") return value ?? "EUR";
+    if (column === "travellers") return value ?? 1;
+    if (column === "language") return value ?? DEFAULT_LANGUAGE;
+    return JSON_COLUMNS.has(column) && value != null ? JSON.stringify(value) : value ?? null;
+  });
+
+  const insertTrip = db.prepare(`
+    INSERT INTO itineraries (
+      id, owner_id, ${SNAPSHOT_COLUMNS.join(", ")}, version, created_at, updated_at, favourite, folder_id, prompt_template, prompt_version
+    )
+    VALUES (${Array(SNAPSHOT_COLUMNS.length + 9).fill("?").join(", ")})
+  `);
+  const insertRevision = db.prepare(`
+    INSERT INTO itinerary_revisions (itinerary_id, version, author_id, ${SNAPSHOT_COLUMNS.join(", ")}, created_at)
+    VALUES (${Array(SNAPSHOT_COLUMNS.length + 4).fill("?").join(", ")})
+  `);
+  const insertTag = db.prepare("INSERT OR IGNORE INTO itinerary_tags (itinerary_id, tag_id) VALUES (?, ?)");
+
+  // Folders and tags are matched by name, and created when the user has none by that name
+  const namedIds = new Map<string, string>();
+  const namedId = (table: "folders" | "tags", name: string) => {
+    const key = `${table}:${name.toLowerCase()}`;
+    if (!namedIds.has(key)) {
+      const row = db.prepare(`SELECT id FROM ${table} WHERE user_id = ? AND name = ? COLLATE NOCASE`).get(userId, name) as { id: string } | undefined;
+      const id = row?.id ?? uuidv4();
+      if (!row) db.prepare(`INSERT INTO ${table} (id, user_id, name) VALUES (?, ?, ?)`).run(id, userId, name);
+      namedIds.set(key, id);
+    }
+    return namedIds.get(key)!;
+  };
+
+  db.transaction(() => {
+    trips.forEach(({ id, trip }) => {
+      insertTrip.run(
+        id, userId, ...values(trip), trip.version, trip.created_at, trip.updated_at ?? null,
+        trip.favourite ? 1 : 0, trip.folder ? namedId("folders", trip.folder) : null,
+        trip.prompt_template ?? null, trip.prompt_version ?? null
+      );
+      trip.revisions?.forEach(revision => insertRevision.run(id, revision.version, null, ...values(revision), revision.created_at));
+      trip.tags?.forEach(tag => insertTag.run(id, namedId("tags", tag)));
+    });
+  })();
+}
@@ -0,0 +1,115 @@
+import { createHash } from "crypto";
+import { DEFAULT_LANGUAGE } from "../src/lib/i18n";
+import { itinerarySchema, type Itinerary } from "../src/lib/itinerary";
+import type { TripDetails } from "../src/lib/types";
+import type { Database } from "./db";
+import type { ItineraryProvider } from "./providers";
+import type { PromptTemplate } from "./templates";
+
+// Case, spacing and the order of interests don't change what the model is asked for
+const normaliseText = (text: string) => text.normalize("NFC").trim().replace(/\s+/g, " ").toLowerCase();
+const normaliseList = (list: string[]) => [...new Set(list.map(normaliseText))].sort();
+
+// Fixed key order, and absent fields spelled out, so equal details always hash the same
+function normaliseDetails(details: TripDetails) {
+  return {
+    destination: normaliseText(details.destination),
+    duration: details.duration,
+    budget: details.budget,
+    type: details.type,
+    interests: normaliseList(details.interests),
+    activities: normaliseList(details.activities),
+    start_date: details.start_date ?? null,
+    end_date: details.end_date ?? null,
+    legs: details.legs?.map(leg => ({ destination: normaliseText(leg.destination), nights: leg.nights, transfer: leg.transfer })) ?? null,
+    budget_amount: details.budget_amount ?? null,
+    budget_currency: details.budget_currency ?? "EUR",
+    travellers: details.travellers ?? 1,
+    language: details.language ?? DEFAULT_LANGUAGE,
+  };
+}
+
+export interface RunningGeneration {
+  resolve(itinerary: Itinerary): void;
+  reject(err: unknown): void;
+}
+
+// Itineraries already generated for the same details, kept in SQLite for a while, plus the
+// generations still running so identical requests wait for one model call instead of making their own.
+export class GenerationCache {
+  private running = new Map<string, Promise<Itinerary>>();
+
+  constructor(private db: Database, private provider: ItineraryProvider, private ttlHours: number) {}
+
+  // The template's hash is part of the key, so editing a template in place still misses the old replies
+  key(template: PromptTemplate, details: TripDetails): string {
+    return createHash("sha256")
+      .update(JSON.stringify([template.name, template.version, template.hash, this.provider.name, this.provider.model, normaliseDetails(details)]))
+      .digest("hex");
+  }
+
+  // A stored itinerary, or the one an identical running generation produces. When that
+  // generation fails or is cancelled the answer is null, and the caller makes its own call.
+  async lookup(key: string): Promise<Itinerary | null> {
+    const stored = this.stored(key);
+    if (stored) return stored;
+    const running = this.running.get(key);
+    return running ? running.catch(() => null) : null;
+  }
+
+  // Marks a generation as running; resolving it stores the itinerary for later requests
+  begin(key: string, template: PromptTemplate): RunningGeneration {
+    let resolve!: (itinerary: Itinerary) => void;
+    let reject!: (err: unknown) => void;
+    const promise = new Promise<Itinerary>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // Nobody may be waiting on it
+    promise.catch(() => {});
+    this.running.set(key, promise);
+
+    // A fresh variant can start while another is running: only the latest is left to join
+    const settle = () => {
+      if (this.running.get(key) === promise) this.running.delete(key);
+    };
+    return {
+      resolve: itinerary => {
+        this.store(key, template, itinerary);
+        settle();
+        resolve(itinerary);
+      },
+      reject: err => {
+        settle();
+        reject(err);
+      }
+    };
+  }
+
+  private stored(key: string): Itinerary | null {
+    if (this.ttlHours === 0) return null;
+    const row = this.db.prepare("SELECT itinerary FROM generation_cache WHERE key = ? AND expires_at > datetime('now')").get(key) as
+      { itinerary: string } | undefined;
+    if (!row) return null;
+    try {
+      return itinerarySchema.parse(JSON.parse(row.itinerary));
+    } catch {
+      console.warn(`Discarding unreadable cached itinerary ${key}`);
+      this.db.prepare("DELETE FROM generation_cache WHERE key = ?").run(key);
+      return null;
+    }
+  }
+
+  private store(key: string, template: PromptTemplate, itinerary: Itinerary) {
+    if (this.ttlHours === 0) return;
+    this.db.prepare("DELETE FROM generation_cache WHERE expires_at <= datetime('now')").run();
+    this.db.prepare(`
+      INSERT INTO generation_cache (key, provider, model, prompt_version, itinerary, expires_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now', ?))
+      ON CONFLICT(key) DO UPDATE SET
+        itinerary = excluded.itinerary,
+        created_at = CURRENT_TIMESTAMP,
+        expires_at = excluded.expires_at
+    `).run(key, this.provider.name, this.provider.model, template.version, JSON.stringify(itinerary), `+${this.ttlHours} hours`);
+  }
+}
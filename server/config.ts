@@ -0,0 +1,73 @@
+export interface GenerationLimits {
+  // Requests to the generation endpoints per minute; 0 turns a limit off
+  perUserPerMinute: number;
+  perIpPerMinute: number;
+  // Model calls per UTC day, per account or, for guests, per IP
+  dailyQuota: number;
+}
+
+export interface ServerConfig {
+  databasePath: string;
+  generationLimits: GenerationLimits;
+  // How long a generated itinerary is served again for identical details; 0 turns the cache off
+  generationCacheTtlHours: number;
+  // Directory of prompt templates, named <name>.v<version>.txt
+  promptsDir: string;
+  // Template versions to use instead of the newest, by template name
+  promptVersions: Record<string, number>;
+  // Accounts allowed to read the usage stats and the prompt templates
+  adminEmails: string[];
+  // Express "trust proxy" setting, so limits see the client's IP rather than the proxy's
+  trustProxy: boolean | number | string;
+}
+
+export const DEFAULT_PROMPTS_DIR = "server/prompts";
+
+export const DEFAULT_GENERATION_CACHE_TTL_HOURS = 24;
+
+export const DEFAULT_GENERATION_LIMITS: GenerationLimits = {
+  perUserPerMinute: 5,
+  perIpPerMinute: 20,
+  dailyQuota: 50,
+};
+
+function count(value: string | undefined, fallback: number): number {
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) throw new Error(`Expected a whole number, got "${value}"`);
+  return parsed;
+}
+
+// "itinerary=2,day=1"
+function promptVersions(value: string | undefined): Record<string, number> {
+  const versions: Record<string, number> = {};
+  for (const entry of (value ?? "").split(",").map(part => part.trim()).filter(Boolean)) {
+    const [name, version] = entry.split("=").map(part => part.trim());
+    if (!name || !version) throw new Error(`Expected name=version, got "${entry}"`);
+    versions[name] = count(version, 0);
+  }
+  return versions;
+}
+
+function trustProxy(value: string | undefined): boolean | number | string {
+  if (!value || value === "false") return false;
+  if (value === "true") return true;
+  return /^\d+$/.test(value) ? Number(value) : value;
+}
+
+// DATABASE_PATH accepts a file path or ":memory:".
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  return {
+    databasePath: env.DATABASE_PATH || "itineraries.db",
+    generationLimits: {
+      perUserPerMinute: count(env.GENERATION_RATE_PER_USER, DEFAULT_GENERATION_LIMITS.perUserPerMinute),
+      perIpPerMinute: count(env.GENERATION_RATE_PER_IP, DEFAULT_GENERATION_LIMITS.perIpPerMinute),
+      dailyQuota: count(env.GENERATION_DAILY_QUOTA, DEFAULT_GENERATION_LIMITS.dailyQuota),
+    },
+    generationCacheTtlHours: count(env.GENERATION_CACHE_TTL_HOURS, DEFAULT_GENERATION_CACHE_TTL_HOURS),
+    promptsDir: env.PROMPTS_DIR || DEFAULT_PROMPTS_DIR,
+    promptVersions: promptVersions(env.PROMPT_VERSIONS),
+    adminEmails: (env.ADMIN_EMAILS ?? "").split(",").map(email => email.trim().toLowerCase()).filter(Boolean),
+    trustProxy: trustProxy(env.TRUST_PROXY),
+  };
+}
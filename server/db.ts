@@ -0,0 +1,12 @@
+import Database from "better-sqlite3";
+import { runMigrations } from "./migrate";
+
+export type { Database } from "better-sqlite3";
+
+export function openDatabase(filename: string) {
+  const db = new Database(filename);
+  db.pragma("foreign_keys = ON");
+
+  runMigrations(db);
+  return db;
+}
@@ -0,0 +1,66 @@
+import type { ErrorRequestHandler, NextFunction, Request, RequestHandler, Response } from "express";
+import type { z } from "zod";
+import type { ApiErrorBody, ApiErrorCode } from "../src/lib/types";
+
+const STATUS_CODES: Record<number, ApiErrorCode> = {
+  400: "invalid_request",
+  401: "unauthenticated",
+  403: "forbidden",
+  404: "not_found",
+  409: "conflict",
+  413: "payload_too_large",
+  502: "generation_failed",
+};
+
+// An error meant for the client. Routes throw it and errorHandler turns it into the JSON envelope.
+export class HttpError extends Error {
+  readonly code: ApiErrorCode;
+
+  constructor(
+    readonly status: number,
+    message: string,
+    code?: ApiErrorCode,
+    readonly extra: Omit<ApiErrorBody, "error" | "code"> = {}
+  ) {
+    super(message);
+    this.name = "HttpError";
+    this.code = code ?? STATUS_CODES[status] ?? "internal";
+  }
+}
+
+// Missing and inaccessible resources look the same, so ids can't be probed
+export const notFound = () => new HttpError(404, "Not found");
+
+// Parses a body or query string, throwing a 400 that lists what didn't fit
+export function validate<T extends z.ZodType>(schema: T, input: unknown): z.infer<T> {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) throw new HttpError(400, "Invalid request", "invalid_request", { issues: parsed.error.issues });
+  return parsed.data;
+}
+
+// Express 4 ignores rejected promises, so async routes pass their errors on explicitly
+export function asyncRoute(handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
+
+export function sendError(res: Response, err: HttpError) {
+  const body: ApiErrorBody = { error: err.message, code: err.code, ...err.extra };
+  res.status(err.status).json(body);
+}
+
+// Unknown API paths get the envelope too, rather than falling through to the frontend
+export const apiNotFound: RequestHandler = (_req, _res, next) => next(notFound());
+
+// Last middleware of the API: every error leaves as an ApiErrorBody
+export const errorHandler: ErrorRequestHandler = (err, req, res, next) => {
+  if (res.headersSent) return next(err);
+  if (err instanceof HttpError) return sendError(res, err);
+  // Raised by express.json() before any route runs
+  if (err?.type === "entity.parse.failed") return sendError(res, new HttpError(400, "Malformed JSON body", "invalid_json"));
+  if (err?.type === "entity.too.large") return sendError(res, new HttpError(413, "Request body too large"));
+
+  console.error(`Unhandled error on ${req.method} ${req.originalUrl}:`, err);
+  sendError(res, new HttpError(500, "Internal server error", "internal"));
+};
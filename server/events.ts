@@ -0,0 +1,20 @@
+import { EventEmitter } from "events";
+import type { TripEvent } from "../src/lib/types";
+
+type Listener = (itineraryId: string, event: TripEvent) => void;
+
+// In-process fan-out of trip changes, from the routes that make them to the live channel
+export class TripEvents {
+  private emitter = new EventEmitter();
+
+  publish(itineraryId: string, event: TripEvent) {
+    this.emitter.emit("event", itineraryId, event);
+  }
+
+  subscribe(listener: Listener) {
+    this.emitter.on("event", listener);
+    return () => {
+      this.emitter.off("event", listener);
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import { DEFAULT_LANGUAGE } from "../src/lib/i18n";
+import { collectLocations, renderItineraryMarkdown, type Itinerary, type ItineraryDay } from "../src/lib/itinerary";
+import type { GeneratedItinerary, GenerationStreamEvent, TripDetails } from "../src/lib/types";
+import { buildDayPrompt, buildItineraryPrompt, dayJsonSchema, itineraryJsonSchema, parseDay, parseItinerary } from "./prompt";
+import type { ItineraryProvider, TokenUsage } from "./providers";
+import { ItineraryStreamParser } from "./streaming";
+import type { PromptTemplate } from "./templates";
+
+// The Markdown is written in the language the itinerary was asked for
+export function toGeneratedItinerary(itinerary: Itinerary, template: PromptTemplate, details: TripDetails): GeneratedItinerary {
+  return {
+    itinerary,
+    content: renderItineraryMarkdown(itinerary, details.language ?? DEFAULT_LANGUAGE),
+    locations: collectLocations(itinerary),
+    prompt: { name: template.name, version: template.version }
+  };
+}
+
+export async function generateItinerary(
+  provider: ItineraryProvider,
+  template: PromptTemplate,
+  details: TripDetails,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<Itinerary> {
+  const text = await provider.generate({
+    prompt: buildItineraryPrompt(template, details),
+    details,
+    task: { kind: "itinerary" },
+    responseSchema: itineraryJsonSchema,
+    onUsage
+  });
+  return parseItinerary(text);
+}
+
+// Emits the overview and each day as soon as the model has written them, then the
+// validated itinerary. Stops quietly once the signal aborts.
+export async function* streamItinerary(
+  provider: ItineraryProvider,
+  template: PromptTemplate,
+  details: TripDetails,
+  signal: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): AsyncGenerator<Exclude<GenerationStreamEvent, { event: "error" }>> {
+  const parser = new ItineraryStreamParser();
+  const chunks = provider.generateStream({
+    prompt: buildItineraryPrompt(template, details),
+    details,
+    task: { kind: "itinerary" },
+    responseSchema: itineraryJsonSchema,
+    signal,
+    onUsage
+  });
+
+  for await (const chunk of chunks) {
+    if (signal.aborted) return;
+    const { overview, days } = parser.push(chunk);
+    if (overview) yield { event: "overview", data: overview };
+    for (const day of days) yield { event: "day", data: day };
+  }
+  if (signal.aborted) return;
+
+  yield { event: "done", data: toGeneratedItinerary(parseItinerary(parser.text), template, details) };
+}
+
+// The events streamItinerary would have sent, for an itinerary that is already complete
+export function* replayItinerary(
+  { days, ...overview }: Itinerary,
+  template: PromptTemplate,
+  details: TripDetails
+): Generator<Exclude<GenerationStreamEvent, { event: "error" }>> {
+  yield { event: "overview", data: overview };
+  for (const day of days) yield { event: "day", data: day };
+  yield { event: "done", data: toGeneratedItinerary({ ...overview, days }, template, details) };
+}
+
+export async function regenerateDay(
+  provider: ItineraryProvider,
+  template: PromptTemplate,
+  details: TripDetails,
+  itinerary: Itinerary,
+  day: number,
+  instruction?: string,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<ItineraryDay> {
+  const text = await provider.generate({
+    prompt: buildDayPrompt(template, details, itinerary, day, instruction),
+    details,
+    task: { kind: "day", day, instruction },
+    responseSchema: dayJsonSchema,
+    onUsage
+  });
+  return { ...parseDay(text), day };
+}
+
+export function replaceDay(itinerary: Itinerary, day: ItineraryDay): Itinerary {
+  return { ...itinerary, days: itinerary.days.map(d => d.day === day.day ? day : d) };
+}
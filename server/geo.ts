@@ -0,0 +1,129 @@
+import { messagesFor } from "../src/lib/i18n";
+import { SLOTS, type Place, type Slot } from "../src/lib/itinerary";
+import { tripDayDate } from "../src/lib/trip";
+import type { SavedTrip } from "../src/lib/types";
+
+// One visit to a place: an activity of the structured itinerary, or a bare map
+// point for trips saved before itineraries had structure.
+interface Stop {
+  place: Place;
+  title?: string;
+  day?: number;
+  slot?: Slot;
+}
+
+function tripStops(trip: SavedTrip): Stop[] {
+  if (!trip.itinerary) return (trip.locations ?? []).map(place => ({ place }));
+  return trip.itinerary.days.flatMap(day => SLOTS.flatMap(slot =>
+    day[slot].map(activity => ({ place: activity.place, title: activity.title, day: day.day, slot }))
+  ));
+}
+
+// Visits grouped by day, in order, for drawing each day's path
+function dayPaths(stops: Stop[]): Map<number, Stop[]> {
+  const days = new Map<number, Stop[]>();
+  stops.forEach(stop => {
+    if (stop.day === undefined) return;
+    if (!days.has(stop.day)) days.set(stop.day, []);
+    days.get(stop.day)!.push(stop);
+  });
+  return days;
+}
+
+function dayName(trip: SavedTrip, day: number) {
+  const title = trip.itinerary?.days.find(d => d.day === day)?.title;
+  const date = trip.start_date ? ` (${tripDayDate(trip.start_date, day)})` : "";
+  return `${messagesFor(trip.language).itinerary.day(day)}${date}${title ? `: ${title}` : ""}`;
+}
+
+function escapeXml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// GPX 1.1: a waypoint per distinct place, a route per day in visiting order,
+// and one more through the stops of a multi-destination trip.
+export function buildGpx(trip: SavedTrip): string {
+  const { itinerary: t, options } = messagesFor(trip.language);
+  const stops = tripStops(trip);
+  const point = (tag: string, place: Place, name: string, desc?: string) =>
+    `<${tag} lat="${place.lat}" lon="${place.lng}"><name>${escapeXml(name)}</name>${desc ? `<desc>${escapeXml(desc)}</desc>` : ""}</${tag}>`;
+
+  const seen = new Set<string>();
+  const waypoints: string[] = [];
+  stops.forEach(({ place, title }) => {
+    const key = `${place.name}|${place.lat}|${place.lng}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    waypoints.push(`  ${point("wpt", place, place.name, title)}`);
+  });
+
+  const routes: string[] = [];
+  const route = trip.itinerary?.route;
+  if (route && route.length > 1) {
+    routes.push(
+      "  <rte>",
+      `    <name>${escapeXml(t.route)}</name>`,
+      ...route.map(stop => `    ${point("rtept", stop.place, stop.destination, stop.transfer?.description)}`),
+      "  </rte>"
+    );
+  }
+  dayPaths(stops).forEach((path, day) => {
+    routes.push(
+      "  <rte>",
+      `    <name>${escapeXml(dayName(trip, day))}</name>`,
+      `    <number>${day}</number>`,
+      ...path.map(stop => `    ${point("rtept", stop.place, stop.title ?? stop.place.name, `${options.slots[stop.slot!]} · ${stop.place.name}`)}`),
+      "  </rte>"
+    );
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Vagabond" xmlns="http://www.topografix.com/GPX/1/1">',
+    `  <metadata><name>${escapeXml(trip.title)}</name><time>${new Date().toISOString()}</time></metadata>`,
+    ...waypoints,
+    ...routes,
+    "</gpx>",
+    "",
+  ].join("\n");
+}
+
+// RFC 7946 feature collection: a point per visit carrying its day and slot,
+// plus a line per day and one through the stops of a multi-destination trip.
+export function buildGeoJson(trip: SavedTrip) {
+  const stops = tripStops(trip);
+  const coordinates = (place: Place) => [place.lng, place.lat];
+
+  const points = stops.map(({ place, title, day, slot }) => ({
+    type: "Feature",
+    geometry: { type: "Point", coordinates: coordinates(place) },
+    properties: {
+      name: place.name,
+      ...(title !== undefined ? { title } : {}),
+      ...(day !== undefined ? { day, slot, ...(trip.start_date ? { date: tripDayDate(trip.start_date, day) } : {}) } : {}),
+    },
+  }));
+
+  const lines = [...dayPaths(stops)]
+    .filter(([, path]) => path.length > 1)
+    .map(([day, path]) => ({
+      type: "Feature",
+      geometry: { type: "LineString", coordinates: path.map(stop => coordinates(stop.place)) },
+      properties: { name: dayName(trip, day), day },
+    }));
+
+  const route = trip.itinerary?.route;
+  if (route && route.length > 1) {
+    lines.unshift({
+      type: "Feature",
+      geometry: { type: "LineString", coordinates: route.map(stop => coordinates(stop.place)) },
+      properties: { name: messagesFor(trip.language).itinerary.route, day: null },
+    });
+  }
+
+  return {
+    type: "FeatureCollection",
+    properties: { title: trip.title, destination: trip.destination, start_date: trip.start_date ?? null },
+    features: [...points, ...lines],
+  };
+}
@@ -0,0 +1,85 @@
+import { DEFAULT_LANGUAGE, messagesFor } from "../src/lib/i18n";
+import { SLOTS, formatCost, type Slot } from "../src/lib/itinerary";
+import { tripDayDate } from "../src/lib/trip";
+import type { SavedTrip } from "../src/lib/types";
+
+// Local times for each block of the day. Events use floating time, so they
+// land at these hours in whatever time zone the traveller is in.
+const SLOT_HOURS: Record<Slot, [start: string, end: string]> = {
+  morning: ["090000", "130000"],
+  afternoon: ["140000", "180000"],
+  evening: ["193000", "230000"],
+};
+
+function escapeText(text: string) {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545 caps lines at 75 octets; longer ones continue on lines starting with a space
+function foldLine(line: string) {
+  const parts: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function utcStamp(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// One event per non-empty morning/afternoon/evening block of each day.
+// The trip must have a structured itinerary; day 1 falls on startDate.
+export function buildCalendar(trip: SavedTrip, startDate: string): string {
+  const language = trip.language ?? DEFAULT_LANGUAGE;
+  const { itinerary: t, options } = messagesFor(language);
+  const stamp = utcStamp(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Vagabond//Itinerary//IT",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(trip.title)}`,
+  ];
+
+  for (const day of trip.itinerary!.days) {
+    const date = tripDayDate(startDate, day.day).replace(/-/g, "");
+    for (const slot of SLOTS) {
+      const activities = day[slot];
+      if (activities.length === 0) continue;
+
+      const [start, end] = SLOT_HOURS[slot];
+      const place = activities[0].place;
+      const description = activities.map(a =>
+        `${a.title} — ${a.place.name} (${formatCost(a.estimatedCost, trip.itinerary!.currency, language)})${a.description ? `\n${a.description}` : ""}`
+      ).join("\n\n");
+
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${trip.id}-${day.day}-${slot}@vagabond`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${date}T${start}`,
+        `DTEND:${date}T${end}`,
+        `SUMMARY:${escapeText(`${t.day(day.day)} · ${options.slots[slot]}: ${activities.map(a => a.title).join(", ")}`)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        `LOCATION:${escapeText(place.name)}`,
+        `GEO:${place.lat};${place.lng}`,
+        "END:VEVENT"
+      );
+    }
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,150 @@
+import { DEFAULT_LANGUAGE } from "../src/lib/i18n";
+import { collectLocations, renderItineraryMarkdown, type Itinerary } from "../src/lib/itinerary";
+import type { ItineraryRevision, Language, MapLocation, SavedTrip, Tag, TripDetails } from "../src/lib/types";
+import { reanchorDiscussion } from "./anchors";
+import type { Database } from "./db";
+import { HttpError } from "./errors";
+
+// Row of itineraries or itinerary_revisions as SQLite returns it, JSON columns still as text
+export type ItineraryRow = Record<string, unknown>;
+
+const isArray = (value: unknown) => Array.isArray(value);
+const isObject = (value: unknown) => typeof value === "object" && value !== null && !Array.isArray(value);
+
+// A corrupt JSON column shouldn't take a whole trip list down with it: it's logged and read as the fallback.
+// So is a value of the wrong shape; a stored JSON null quietly reads as the fallback.
+function parseColumn<T>(row: ItineraryRow, column: string, fallback: T, valid: (value: unknown) => boolean): T {
+  const value = row[column];
+  if (typeof value !== "string" || !value) return fallback;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    parsed = undefined;
+  }
+  if (parsed === null) return fallback;
+  if (parsed !== undefined && valid(parsed)) return parsed as T;
+  console.warn(`Malformed ${column} JSON in itinerary ${row.itinerary_id ?? row.id}`);
+  return fallback;
+}
+
+export function parseItineraryRow(row: ItineraryRow): SavedTrip {
+  return {
+    ...row,
+    interests: parseColumn(row, "interests", [], isArray),
+    activities: parseColumn(row, "activities", [], isArray),
+    legs: parseColumn(row, "legs", null, isArray),
+    itinerary: parseColumn(row, "itinerary", null, isObject),
+    locations: parseColumn(row, "locations", [], isArray),
+    // Revision rows have no organisation columns
+    ...("favourite" in row ? { favourite: !!row.favourite } : {})
+  } as SavedTrip;
+}
+
+export function findItinerary(db: Database, id: string): SavedTrip | undefined {
+  const row = db.prepare("SELECT * FROM itineraries WHERE id = ?").get(id) as ItineraryRow | undefined;
+  return row ? parseItineraryRow(row) : undefined;
+}
+
+// Tags of each of the given trips, by trip id; untagged trips are absent
+export function tagsByItinerary(db: Database, itineraryIds: string[]): Map<string, Tag[]> {
+  const tags = new Map<string, Tag[]>();
+  if (itineraryIds.length === 0) return tags;
+
+  const rows = db.prepare(`
+    SELECT it.itinerary_id, t.id, t.name FROM itinerary_tags it JOIN tags t ON t.id = it.tag_id
+    WHERE it.itinerary_id IN (${itineraryIds.map(() => "?").join(", ")})
+    ORDER BY t.name COLLATE NOCASE
+  `).all(...itineraryIds) as { itinerary_id: string; id: string; name: string }[];
+  rows.forEach(({ itinerary_id, id, name }) => {
+    if (!tags.has(itinerary_id)) tags.set(itinerary_id, []);
+    tags.get(itinerary_id)!.push({ id, name });
+  });
+  return tags;
+}
+
+export type ItineraryUpdate = Partial<TripDetails & {
+  title: string;
+  content: string;
+  itinerary: Itinerary | null;
+  locations: MapLocation[];
+}>;
+
+// Columns copied into itinerary_revisions on every edit
+export const SNAPSHOT_COLUMNS = ["title", "destination", "duration", "budget", "type", "interests", "activities", "start_date", "end_date", "legs", "budget_amount", "budget_currency", "travellers", "language", "content", "itinerary", "locations"];
+export const JSON_COLUMNS = new Set(["interests", "activities", "legs", "itinerary", "locations"]);
+
+// Answered as a 409 that carries the trip as it is now, for the client to merge or reload
+export class VersionConflictError extends HttpError {
+  constructor(readonly current: SavedTrip) {
+    super(409, "Conflict", "version_conflict", { current });
+    this.name = "VersionConflictError";
+  }
+}
+
+// Keeps content and map points derived from the structured itinerary when one is given.
+function withDerivedFields(changes: ItineraryUpdate, language: Language): ItineraryUpdate {
+  if (!changes.itinerary) return changes;
+  return {
+    ...changes,
+    content: renderItineraryMarkdown(changes.itinerary, language),
+    locations: collectLocations(changes.itinerary)
+  };
+}
+
+// Snapshots the current state as a revision, then applies the changes and bumps the version.
+// Comments and votes on activities follow the plan when it changes.
+// Pass expectedVersion to reject edits made against a stale copy.
+export function updateItinerary(
+  db: Database,
+  id: string,
+  changes: ItineraryUpdate,
+  authorId: string | null,
+  expectedVersion?: number
+): SavedTrip {
+  return db.transaction(() => {
+    const current = findItinerary(db, id);
+    if (!current) throw new Error(`Itinerary ${id} not found`);
+    if (expectedVersion !== undefined && expectedVersion !== current.version) {
+      throw new VersionConflictError(current);
+    }
+
+    db.prepare(`
+      INSERT INTO itinerary_revisions (itinerary_id, version, author_id, ${SNAPSHOT_COLUMNS.join(", ")})
+      SELECT id, version, ?, ${SNAPSHOT_COLUMNS.join(", ")} FROM itineraries WHERE id = ?
+    `).run(authorId, id);
+
+    const entries = Object.entries(withDerivedFields(changes, changes.language ?? current.language ?? DEFAULT_LANGUAGE)).filter(([key, value]) =>
+      SNAPSHOT_COLUMNS.includes(key) && value !== undefined
+    );
+    const assignments = entries.map(([key]) => `${key} = ?`);
+    const values = entries.map(([key, value]) => JSON_COLUMNS.has(key) && value !== null ? JSON.stringify(value) : value);
+
+    db.prepare(`
+      UPDATE itineraries SET ${[...assignments, "version = version + 1", "updated_at = CURRENT_TIMESTAMP"].join(", ")}
+      WHERE id = ?
+    `).run(...values, id);
+
+    const updated = findItinerary(db, id)!;
+    if (changes.itinerary !== undefined) reanchorDiscussion(db, id, current.itinerary, updated.itinerary);
+    return updated;
+  })();
+}
+
+export function listRevisions(db: Database, itineraryId: string) {
+  return db.prepare(`
+    SELECT r.id, r.version, r.title, u.email AS author_email, r.created_at
+    FROM itinerary_revisions r LEFT JOIN users u ON u.id = r.author_id
+    WHERE r.itinerary_id = ?
+    ORDER BY r.version DESC
+  `).all(itineraryId);
+}
+
+export function findRevision(db: Database, itineraryId: string, revisionId: number): ItineraryRevision | undefined {
+  const row = db.prepare(`
+    SELECT r.*, u.email AS author_email
+    FROM itinerary_revisions r LEFT JOIN users u ON u.id = r.author_id
+    WHERE r.itinerary_id = ? AND r.id = ?
+  `).get(itineraryId, revisionId) as ItineraryRow | undefined;
+  return row ? parseItineraryRow(row) as unknown as ItineraryRevision : undefined;
+}
@@ -0,0 +1,84 @@
+import type { RequestHandler, Response } from "express";
+import type { GenerationLimits } from "./config";
+import type { Database } from "./db";
+import { HttpError } from "./errors";
+import { generationsToday } from "./usage";
+
+const MINUTE_MS = 60 * 1000;
+
+// Sliding-window counter held in memory. It starts empty after a restart, which is
+// fine for throttling; the daily quota is read from the generations log instead.
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+  private swept = Date.now();
+
+  constructor(readonly limit: number, readonly windowMs = MINUTE_MS) {}
+
+  // Milliseconds until the key may hit again; 0 when it may now
+  wait(key: string, now = Date.now()): number {
+    if (this.limit === 0) return 0;
+    const recent = this.recent(key, now);
+    return recent.length < this.limit ? 0 : recent[0] + this.windowMs - now;
+  }
+
+  hit(key: string, now = Date.now()) {
+    if (this.limit === 0) return;
+    this.hits.set(key, [...this.recent(key, now), now]);
+    this.sweep(now);
+  }
+
+  private recent(key: string, now: number) {
+    return (this.hits.get(key) ?? []).filter(time => time > now - this.windowMs);
+  }
+
+  // Forgets keys that have gone quiet, so one-off IPs don't pile up
+  private sweep(now: number) {
+    if (now - this.swept < this.windowMs) return;
+    this.swept = now;
+    for (const key of this.hits.keys()) {
+      if (this.recent(key, now).length === 0) this.hits.delete(key);
+    }
+  }
+}
+
+const secondsUntilTomorrow = (now = new Date()) =>
+  Math.ceil((Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) - now.getTime()) / 1000);
+
+function tooMany(res: Response, message: string, code: "rate_limited" | "quota_exceeded", seconds: number) {
+  res.setHeader("Retry-After", String(seconds));
+  return new HttpError(429, message, code, { retry_after: seconds });
+}
+
+// Guards the generation endpoints: per-account and per-IP rates, then the daily quota.
+// Rejected requests count towards neither.
+export function generationLimits(db: Database, limits: GenerationLimits): RequestHandler {
+  const perUser = new RateLimiter(limits.perUserPerMinute);
+  const perIp = new RateLimiter(limits.perIpPerMinute);
+  // Requests still running, by the same account or guest IP the quota counts; the log only has finished ones
+  const running = new Map<string, number>();
+
+  return (req, res, next) => {
+    const userId = req.user?.id ?? null;
+    const ip = req.ip ?? null;
+    const quotaKey = userId ? `user:${userId}` : `ip:${ip}`;
+
+    const wait = Math.max(userId ? perUser.wait(userId) : 0, ip ? perIp.wait(ip) : 0);
+    if (wait > 0) return next(tooMany(res, "Too many generation requests, slow down", "rate_limited", Math.ceil(wait / 1000)));
+
+    const used = generationsToday(db, userId, ip) + (running.get(quotaKey) ?? 0);
+    if (limits.dailyQuota > 0 && used >= limits.dailyQuota) {
+      return next(tooMany(res, `Daily limit of ${limits.dailyQuota} generations reached`, "quota_exceeded", secondsUntilTomorrow()));
+    }
+
+    if (userId) perUser.hit(userId);
+    if (ip) perIp.hit(ip);
+    // Outcomes are logged by the time the response ends (a cancelled stream's just after), so nothing goes uncounted for long
+    running.set(quotaKey, (running.get(quotaKey) ?? 0) + 1);
+    res.once("close", () => {
+      const left = running.get(quotaKey)! - 1;
+      if (left > 0) running.set(quotaKey, left);
+      else running.delete(quotaKey);
+    });
+    next();
+  };
+}
@@ -0,0 +1,151 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { v4 as uuidv4 } from "uuid";
+import { WebSocketServer, type WebSocket } from "ws";
+import { LIVE_CLOSE_FORBIDDEN } from "../src/lib/trip";
+import type { LiveClientMessage, LiveServerMessage, LiveViewer, User } from "../src/lib/types";
+import { hasAccess, itineraryAccessFor } from "./access";
+import { sessionUser } from "./auth";
+import type { Database } from "./db";
+import type { TripEvents } from "./events";
+
+const LIVE_PATH = /^\/api\/itineraries\/([^/]+)\/live$/;
+const HEARTBEAT_MS = 30_000;
+
+interface Connection {
+  id: string;
+  socket: WebSocket;
+  itineraryId: string;
+  user: User | undefined;
+  // Browsers can't set headers on WebSockets, so a share token comes as ?share=
+  shareToken: string | null;
+  editing: boolean;
+  alive: boolean;
+}
+
+function reject(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+// WebSocket channel at /api/itineraries/:id/live for anyone who can view the trip.
+// It relays trip events published by the REST routes and tracks who has the trip open.
+export function attachLiveUpdates(server: Server, db: Database, events: TripEvents) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: 4096 });
+  const rooms = new Map<string, Set<Connection>>();
+
+  const access = (connection: Connection) =>
+    itineraryAccessFor(db, connection.user, connection.shareToken, connection.itineraryId);
+
+  const send = (connection: Connection, message: LiveServerMessage) => {
+    if (connection.socket.readyState === connection.socket.OPEN) connection.socket.send(JSON.stringify(message));
+  };
+
+  // Each person appears once, however many tabs they have open, and never in their own list
+  const broadcastPresence = (itineraryId: string) => {
+    const room = rooms.get(itineraryId);
+    if (!room) return;
+    const viewers = new Map<string, LiveViewer & { connectionIds: Set<string> }>();
+    room.forEach(c => {
+      const key = c.user?.id ?? c.id;
+      const viewer = viewers.get(key) ?? { id: key, name: c.user?.email ?? null, editing: false, connectionIds: new Set() };
+      viewer.editing ||= c.editing;
+      viewer.connectionIds.add(c.id);
+      viewers.set(key, viewer);
+    });
+    room.forEach(c => send(c, {
+      type: "presence",
+      viewers: [...viewers.values()]
+        .filter(v => !v.connectionIds.has(c.id) && v.id !== c.user?.id)
+        .map(({ id, name, editing }) => ({ id, name, editing })),
+    }));
+  };
+
+  const leave = (connection: Connection) => {
+    const room = rooms.get(connection.itineraryId);
+    if (!room?.delete(connection)) return;
+    if (room.size === 0) rooms.delete(connection.itineraryId);
+    broadcastPresence(connection.itineraryId);
+  };
+
+  const join = (connection: Connection) => {
+    const { socket } = connection;
+    if (!rooms.has(connection.itineraryId)) rooms.set(connection.itineraryId, new Set());
+    rooms.get(connection.itineraryId)!.add(connection);
+
+    socket.on("pong", () => { connection.alive = true; });
+    socket.on("close", () => leave(connection));
+    socket.on("message", data => {
+      let message: LiveClientMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      // Only people who may save changes can show up as editing
+      if (message?.type === "editing" && typeof message.editing === "boolean" && hasAccess(access(connection), "edit")) {
+        connection.editing = message.editing;
+        broadcastPresence(connection.itineraryId);
+      }
+    });
+    broadcastPresence(connection.itineraryId);
+  };
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const match = url.pathname.match(LIVE_PATH);
+    // Other upgrades, such as the dev server's hot reload, are not ours to answer
+    if (!match) return;
+
+    // Nothing throwing here is caught for us: an uncaught error would take the whole server down
+    let itineraryId: string;
+    try {
+      itineraryId = decodeURIComponent(match[1]);
+    } catch {
+      return reject(socket, "400 Bad Request");
+    }
+
+    const connection: Connection = {
+      id: uuidv4(),
+      socket: undefined!,
+      itineraryId,
+      user: sessionUser(db, req),
+      shareToken: url.searchParams.get("share"),
+      editing: false,
+      alive: true,
+    };
+    if (!hasAccess(access(connection), "view")) return reject(socket, "404 Not Found");
+
+    wss.handleUpgrade(req, socket, head, ws => {
+      connection.socket = ws;
+      join(connection);
+    });
+  });
+
+  // Share links can be revoked while a socket is open, so access is checked again on every event
+  const unsubscribe = events.subscribe((itineraryId, event) => {
+    rooms.get(itineraryId)?.forEach(connection => {
+      if (event.type !== "trip.deleted" && !hasAccess(access(connection), "view")) {
+        return connection.socket.close(LIVE_CLOSE_FORBIDDEN, "Access revoked");
+      }
+      send(connection, event);
+      if (event.type === "trip.deleted") connection.socket.close(LIVE_CLOSE_FORBIDDEN, "Trip deleted");
+    });
+  });
+
+  // Drops connections that stopped answering pings, e.g. after a laptop went to sleep
+  const heartbeat = setInterval(() => {
+    rooms.forEach(room => room.forEach(connection => {
+      if (!connection.alive) return connection.socket.terminate();
+      connection.alive = false;
+      connection.socket.ping();
+    }));
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+
+  server.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    wss.close();
+  });
+}
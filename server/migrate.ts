@@ -0,0 +1,41 @@
+import type { Database } from "better-sqlite3";
+import { migrations as defaultMigrations, type Migration } from "./migrations";
+
+export class SchemaTooNewError extends Error {
+  constructor(readonly dbVersion: number, readonly appVersion: number) {
+    super(`Database schema version ${dbVersion} is newer than this app supports (${appVersion}). Upgrade the app before starting it.`);
+    this.name = "SchemaTooNewError";
+  }
+}
+
+export function getSchemaVersion(db: Database): number {
+  const row = db.prepare("SELECT MAX(version) AS version FROM schema_version").get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+// Applies pending migrations in order, each inside its own transaction.
+// Returns the migrations that were applied.
+export function runMigrations(db: Database, migrations: Migration[] = defaultMigrations): Migration[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+  const latest = sorted.length > 0 ? sorted[sorted.length - 1].version : 0;
+  const current = getSchemaVersion(db);
+  if (current > latest) throw new SchemaTooNewError(current, latest);
+
+  const record = db.prepare("INSERT INTO schema_version (version, name) VALUES (?, ?)");
+  const pending = sorted.filter(m => m.version > current);
+  for (const migration of pending) {
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.version, migration.name);
+    })();
+  }
+  return pending;
+}
@@ -0,0 +1,25 @@
+import type { Migration } from "./types";
+
+// IF NOT EXISTS so databases created before versioning are adopted as-is
+const migration: Migration = {
+  version: 1,
+  name: "initial",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS itineraries (
+        id TEXT PRIMARY KEY,
+        title TEXT,
+        destination TEXT,
+        duration INTEGER,
+        budget TEXT,
+        type TEXT,
+        interests TEXT,
+        activities TEXT,
+        content TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  }
+};
+
+export default migration;
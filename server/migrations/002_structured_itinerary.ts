@@ -0,0 +1,13 @@
+import { hasColumn, type Migration } from "./types";
+
+const migration: Migration = {
+  version: 2,
+  name: "structured_itinerary",
+  up(db) {
+    if (!hasColumn(db, "itineraries", "itinerary")) {
+      db.exec("ALTER TABLE itineraries ADD COLUMN itinerary TEXT");
+    }
+  }
+};
+
+export default migration;
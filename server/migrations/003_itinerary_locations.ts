@@ -0,0 +1,46 @@
+import { hasColumn, type Migration } from "./types";
+
+interface StoredPlace {
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+// A frozen copy of collectLocations as it was when this migration was written, so later
+// changes to the app's itinerary code can't change what it does to an old database
+function collectLocations(itinerary: { days: Record<string, { place: StoredPlace }[]>[] }): StoredPlace[] {
+  const seen = new Set<string>();
+  const locations: StoredPlace[] = [];
+  itinerary.days.forEach(day => ["morning", "afternoon", "evening"].forEach(slot => (day[slot] ?? []).forEach(({ place }) => {
+    const key = `${place.name}|${place.lat}|${place.lng}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    locations.push({ name: place.name, lat: place.lat, lng: place.lng });
+  })));
+  return locations;
+}
+
+const migration: Migration = {
+  version: 3,
+  name: "itinerary_locations",
+  up(db) {
+    if (hasColumn(db, "itineraries", "locations")) return;
+    db.exec("ALTER TABLE itineraries ADD COLUMN locations TEXT NOT NULL DEFAULT '[]'");
+
+    // Rows saved with a structured itinerary can recover their map points; malformed ones keep none
+    const rows = db.prepare("SELECT id, itinerary FROM itineraries WHERE itinerary IS NOT NULL").all() as { id: string; itinerary: string }[];
+    const update = db.prepare("UPDATE itineraries SET locations = ? WHERE id = ?");
+    for (const row of rows) {
+      let locations: StoredPlace[];
+      try {
+        locations = collectLocations(JSON.parse(row.itinerary));
+      } catch {
+        console.warn(`Skipping map points of itinerary ${row.id}: malformed itinerary JSON`);
+        continue;
+      }
+      update.run(JSON.stringify(locations), row.id);
+    }
+  }
+};
+
+export default migration;
@@ -0,0 +1,30 @@
+import type { Migration } from "./types";
+
+// Existing itineraries keep a NULL owner: listed for nobody, readable by their old ?trip=<id> links
+// (see itineraryAccessFor) until someone signed in claims them.
+const migration: Migration = {
+  version: 4,
+  name: "users",
+  up(db) {
+    db.exec(`
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL
+      );
+
+      ALTER TABLE itineraries ADD COLUMN owner_id TEXT REFERENCES users(id) ON DELETE CASCADE;
+      CREATE INDEX idx_itineraries_owner ON itineraries(owner_id, created_at);
+    `);
+  }
+};
+
+export default migration;
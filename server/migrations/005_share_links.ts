@@ -0,0 +1,22 @@
+import type { Migration } from "./types";
+
+const migration: Migration = {
+  version: 5,
+  name: "share_links",
+  up(db) {
+    db.exec(`
+      CREATE TABLE share_links (
+        token TEXT PRIMARY KEY,
+        itinerary_id TEXT NOT NULL REFERENCES itineraries(id) ON DELETE CASCADE,
+        access TEXT NOT NULL CHECK (access IN ('view', 'comment', 'edit')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME,
+        revoked_at DATETIME
+      );
+
+      CREATE INDEX idx_share_links_itinerary ON share_links(itinerary_id);
+    `);
+  }
+};
+
+export default migration;
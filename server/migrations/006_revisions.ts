@@ -0,0 +1,34 @@
+import type { Migration } from "./types";
+
+const migration: Migration = {
+  version: 6,
+  name: "revisions",
+  up(db) {
+    db.exec(`
+      ALTER TABLE itineraries ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE itineraries ADD COLUMN updated_at DATETIME;
+
+      CREATE TABLE itinerary_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        itinerary_id TEXT NOT NULL REFERENCES itineraries(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        author_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+        title TEXT,
+        destination TEXT,
+        duration INTEGER,
+        budget TEXT,
+        type TEXT,
+        interests TEXT,
+        activities TEXT,
+        content TEXT,
+        itinerary TEXT,
+        locations TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE INDEX idx_revisions_itinerary ON itinerary_revisions(itinerary_id, version);
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,16 @@
+import type { Migration } from "./types";
+
+const migration: Migration = {
+  version: 7,
+  name: "trip_dates",
+  up(db) {
+    db.exec(`
+      ALTER TABLE itineraries ADD COLUMN start_date TEXT;
+      ALTER TABLE itineraries ADD COLUMN end_date TEXT;
+      ALTER TABLE itinerary_revisions ADD COLUMN start_date TEXT;
+      ALTER TABLE itinerary_revisions ADD COLUMN end_date TEXT;
+    `);
+  }
+};
+
+export default migration;
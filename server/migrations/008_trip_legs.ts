@@ -0,0 +1,14 @@
+import type { Migration } from "./types";
+
+const migration: Migration = {
+  version: 8,
+  name: "trip_legs",
+  up(db) {
+    db.exec(`
+      ALTER TABLE itineraries ADD COLUMN legs TEXT;
+      ALTER TABLE itinerary_revisions ADD COLUMN legs TEXT;
+    `);
+  }
+};
+
+export default migration;
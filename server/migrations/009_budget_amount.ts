@@ -0,0 +1,18 @@
+import type { Migration } from "./types";
+
+const migration: Migration = {
+  version: 9,
+  name: "budget_amount",
+  up(db) {
+    db.exec(`
+      ALTER TABLE itineraries ADD COLUMN budget_amount REAL;
+      ALTER TABLE itineraries ADD COLUMN budget_currency TEXT NOT NULL DEFAULT 'EUR';
+      ALTER TABLE itineraries ADD COLUMN travellers INTEGER NOT NULL DEFAULT 1;
+      ALTER TABLE itinerary_revisions ADD COLUMN budget_amount REAL;
+      ALTER TABLE itinerary_revisions ADD COLUMN budget_currency TEXT NOT NULL DEFAULT 'EUR';
+      ALTER TABLE itinerary_revisions ADD COLUMN travellers INTEGER NOT NULL DEFAULT 1;
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+import type { Migration } from "./types";
+
+// Full-text index over the searchable columns of each trip. It keeps its own copy of
+// the text keyed by trip id, because itineraries has no stable integer rowid to point at.
+const migration: Migration = {
+  version: 10,
+  name: "itinerary_search",
+  up(db) {
+    db.exec(`
+      CREATE VIRTUAL TABLE itineraries_fts USING fts5(
+        id UNINDEXED,
+        title,
+        destination,
+        content,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+
+      INSERT INTO itineraries_fts (id, title, destination, content)
+      SELECT id, title, destination, content FROM itineraries;
+
+      CREATE TRIGGER itineraries_fts_insert AFTER INSERT ON itineraries BEGIN
+        INSERT INTO itineraries_fts (id, title, destination, content) VALUES (new.id, new.title, new.destination, new.content);
+      END;
+
+      CREATE TRIGGER itineraries_fts_update AFTER UPDATE OF title, destination, content ON itineraries BEGIN
+        DELETE FROM itineraries_fts WHERE id = old.id;
+        INSERT INTO itineraries_fts (id, title, destination, content) VALUES (new.id, new.title, new.destination, new.content);
+      END;
+
+      CREATE TRIGGER itineraries_fts_delete AFTER DELETE ON itineraries BEGIN
+        DELETE FROM itineraries_fts WHERE id = old.id;
+      END;
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,38 @@
+import type { Migration } from "./types";
+
+const migration: Migration = {
+  version: 11,
+  name: "trip_organisation",
+  up(db) {
+    db.exec(`
+      CREATE TABLE folders (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE UNIQUE INDEX idx_folders_user_name ON folders(user_id, name COLLATE NOCASE);
+
+      CREATE TABLE tags (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE UNIQUE INDEX idx_tags_user_name ON tags(user_id, name COLLATE NOCASE);
+
+      CREATE TABLE itinerary_tags (
+        itinerary_id TEXT NOT NULL REFERENCES itineraries(id) ON DELETE CASCADE,
+        tag_id TEXT NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+        PRIMARY KEY (itinerary_id, tag_id)
+      );
+      CREATE INDEX idx_itinerary_tags_tag ON itinerary_tags(tag_id);
+
+      ALTER TABLE itineraries ADD COLUMN folder_id TEXT REFERENCES folders(id) ON DELETE SET NULL;
+      ALTER TABLE itineraries ADD COLUMN favourite INTEGER NOT NULL DEFAULT 0;
+      CREATE INDEX idx_itineraries_folder ON itineraries(folder_id);
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+import type { Migration } from "./types";
+
+const migration: Migration = {
+  version: 12,
+  name: "comments",
+  up(db) {
+    db.exec(`
+      -- Anchor: no day for the whole trip, a day alone, or down to one activity of a slot
+      CREATE TABLE comments (
+        id TEXT PRIMARY KEY,
+        itinerary_id TEXT NOT NULL REFERENCES itineraries(id) ON DELETE CASCADE,
+        parent_id TEXT REFERENCES comments(id) ON DELETE CASCADE,
+        author_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+        day INTEGER,
+        slot TEXT,
+        activity INTEGER,
+        body TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME
+      );
+      CREATE INDEX idx_comments_itinerary ON comments(itinerary_id, created_at);
+
+      CREATE TABLE activity_votes (
+        itinerary_id TEXT NOT NULL REFERENCES itineraries(id) ON DELETE CASCADE,
+        day INTEGER NOT NULL,
+        slot TEXT NOT NULL,
+        activity INTEGER NOT NULL,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        value INTEGER NOT NULL CHECK (value IN (-1, 1)),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (itinerary_id, day, slot, activity, user_id)
+      );
+    `);
+  }
+};
+
+export default migration;
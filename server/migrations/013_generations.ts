@@ -0,0 +1,32 @@
+import type { Migration } from "./types";
+
+const migration: Migration = {
+  version: 13,
+  name: "generations",
+  up(db) {
+    db.exec(`
+      -- One row per call to the model; the daily quota and the admin stats are read from here
+      CREATE TABLE generations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+        ip TEXT,
+        kind TEXT NOT NULL,
+        itinerary_id TEXT,
+        params TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        prompt_tokens INTEGER,
+        output_tokens INTEGER,
+        latency_ms INTEGER NOT NULL,
+        outcome TEXT NOT NULL,
+        error TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX idx_generations_created ON generations(created_at);
+      CREATE INDEX idx_generations_user ON generations(user_id, created_at);
+      CREATE INDEX idx_generations_ip ON generations(ip, created_at);
+    `);
+  }
+};
+
+export default migration;
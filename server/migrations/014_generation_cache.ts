@@ -0,0 +1,23 @@
+import type { Migration } from "./types";
+
+const migration: Migration = {
+  version: 14,
+  name: "generation_cache",
+  up(db) {
+    db.exec(`
+      -- Key: hash of the normalised trip details, prompt version, provider and model
+      CREATE TABLE generation_cache (
+        key TEXT PRIMARY KEY,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        prompt_version INTEGER NOT NULL,
+        itinerary TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME NOT NULL
+      );
+      CREATE INDEX idx_generation_cache_expires ON generation_cache(expires_at);
+    `);
+  }
+};
+
+export default migration;
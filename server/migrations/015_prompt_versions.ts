@@ -0,0 +1,17 @@
+import type { Migration } from "./types";
+
+const migration: Migration = {
+  version: 15,
+  name: "prompt_versions",
+  up(db) {
+    db.exec(`
+      -- Which prompt template produced a saved trip, and each logged model call
+      ALTER TABLE itineraries ADD COLUMN prompt_template TEXT;
+      ALTER TABLE itineraries ADD COLUMN prompt_version INTEGER;
+      ALTER TABLE generations ADD COLUMN prompt_template TEXT;
+      ALTER TABLE generations ADD COLUMN prompt_version INTEGER;
+    `);
+  }
+};
+
+export default migration;
@@ -0,0 +1,53 @@
+import type { Migration } from "./types";
+
+// The Italian labels trips stored before budget, interests and activities became keys. A frozen copy
+// of LEGACY_VALUES in src/lib/trip.ts on purpose: migrations must not change when the app code does.
+const BUDGETS: Record<string, string> = { economico: "economy", medio: "standard", lusso: "luxury" };
+const OPTIONS: Record<string, string> = {
+  "Gastronomia": "food",
+  "Arte": "art",
+  "Natura": "nature",
+  "Avventura": "adventure",
+  "Vita Notturna": "nightlife",
+  "Shopping": "shopping",
+  "Storia": "history",
+  "Relax": "relax",
+  "Visite Guidate": "guided_tours",
+  "Escursioni": "hiking",
+  "Corsi di Cucina": "cooking_classes",
+  "Esplorazione Indipendente": "self_guided",
+  "Sport Acquatici": "water_sports",
+  "Musei": "museums",
+};
+
+const toKeys = (json: string | null) => {
+  if (!json) return json;
+  try {
+    return JSON.stringify((JSON.parse(json) as unknown[]).map(value => typeof value === "string" ? OPTIONS[value] ?? value : value));
+  } catch {
+    return json;
+  }
+};
+
+const migration: Migration = {
+  version: 16,
+  name: "languages",
+  up(db) {
+    db.exec(`
+      -- Language the trip was generated in; everything before was Italian
+      ALTER TABLE itineraries ADD COLUMN language TEXT NOT NULL DEFAULT 'it';
+      ALTER TABLE itinerary_revisions ADD COLUMN language TEXT NOT NULL DEFAULT 'it';
+    `);
+
+    for (const table of ["itineraries", "itinerary_revisions"]) {
+      const setBudget = db.prepare(`UPDATE ${table} SET budget = ? WHERE budget = ?`);
+      for (const [label, key] of Object.entries(BUDGETS)) setBudget.run(key, label);
+
+      const rows = db.prepare(`SELECT rowid, interests, activities FROM ${table}`).all() as { rowid: number; interests: string | null; activities: string | null }[];
+      const update = db.prepare(`UPDATE ${table} SET interests = ?, activities = ? WHERE rowid = ?`);
+      for (const row of rows) update.run(toKeys(row.interests), toKeys(row.activities), row.rowid);
+    }
+  }
+};
+
+export default migration;
@@ -0,0 +1,13 @@
+import { hasColumn, type Migration } from "./types";
+
+const migration: Migration = {
+  version: 17,
+  name: "orphaned_comments",
+  up(db) {
+    if (hasColumn(db, "comments", "orphaned_activity")) return;
+    // Title of the activity a comment was about, once edits have removed it from the plan
+    db.exec("ALTER TABLE comments ADD COLUMN orphaned_activity TEXT");
+  }
+};
+
+export default migration;
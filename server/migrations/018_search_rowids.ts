@@ -0,0 +1,54 @@
+import type { Migration } from "./types";
+
+// Rebuilds the full-text index keyed by rowid, so updates and deletes find a trip's entry directly
+// instead of scanning the unindexed id column. Trip ids are text and itineraries' own rowids may
+// change on VACUUM, so itinerary_search_keys hands each trip a rowid of its own. The index is
+// contentless: search only needs the matches and their ranking, never the text back.
+const migration: Migration = {
+  version: 18,
+  name: "search_rowids",
+  up(db) {
+    db.exec(`
+      DROP TRIGGER itineraries_fts_insert;
+      DROP TRIGGER itineraries_fts_update;
+      DROP TRIGGER itineraries_fts_delete;
+      DROP TABLE itineraries_fts;
+
+      CREATE TABLE itinerary_search_keys (
+        rowid INTEGER PRIMARY KEY,
+        itinerary_id TEXT NOT NULL UNIQUE
+      );
+
+      CREATE VIRTUAL TABLE itineraries_fts USING fts5(
+        title,
+        destination,
+        content,
+        content = '',
+        contentless_delete = 1,
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+
+      INSERT INTO itinerary_search_keys (itinerary_id) SELECT id FROM itineraries;
+      INSERT INTO itineraries_fts (rowid, title, destination, content)
+      SELECT k.rowid, i.title, i.destination, i.content FROM itineraries i JOIN itinerary_search_keys k ON k.itinerary_id = i.id;
+
+      CREATE TRIGGER itineraries_fts_insert AFTER INSERT ON itineraries BEGIN
+        INSERT INTO itinerary_search_keys (itinerary_id) VALUES (new.id);
+        INSERT INTO itineraries_fts (rowid, title, destination, content) VALUES (last_insert_rowid(), new.title, new.destination, new.content);
+      END;
+
+      CREATE TRIGGER itineraries_fts_update AFTER UPDATE OF title, destination, content ON itineraries BEGIN
+        DELETE FROM itineraries_fts WHERE rowid = (SELECT rowid FROM itinerary_search_keys WHERE itinerary_id = old.id);
+        INSERT INTO itineraries_fts (rowid, title, destination, content)
+        SELECT rowid, new.title, new.destination, new.content FROM itinerary_search_keys WHERE itinerary_id = old.id;
+      END;
+
+      CREATE TRIGGER itineraries_fts_delete AFTER DELETE ON itineraries BEGIN
+        DELETE FROM itineraries_fts WHERE rowid = (SELECT rowid FROM itinerary_search_keys WHERE itinerary_id = old.id);
+        DELETE FROM itinerary_search_keys WHERE itinerary_id = old.id;
+      END;
+    `);
+  }
+};
+
+export default migration;
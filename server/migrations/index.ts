@@ -0,0 +1,43 @@
+import m001 from "./001_initial";
+import m002 from "./002_structured_itinerary";
+import m003 from "./003_itinerary_locations";
+import m004 from "./004_users";
+import m005 from "./005_share_links";
+import m006 from "./006_revisions";
+import m007 from "./007_trip_dates";
+import m008 from "./008_trip_legs";
+import m009 from "./009_budget_amount";
+import m010 from "./010_itinerary_search";
+import m011 from "./011_trip_organisation";
+import m012 from "./012_comments";
+import m013 from "./013_generations";
+import m014 from "./014_generation_cache";
+import m015 from "./015_prompt_versions";
+import m016 from "./016_languages";
+import m017 from "./017_orphaned_comments";
+import m018 from "./018_search_rowids";
+import type { Migration } from "./types";
+
+export type { Migration } from "./types";
+
+// Append new migrations here; versions must be strictly increasing.
+export const migrations: Migration[] = [
+  m001,
+  m002,
+  m003,
+  m004,
+  m005,
+  m006,
+  m007,
+  m008,
+  m009,
+  m010,
+  m011,
+  m012,
+  m013,
+  m014,
+  m015,
+  m016,
+  m017,
+  m018,
+];
@@ -0,0 +1,284 @@
+import PDFDocument from "pdfkit";
+import { costBreakdown } from "../src/lib/budget";
+import { DEFAULT_LANGUAGE, LOCALES, messagesFor, type Messages } from "../src/lib/i18n";
+import { SLOTS, formatCost, type Itinerary, type Place } from "../src/lib/itinerary";
+import { formatTripDates, tripDayDate } from "../src/lib/trip";
+import type { Language, SavedTrip } from "../src/lib/types";
+
+const BRAND = "#f97316";
+const INK = "#111111";
+const MUTED = "#8a8a8a";
+const RULE = "#e5e5e5";
+const MARGIN = 50;
+const MAP_HEIGHT = 230;
+
+type Doc = InstanceType<typeof PDFDocument>;
+
+// The built-in PDF fonts only cover Windows-1252; anything else would print as junk
+const WIN_ANSI_EXTRA = "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ";
+function clean(text: string) {
+  return text
+    .normalize("NFC")
+    .replace(/→/g, "-")
+    .replace(/[^\n\t\x20-\x7e\xa0-\xff]/g, char => WIN_ANSI_EXTRA.includes(char) ? char : "")
+    .trim();
+}
+
+function dayLabel(language: Language, day: number, startDate?: string | null) {
+  const label = messagesFor(language).itinerary.day(day);
+  if (!startDate) return label;
+  const date = new Date(`${tripDayDate(startDate, day)}T00:00:00Z`);
+  return `${label} · ${date.toLocaleDateString(LOCALES[language], { weekday: "long", day: "numeric", month: "long", timeZone: "UTC" })}`;
+}
+
+function ensureSpace(doc: Doc, height: number) {
+  if (doc.y + height > doc.page.height - MARGIN) doc.addPage();
+}
+
+function header(doc: Doc, trip: SavedTrip, language: Language) {
+  const t = messagesFor(language).itinerary;
+  const width = doc.page.width;
+  doc.rect(0, 0, width, 8).fill(BRAND);
+  doc.font("Helvetica-Bold").fontSize(9).fillColor(BRAND)
+    .text(t.pdfHeading.toUpperCase(), MARGIN, 32, { characterSpacing: 2 });
+  doc.moveDown(0.6);
+  doc.font("Helvetica-Bold").fontSize(24).fillColor(INK).text(clean(trip.title));
+
+  const facts = [
+    clean(trip.destination),
+    trip.start_date && trip.end_date ? formatTripDates(trip.start_date, trip.end_date, language) : t.days(trip.duration),
+    trip.travellers && trip.travellers > 1 ? t.travellers(trip.travellers) : null,
+  ].filter(Boolean).join("  ·  ");
+  doc.moveDown(0.3);
+  doc.font("Helvetica").fontSize(10).fillColor(MUTED).text(facts);
+  doc.moveDown(1);
+}
+
+function sectionTitle(doc: Doc, title: string) {
+  ensureSpace(doc, 60);
+  doc.moveDown(0.8);
+  doc.font("Helvetica-Bold").fontSize(9).fillColor(BRAND).text(title.toUpperCase(), MARGIN, doc.y, { characterSpacing: 1.5 });
+  doc.moveDown(0.4);
+}
+
+// Web Mercator, so the sketch has the proportions of the on-screen map
+function project(place: Place) {
+  const lat = Math.max(-85, Math.min(85, place.lat)) * Math.PI / 180;
+  return { x: place.lng, y: -Math.log(Math.tan(Math.PI / 4 + lat / 2)) * 180 / Math.PI };
+}
+
+// A map snapshot drawn from the coordinates alone: each day's path and a marker
+// numbered with its day. No tiles are fetched, so exports work offline.
+function mapSnapshot(doc: Doc, itinerary: Itinerary) {
+  const days = itinerary.days.map(day => ({
+    day: day.day,
+    points: SLOTS.flatMap(slot => day[slot].map(activity => project(activity.place))),
+  }));
+  const route = itinerary.route && itinerary.route.length > 1 ? itinerary.route.map(stop => project(stop.place)) : [];
+  const all = [...days.flatMap(d => d.points), ...route];
+  if (all.length === 0) return;
+
+  const width = doc.page.width - MARGIN * 2;
+  ensureSpace(doc, MAP_HEIGHT + 20);
+  const top = doc.y;
+  doc.roundedRect(MARGIN, top, width, MAP_HEIGHT, 12).fill("#f5f3ef");
+
+  // Fit the bounds into the box keeping the aspect ratio; a single place gets a small area around it
+  const xs = all.map(p => p.x);
+  const ys = all.map(p => p.y);
+  const spanX = Math.max(Math.max(...xs) - Math.min(...xs), 0.02);
+  const spanY = Math.max(Math.max(...ys) - Math.min(...ys), 0.02);
+  const inner = 24;
+  const scale = Math.min((width - inner * 2) / spanX, (MAP_HEIGHT - inner * 2) / spanY);
+  const centreX = (Math.max(...xs) + Math.min(...xs)) / 2;
+  const centreY = (Math.max(...ys) + Math.min(...ys)) / 2;
+  const toPage = (p: { x: number; y: number }) => [
+    MARGIN + width / 2 + (p.x - centreX) * scale,
+    top + MAP_HEIGHT / 2 + (p.y - centreY) * scale,
+  ] as const;
+
+  const path = (points: { x: number; y: number }[]) => {
+    points.forEach((p, i) => {
+      const [x, y] = toPage(p);
+      if (i === 0) doc.moveTo(x, y);
+      else doc.lineTo(x, y);
+    });
+  };
+
+  if (route.length > 1) {
+    path(route);
+    doc.dash(4, { space: 4 }).lineWidth(1.5).strokeColor(INK).stroke().undash();
+  }
+  days.filter(d => d.points.length > 1).forEach(d => {
+    path(d.points);
+    doc.lineWidth(1.5).strokeColor(BRAND).strokeOpacity(0.6).stroke().strokeOpacity(1);
+  });
+  days.forEach(d => d.points.forEach(p => {
+    const [x, y] = toPage(p);
+    doc.circle(x, y, 7).fillAndStroke(BRAND, "#ffffff");
+    doc.font("Helvetica-Bold").fontSize(7).fillColor("#ffffff")
+      .text(String(d.day), x - 7, y - 2.6, { width: 14, align: "center", lineBreak: false });
+  }));
+
+  doc.x = MARGIN;
+  doc.y = top + MAP_HEIGHT + 10;
+}
+
+function bulletList(doc: Doc, items: { label: string; text: string }[]) {
+  items.forEach(({ label, text }) => {
+    ensureSpace(doc, 30);
+    doc.font("Helvetica-Bold").fontSize(10).fillColor(INK).text(clean(label), MARGIN, doc.y, { continued: !!text });
+    if (text) doc.font("Helvetica").fillColor("#444444").text(`  ${clean(text)}`);
+    doc.moveDown(0.3);
+  });
+}
+
+function overview(doc: Doc, trip: SavedTrip, itinerary: Itinerary, language: Language) {
+  const { itinerary: t, options } = messagesFor(language);
+  if (itinerary.summary) {
+    doc.font("Helvetica").fontSize(11).fillColor("#333333").text(clean(itinerary.summary), { lineGap: 2 });
+    doc.moveDown(1);
+  }
+
+  mapSnapshot(doc, itinerary);
+
+  if (itinerary.route && itinerary.route.length > 1) {
+    sectionTitle(doc, t.route);
+    bulletList(doc, itinerary.route.map((stop, i) => ({
+      label: `${i + 1}. ${stop.destination} (${t.nights(stop.nights)})`,
+      text: stop.transfer ? `${options.transport[stop.transfer.mode]}: ${stop.transfer.description}` : "",
+    })));
+  }
+
+  const cost = (amount?: number) => amount !== undefined ? ` (${formatCost(amount, itinerary.currency, language)})` : "";
+  if (itinerary.accommodation.length > 0) {
+    sectionTitle(doc, t.lodging);
+    bulletList(doc, itinerary.accommodation.map(a => ({ label: `${a.name}${cost(a.estimatedCost)}`, text: a.description })));
+  }
+  if (itinerary.transport.length > 0) {
+    sectionTitle(doc, t.transport);
+    bulletList(doc, itinerary.transport.map(item => ({ label: `${item.mode}${cost(item.estimatedCost)}`, text: item.description })));
+  }
+
+  const total = costBreakdown(itinerary, trip.travellers ?? 1).total;
+  if (total > 0) {
+    doc.moveDown(0.5);
+    doc.font("Helvetica-Bold").fontSize(10).fillColor(INK)
+      .text(`${t.estimatedCost}: ${formatCost(total, itinerary.currency, language)}`, MARGIN, doc.y);
+  }
+}
+
+const COLUMNS: { key: keyof Messages["itinerary"]["pdfColumns"]; width: number }[] = [
+  { key: "slot", width: 70 },
+  { key: "activity", width: 235 },
+  { key: "place", width: 110 },
+  { key: "cost", width: 80 },
+];
+
+function tableRow(doc: Doc, cells: string[], options: { header?: boolean; notes?: string } = {}) {
+  const font = options.header ? "Helvetica-Bold" : "Helvetica";
+  const size = options.header ? 8 : 9;
+  const padding = 5;
+  doc.font(font).fontSize(size);
+  const heights = cells.map((cell, i) => doc.heightOfString(cell, { width: COLUMNS[i].width - padding * 2 }));
+  const notesHeight = options.notes
+    ? doc.font("Helvetica").fontSize(8).heightOfString(options.notes, { width: COLUMNS[1].width - padding * 2 }) + 3
+    : 0;
+  const height = Math.max(...heights.map((h, i) => i === 1 ? h + notesHeight : h)) + padding * 2;
+
+  ensureSpace(doc, height);
+  const top = doc.y;
+  let x = MARGIN;
+  cells.forEach((cell, i) => {
+    doc.font(i === 1 && !options.header ? "Helvetica-Bold" : font).fontSize(size)
+      .fillColor(options.header ? MUTED : INK)
+      .text(cell, x + padding, top + padding, { width: COLUMNS[i].width - padding * 2, align: i === 3 ? "right" : "left" });
+    if (i === 1 && options.notes) {
+      doc.font("Helvetica").fontSize(8).fillColor("#555555")
+        .text(options.notes, x + padding, doc.y + 3, { width: COLUMNS[i].width - padding * 2 });
+    }
+    x += COLUMNS[i].width;
+  });
+  doc.moveTo(MARGIN, top + height).lineTo(x, top + height).lineWidth(0.5).strokeColor(RULE).stroke();
+  doc.x = MARGIN;
+  doc.y = top + height;
+}
+
+function dayTables(doc: Doc, trip: SavedTrip, itinerary: Itinerary, language: Language) {
+  const { itinerary: t, options } = messagesFor(language);
+  itinerary.days.forEach(day => {
+    ensureSpace(doc, 110);
+    doc.moveDown(1.2);
+    doc.font("Helvetica-Bold").fontSize(9).fillColor(BRAND)
+      .text(dayLabel(language, day.day, trip.start_date).toUpperCase(), MARGIN, doc.y, { characterSpacing: 1 });
+    doc.font("Helvetica-Bold").fontSize(14).fillColor(INK).text(clean(day.title));
+    doc.moveDown(0.4);
+
+    tableRow(doc, COLUMNS.map(c => t.pdfColumns[c.key].toUpperCase()), { header: true });
+    SLOTS.forEach(slot => day[slot].forEach((activity, i) => {
+      const notes = [activity.description, activity.proTip && `${t.tip}: ${activity.proTip}`].filter(Boolean).map(clean).join("\n");
+      tableRow(doc, [
+        i === 0 ? options.slots[slot] : "",
+        clean(activity.title),
+        clean(activity.place.name),
+        formatCost(activity.estimatedCost, itinerary.currency, language),
+      ], { notes });
+    }));
+  });
+}
+
+// Trips saved before itineraries had structure only have their Markdown
+function plainContent(doc: Doc, content: string) {
+  content.split("\n").forEach(line => {
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const text = clean((heading ? heading[2] : line).replace(/\*\*|__|`/g, "").replace(/^\s*>\s?/, ""));
+    if (!text) return doc.moveDown(0.5);
+    ensureSpace(doc, 20);
+    if (heading) {
+      doc.moveDown(0.5).font("Helvetica-Bold").fontSize(heading[1].length <= 2 ? 14 : 11).fillColor(INK).text(text, MARGIN, doc.y);
+    } else {
+      doc.font("Helvetica").fontSize(10).fillColor("#333333").text(text, MARGIN, doc.y, { lineGap: 2 });
+    }
+  });
+}
+
+function footers(doc: Doc) {
+  const { start, count } = doc.bufferedPageRange();
+  for (let i = start; i < start + count; i++) {
+    doc.switchToPage(i);
+    const bottom = doc.page.height - MARGIN / 2 - 8;
+    // Writing inside the bottom margin would otherwise trigger a page break
+    doc.page.margins.bottom = 0;
+    doc.font("Helvetica").fontSize(8).fillColor(MUTED)
+      .text(`Vagabond · ${i + 1} / ${count}`, MARGIN, bottom, { width: doc.page.width - MARGIN * 2, align: "right", lineBreak: false });
+  }
+}
+
+// Branded A4 document: header, summary, map snapshot, lodging and transport,
+// then a table of activities for each day, in the language the trip was written in.
+export function buildPdf(trip: SavedTrip): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: MARGIN,
+    bufferPages: true,
+    info: { Title: clean(trip.title), Creator: "Vagabond" },
+  });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const language = trip.language ?? DEFAULT_LANGUAGE;
+  header(doc, trip, language);
+  if (trip.itinerary) {
+    overview(doc, trip, trip.itinerary, language);
+    dayTables(doc, trip, trip.itinerary, language);
+  } else {
+    plainContent(doc, trip.content);
+  }
+  footers(doc);
+  doc.end();
+  return done;
+}
@@ -0,0 +1,100 @@
+import { z } from "zod";
+import { DEFAULT_LANGUAGE, MESSAGES, optionLabel } from "../src/lib/i18n";
+import { daySchema, itinerarySchema, type Itinerary, type ItineraryDay } from "../src/lib/itinerary";
+import { tripDayDate } from "../src/lib/trip";
+import type { TripDetails } from "../src/lib/types";
+import { renderTemplate, type PromptTemplate, type PromptValues } from "./templates";
+
+export const itineraryJsonSchema = z.toJSONSchema(itinerarySchema);
+export const dayJsonSchema = z.toJSONSchema(daySchema);
+
+// The prompts are written in Italian, so option keys are spelled out with the Italian labels
+const { languages, options } = MESSAGES.it;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("it-IT", { weekday: "long", day: "numeric", month: "long", year: "numeric", timeZone: "UTC" });
+
+// Exact dates let the model account for weekly closures, opening hours and the season
+function dateValues(details: TripDetails): PromptValues {
+  if (!details.start_date) return {};
+  return {
+    start_date: details.start_date,
+    start_date_long: formatDate(details.start_date),
+    end_date_long: formatDate(details.end_date ?? tripDayDate(details.start_date, details.duration)),
+    day_dates: Array.from({ length: details.duration }, (_, i) => `Giorno ${i + 1}: ${formatDate(tripDayDate(details.start_date!, i + 1))}`).join("; "),
+  };
+}
+
+function legValues(details: TripDetails): PromptValues {
+  if ((details.legs?.length ?? 0) < 2) return { multi_leg: false };
+  const stops = details.legs!.map((leg, i) =>
+    `${i + 1}. ${leg.destination}, ${leg.nights} ${leg.nights === 1 ? "notte" : "notti"}${leg.transfer ? `, raggiunta in ${options.transport[leg.transfer].toLowerCase()} dalla tappa precedente` : ""}`
+  );
+  return { multi_leg: true, legs: stops.join("; ") };
+}
+
+// The TripDetails side of every template's variables, see PROMPT_VARIABLES
+function tripValues(details: TripDetails): PromptValues {
+  return {
+    destination: details.destination,
+    duration: details.duration,
+    budget: options.budgets[details.budget].toLowerCase(),
+    type: options.tripTypes[details.type].toLowerCase(),
+    interests: details.interests.map(key => optionLabel(options.interests, key)).join(", "),
+    activities: details.activities.map(key => optionLabel(options.activities, key)).join(", "),
+    language: languages[details.language ?? DEFAULT_LANGUAGE].toLowerCase(),
+    travellers: details.travellers ?? 1,
+    currency: details.budget_currency ?? "EUR",
+    budget_amount: details.budget_amount,
+    ...dateValues(details),
+    ...legValues(details),
+  };
+}
+
+export function buildItineraryPrompt(template: PromptTemplate, details: TripDetails): string {
+  return renderTemplate(template.text, tripValues(details));
+}
+
+// The other days go along as context so the new day doesn't repeat them.
+export function buildDayPrompt(template: PromptTemplate, details: TripDetails, itinerary: Itinerary, day: number, instruction?: string): string {
+  return renderTemplate(template.text, {
+    ...tripValues(details),
+    day,
+    other_days: JSON.stringify(itinerary.days.filter(d => d.day !== day)),
+    instruction,
+    itinerary_currency: itinerary.currency,
+  });
+}
+
+export class InvalidItineraryError extends Error {
+  constructor(message: string, readonly issues?: z.core.$ZodIssue[]) {
+    super(message);
+    this.name = "InvalidItineraryError";
+  }
+}
+
+// Parses and validates the model's reply. Tolerates a ```json fence around it.
+function parseModelJson<T extends z.ZodType>(text: string, schema: T): z.infer<T> {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new InvalidItineraryError("Model reply is not valid JSON");
+  }
+
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    throw new InvalidItineraryError("Model reply does not match the itinerary schema", result.error.issues);
+  }
+  return result.data;
+}
+
+export function parseItinerary(text: string): Itinerary {
+  return parseModelJson(text, itinerarySchema);
+}
+
+export function parseDay(text: string): ItineraryDay {
+  return parseModelJson(text, daySchema);
+}
@@ -0,0 +1,115 @@
+import type { Itinerary, ItineraryDay, RouteStop } from "../../src/lib/itinerary";
+import { legForDay } from "../../src/lib/trip";
+import type { TripDetails } from "../../src/lib/types";
+import type { GenerationRequest, ItineraryProvider } from "./types";
+
+const FAKE_CHUNK_SIZE = 64;
+const FAKE_CHUNK_DELAY_MS = 5;
+// Rough characters-per-token ratio, so usage accounting has numbers to show in dev
+const FAKE_CHARS_PER_TOKEN = 4;
+
+// Each leg sits half a degree further along, so multi-destination routes spread out on the map
+const legOrigin = (leg: number) => ({ lat: 41.9028 + (leg - 1) * 0.5, lng: 12.4964 + (leg - 1) * 0.5 });
+
+function fakeDay(details: TripDetails, day: number, instruction?: string): ItineraryDay {
+  const i = day - 1;
+  const leg = details.legs?.length ? legForDay(details.legs, day) : undefined;
+  const destination = leg ? details.legs![leg - 1].destination : details.destination;
+  const origin = legOrigin(leg ?? 1);
+  const place = (offset: number, name: string) => ({
+    name: `${name}, ${destination}`,
+    lat: origin.lat + (i * 3 + offset) * 0.01,
+    lng: origin.lng + (i * 3 + offset) * 0.01,
+  });
+
+  return {
+    day,
+    ...(leg ? { leg } : {}),
+    title: instruction ? `${destination}: ${instruction}` : `Scoperta di ${destination}`,
+    morning: [{
+      title: "Passeggiata in centro",
+      description: "Esplorazione del centro storico.",
+      place: place(0, "Centro storico"),
+      estimatedCost: 0,
+      category: "activities",
+      proTip: "Parti presto per evitare la folla.",
+    }],
+    afternoon: [{
+      title: "Visita al museo",
+      description: "Le collezioni principali della città.",
+      place: place(1, "Museo civico"),
+      estimatedCost: 15,
+      category: "activities",
+      proTip: "Il biglietto combinato fa risparmiare.",
+    }],
+    evening: [{
+      title: "Cena tipica",
+      description: "Cucina locale in trattoria.",
+      place: place(2, "Trattoria del porto"),
+      estimatedCost: 30,
+      category: "food",
+      proTip: "Chiedi il piatto del giorno.",
+    }],
+  };
+}
+
+function fakeRoute({ legs }: TripDetails): RouteStop[] {
+  return legs!.map((leg, i) => ({
+    destination: leg.destination,
+    place: { name: leg.destination, ...legOrigin(i + 1) },
+    nights: leg.nights,
+    transfer: leg.transfer ? { mode: leg.transfer, description: `Trasferimento da ${legs![i - 1].destination}.` } : null,
+  }));
+}
+
+// Deterministic offline provider: the same details always produce the same itinerary.
+export class FakeProvider implements ItineraryProvider {
+  readonly name = "fake";
+  readonly model = "fake-itinerary-v1";
+
+  async generate(request: GenerationRequest): Promise<string> {
+    const text = this.reply(request);
+    request.onUsage?.({
+      promptTokens: Math.ceil(request.prompt.length / FAKE_CHARS_PER_TOKEN),
+      outputTokens: Math.ceil(text.length / FAKE_CHARS_PER_TOKEN)
+    });
+    return text;
+  }
+
+  private reply({ details, task }: GenerationRequest): string {
+    if (task.kind === "day") {
+      return JSON.stringify(fakeDay(details, task.day, task.instruction));
+    }
+
+    const travellers = details.travellers ?? 1;
+    const itinerary: Itinerary = {
+      title: `Viaggio a ${details.destination}`,
+      summary: `${details.duration} giorni a ${details.destination} in stile ${details.type}.`,
+      currency: details.budget_currency ?? "EUR",
+      accommodation: [{
+        name: "Hotel Centrale",
+        description: `Soluzione di fascia ${details.budget} in centro.`,
+        estimatedCost: 80 * Math.max(details.duration - 1, 1) * Math.ceil(travellers / 2),
+      }],
+      transport: [{
+        mode: "Mezzi pubblici",
+        description: "Abbonamento giornaliero e spostamenti a piedi.",
+        estimatedCost: 7 * details.duration * travellers,
+      }],
+      ...(details.legs && details.legs.length > 1 ? { route: fakeRoute(details) } : {}),
+      days: Array.from({ length: details.duration }, (_, i) => fakeDay(details, i + 1)),
+    };
+
+    return JSON.stringify(itinerary);
+  }
+
+  // Replays the reply in small chunks, yielding to the event loop like a network stream would
+  async *generateStream(request: GenerationRequest): AsyncIterable<string> {
+    const text = await this.generate(request);
+    for (let i = 0; i < text.length; i += FAKE_CHUNK_SIZE) {
+      if (request.signal?.aborted) return;
+      await new Promise(resolve => setTimeout(resolve, FAKE_CHUNK_DELAY_MS));
+      yield text.slice(i, i + FAKE_CHUNK_SIZE);
+    }
+  }
+}
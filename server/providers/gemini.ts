@@ -0,0 +1,57 @@
+import { GoogleGenAI, type GenerateContentResponseUsageMetadata } from "@google/genai";
+import type { GenerationRequest, ItineraryProvider } from "./types";
+
+function reportUsage(request: GenerationRequest, metadata?: GenerateContentResponseUsageMetadata) {
+  if (!metadata) return;
+  request.onUsage?.({
+    promptTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0)
+  });
+}
+
+export class GeminiProvider implements ItineraryProvider {
+  readonly name = "gemini";
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, readonly model = "gemini-2.5-flash") {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  private config({ responseSchema, signal }: GenerationRequest) {
+    return {
+      responseMimeType: "application/json",
+      responseJsonSchema: responseSchema,
+      abortSignal: signal
+    };
+  }
+
+  async generate(request: GenerationRequest): Promise<string> {
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: request.prompt,
+      config: this.config(request)
+    });
+    reportUsage(request, response.usageMetadata);
+
+    if (!response.text) {
+      throw new Error("The model returned no response");
+    }
+    return response.text;
+  }
+
+  async *generateStream(request: GenerationRequest): AsyncIterable<string> {
+    const stream = await this.ai.models.generateContentStream({
+      model: this.model,
+      contents: request.prompt,
+      config: this.config(request)
+    });
+
+    // Every chunk carries the running totals, so the last one has the final count
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    for await (const chunk of stream) {
+      usage = chunk.usageMetadata ?? usage;
+      if (chunk.text) yield chunk.text;
+    }
+    reportUsage(request, usage);
+  }
+}
@@ -0,0 +1,21 @@
+import { FakeProvider } from "./fake";
+import { GeminiProvider } from "./gemini";
+import type { ItineraryProvider } from "./types";
+
+export type { GenerationRequest, GenerationTask, ItineraryProvider, TokenUsage } from "./types";
+
+// AI_PROVIDER selects the backend; without it we fall back to the fake
+// provider whenever no Gemini key is configured (offline dev).
+export function createProvider(env: NodeJS.ProcessEnv = process.env): ItineraryProvider {
+  const name = env.AI_PROVIDER || (env.GEMINI_API_KEY ? "gemini" : "fake");
+
+  switch (name) {
+    case "gemini":
+      if (!env.GEMINI_API_KEY) throw new Error("GEMINI_API_KEY is required for the gemini provider");
+      return new GeminiProvider(env.GEMINI_API_KEY, env.GEMINI_MODEL || undefined);
+    case "fake":
+      return new FakeProvider();
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${name}"`);
+  }
+}
@@ -0,0 +1,32 @@
+import type { TripDetails } from "../../src/lib/types";
+
+// What the prompt asks for; lets providers that ignore the prompt (the fake) answer in shape.
+export type GenerationTask =
+  | { kind: "itinerary" }
+  | { kind: "day"; day: number; instruction?: string };
+
+// Tokens billed for one call, as reported by the backend
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+}
+
+export interface GenerationRequest {
+  prompt: string;
+  details: TripDetails;
+  task: GenerationTask;
+  // JSON Schema the reply must conform to.
+  responseSchema: unknown;
+  signal?: AbortSignal;
+  // Called once the backend knows what the call cost; streams report it at the end.
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+// A backend able to turn an itinerary prompt into raw model text.
+export interface ItineraryProvider {
+  readonly name: string;
+  readonly model: string;
+  generate(request: GenerationRequest): Promise<string>;
+  // Same reply as generate, delivered as text chunks while the model writes it.
+  generateStream(request: GenerationRequest): AsyncIterable<string>;
+}
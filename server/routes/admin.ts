@@ -0,0 +1,60 @@
+import { Router } from "express";
+import { z } from "zod";
+import { itinerarySchema } from "../../src/lib/itinerary";
+import { tripDetailsSchema } from "../../src/lib/trip";
+import type { PromptPreview } from "../../src/lib/types";
+import { requireAdmin } from "../auth";
+import type { Database } from "../db";
+import { HttpError, notFound, validate } from "../errors";
+import { buildDayPrompt, buildItineraryPrompt } from "../prompt";
+import type { PromptLibrary } from "../templates";
+import { generationStats } from "../usage";
+
+const statsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+// Day templates also need the itinerary the day belongs to
+const previewSchema = z.object({
+  version: z.number().int().min(1).optional(),
+  details: tripDetailsSchema,
+  itinerary: itinerarySchema.optional(),
+  day: z.number().int().min(1).optional(),
+  instruction: z.string().trim().max(500).optional(),
+}).strict();
+
+export function adminRouter(db: Database, prompts: PromptLibrary, adminEmails: string[]) {
+  const router = Router();
+  router.use("/admin", requireAdmin(adminEmails));
+
+  // Generation usage per day, for keeping an eye on the model bill
+  router.get("/admin/stats", (req, res) => {
+    const { days } = validate(statsQuerySchema, req.query);
+    res.json(generationStats(db, days));
+  });
+
+  router.get("/admin/prompts", (_req, res) => {
+    res.json(prompts.list());
+  });
+
+  // Renders a template for the given details without calling the model; the active version by default
+  router.post("/admin/prompts/:name/preview", (req, res) => {
+    const { version, details, itinerary, day, instruction } = validate(previewSchema, req.body);
+    const name = req.params.name;
+    if (name !== "itinerary" && name !== "day") throw notFound();
+    const template = version ? prompts.find(name, version) : prompts.active(name);
+    if (!template) throw notFound();
+
+    let prompt: string;
+    if (name === "itinerary") {
+      prompt = buildItineraryPrompt(template, details);
+    } else {
+      if (!itinerary || !day) throw new HttpError(400, "Day templates need an itinerary and a day");
+      prompt = buildDayPrompt(template, details, itinerary, day, instruction);
+    }
+    const preview: PromptPreview = { name: template.name, version: template.version, prompt };
+    res.json(preview);
+  });
+
+  return router;
+}
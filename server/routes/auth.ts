@@ -0,0 +1,75 @@
+import { Router } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import {
+  clearSessionCookie,
+  createSession,
+  destroySession,
+  hashPassword,
+  readCookie,
+  SESSION_COOKIE,
+  setSessionCookie,
+  verifyPassword
+} from "../auth";
+import type { Database } from "../db";
+import { asyncRoute, HttpError, validate } from "../errors";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+const email = z.string().trim().toLowerCase();
+
+const registerSchema = z.object({
+  email: email.regex(EMAIL_PATTERN, "Invalid email"),
+  password: z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`),
+}).strict();
+
+// Logging in doesn't check the email's shape: an address that can't exist just isn't found
+const loginSchema = z.object({ email, password: z.string() }).strict();
+
+export function authRouter(db: Database) {
+  const router = Router();
+
+  router.post("/auth/register", asyncRoute(async (req, res) => {
+    const { email, password } = validate(registerSchema, req.body);
+
+    const existing = db.prepare("SELECT id FROM users WHERE email = ?").get(email);
+    if (existing) throw new HttpError(409, "Email already registered");
+
+    const user = { id: uuidv4(), email };
+    db.prepare("INSERT INTO users (id, email, password_hash) VALUES (?, ?, ?)")
+      .run(user.id, user.email, await hashPassword(password));
+
+    const { token, expiresAt } = createSession(db, user.id);
+    setSessionCookie(res, token, expiresAt);
+    res.status(201).json(user);
+  }));
+
+  router.post("/auth/login", asyncRoute(async (req, res) => {
+    const { email, password } = validate(loginSchema, req.body);
+    const row = db.prepare("SELECT id, email, password_hash FROM users WHERE email = ?").get(email) as
+      { id: string; email: string; password_hash: string } | undefined;
+
+    if (!row || !(await verifyPassword(password, row.password_hash))) {
+      throw new HttpError(401, "Invalid email or password", "invalid_credentials");
+    }
+
+    const { token, expiresAt } = createSession(db, row.id);
+    setSessionCookie(res, token, expiresAt);
+    res.json({ id: row.id, email: row.email });
+  }));
+
+  router.post("/auth/logout", (req, res) => {
+    const token = readCookie(req, SESSION_COOKIE);
+    if (token) destroySession(db, token);
+    clearSessionCookie(res);
+    res.json({ success: true });
+  });
+
+  router.get("/auth/me", (req, res) => {
+    if (!req.user) throw new HttpError(401, "Authentication required");
+    res.json(req.user);
+  });
+
+  return router;
+}
@@ -0,0 +1,35 @@
+import { Router } from "express";
+import { DEFAULT_LANGUAGE } from "../../src/lib/i18n";
+import { BACKUP_VERSION, backupSchema, markdownImportSchema } from "../../src/lib/backup";
+import { requireAuth } from "../auth";
+import { buildBackup, importTrips, tripFromMarkdown } from "../backup";
+import type { Database } from "../db";
+import { HttpError, validate } from "../errors";
+
+export function backupRouter(db: Database) {
+  const router = Router();
+
+  router.get("/backup", requireAuth, (req, res) => {
+    const backup = buildBackup(db, req.user!.id);
+    res.setHeader("Content-Disposition", `attachment; filename="vagabond-backup-${backup.exported_at.slice(0, 10)}.json"`);
+    res.json(backup);
+  });
+
+  // ?dryRun=true reports what would be imported without writing anything
+  router.post("/import", requireAuth, (req, res) => {
+    const backup = validate(backupSchema, req.body);
+    if (backup.version > BACKUP_VERSION) {
+      throw new HttpError(400, `Unsupported backup version ${backup.version}`);
+    }
+
+    res.json(importTrips(db, req.user!.id, backup.trips, req.query.dryRun === "true"));
+  });
+
+  router.post("/import/markdown", requireAuth, (req, res) => {
+    const { files, language = DEFAULT_LANGUAGE } = validate(markdownImportSchema, req.body);
+    const trips = files.map(file => tripFromMarkdown(file.name, file.content, language));
+    res.json(importTrips(db, req.user!.id, trips, req.query.dryRun === "true"));
+  });
+
+  return router;
+}
@@ -0,0 +1,138 @@
+import { Router, type Request } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { editCommentSchema, newCommentSchema, voteSchema } from "../../src/lib/comments";
+import type { Slot } from "../../src/lib/itinerary";
+import type { ActivityVotes, TripComment } from "../../src/lib/types";
+import { hasAccess, resolveItineraryAccess } from "../access";
+import { requireAuth } from "../auth";
+import type { Database } from "../db";
+import { HttpError, notFound, validate } from "../errors";
+import type { TripEvents } from "../events";
+import { findItinerary } from "../itineraries";
+
+const COMMENT_COLUMNS = `
+  c.id, c.parent_id, c.author_id, u.email AS author_email, c.day, c.slot, c.activity, c.orphaned_activity, c.body, c.created_at, c.updated_at
+`;
+
+type Anchor = { day?: number | null; slot?: Slot | null; activity?: number | null };
+
+// Anchors point at activities by position, so they're checked against the trip as it is now
+function anchorExists(db: Database, itineraryId: string, { day, slot, activity }: Anchor) {
+  if (day == null) return true;
+  const plan = findItinerary(db, itineraryId)?.itinerary;
+  const planDay = plan?.days.find(d => d.day === day);
+  if (!planDay) return false;
+  if (slot == null) return true;
+  return activity == null || activity < planDay[slot].length;
+}
+
+export function commentsRouter(db: Database, events: TripEvents) {
+  const router = Router();
+
+  const access = (req: Request) => resolveItineraryAccess(db, req, req.params.id);
+  const findComment = (itineraryId: string, commentId: string) => db.prepare(`
+    SELECT ${COMMENT_COLUMNS} FROM comments c LEFT JOIN users u ON u.id = c.author_id
+    WHERE c.itinerary_id = ? AND c.id = ?
+  `).get(itineraryId, commentId) as TripComment | undefined;
+
+  const tally = (itineraryId: string, userId: string | null, anchor?: { day: number; slot: Slot; activity: number }) => db.prepare(`
+    SELECT day, slot, activity,
+      SUM(value = 1) AS up, SUM(value = -1) AS down,
+      COALESCE(MAX(CASE WHEN user_id = ? THEN value END), 0) AS mine
+    FROM activity_votes
+    WHERE itinerary_id = ? ${anchor ? "AND day = ? AND slot = ? AND activity = ?" : ""}
+    GROUP BY day, slot, activity
+    ORDER BY day, slot, activity
+  `).all(userId, itineraryId, ...(anchor ? [anchor.day, anchor.slot, anchor.activity] : [])) as ActivityVotes[];
+
+  router.get("/itineraries/:id/comments", (req, res) => {
+    if (!hasAccess(access(req), "view")) throw notFound();
+    res.json(db.prepare(`
+      SELECT ${COMMENT_COLUMNS} FROM comments c LEFT JOIN users u ON u.id = c.author_id
+      WHERE c.itinerary_id = ? ORDER BY c.created_at, c.rowid
+    `).all(req.params.id));
+  });
+
+  // Commenting needs an account, so every comment has an author to show
+  router.post("/itineraries/:id/comments", requireAuth, (req, res) => {
+    if (!hasAccess(access(req), "view")) throw notFound();
+    if (!hasAccess(access(req), "comment")) throw new HttpError(403, "Commenting is not allowed on this trip");
+
+    let { body, parent_id, day, slot, activity } = validate(newCommentSchema, req.body);
+    if (parent_id) {
+      // Threads are one level deep: replying to a reply joins its parent's thread
+      const parent = findComment(req.params.id, parent_id);
+      if (!parent) throw new HttpError(400, "Unknown parent comment");
+      parent_id = parent.parent_id ?? parent.id;
+      ({ day, slot, activity } = parent);
+    } else if (!anchorExists(db, req.params.id, { day, slot, activity })) {
+      throw new HttpError(400, "Unknown day or activity");
+    }
+
+    const id = uuidv4();
+    db.prepare(`
+      INSERT INTO comments (id, itinerary_id, parent_id, author_id, day, slot, activity, body)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(id, req.params.id, parent_id ?? null, req.user!.id, day ?? null, slot ?? null, activity ?? null, body);
+    const comment = findComment(req.params.id, id)!;
+    events.publish(req.params.id, { type: "comment.added", comment });
+    res.status(201).json(comment);
+  });
+
+  router.patch("/itineraries/:id/comments/:commentId", requireAuth, (req, res) => {
+    const comment = hasAccess(access(req), "view") ? findComment(req.params.id, req.params.commentId) : undefined;
+    if (!comment) throw notFound();
+    if (comment.author_id !== req.user!.id) throw new HttpError(403, "Only the author can edit a comment");
+
+    const { body } = validate(editCommentSchema, req.body);
+    db.prepare("UPDATE comments SET body = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(body, comment.id);
+    const updated = findComment(req.params.id, comment.id)!;
+    events.publish(req.params.id, { type: "comment.updated", comment: updated });
+    res.json(updated);
+  });
+
+  // Authors can remove their comments and owners any comment; replies go with their thread
+  router.delete("/itineraries/:id/comments/:commentId", requireAuth, (req, res) => {
+    const level = access(req);
+    const comment = hasAccess(level, "view") ? findComment(req.params.id, req.params.commentId) : undefined;
+    if (!comment) throw notFound();
+    if (comment.author_id !== req.user!.id && level !== "owner") {
+      throw new HttpError(403, "Only the author or the trip owner can delete a comment");
+    }
+
+    db.prepare("DELETE FROM comments WHERE id = ?").run(comment.id);
+    events.publish(req.params.id, { type: "comment.deleted", id: comment.id });
+    res.json({ success: true });
+  });
+
+  router.get("/itineraries/:id/votes", (req, res) => {
+    if (!hasAccess(access(req), "view")) throw notFound();
+    res.json(tally(req.params.id, req.user?.id ?? null));
+  });
+
+  // One vote per person and activity; voting again replaces it
+  router.put("/itineraries/:id/votes", requireAuth, (req, res) => {
+    if (!hasAccess(access(req), "view")) throw notFound();
+    if (!hasAccess(access(req), "comment")) throw new HttpError(403, "Voting is not allowed on this trip");
+
+    const { day, slot, activity, value } = validate(voteSchema, req.body);
+    if (!anchorExists(db, req.params.id, { day, slot, activity })) {
+      throw new HttpError(400, "Unknown day or activity");
+    }
+
+    if (value === 0) {
+      db.prepare("DELETE FROM activity_votes WHERE itinerary_id = ? AND day = ? AND slot = ? AND activity = ? AND user_id = ?")
+        .run(req.params.id, day, slot, activity, req.user!.id);
+    } else {
+      db.prepare(`
+        INSERT INTO activity_votes (itinerary_id, day, slot, activity, user_id, value) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (itinerary_id, day, slot, activity, user_id) DO UPDATE SET value = excluded.value, created_at = CURRENT_TIMESTAMP
+      `).run(req.params.id, day, slot, activity, req.user!.id, value);
+    }
+    const { mine, ...votes } = tally(req.params.id, req.user!.id, { day, slot, activity })[0] ?? { day, slot, activity, up: 0, down: 0, mine: 0 };
+    events.publish(req.params.id, { type: "votes.updated", votes });
+    res.json({ ...votes, mine });
+  });
+
+  return router;
+}
@@ -0,0 +1,71 @@
+import { Router, type Request, type Response } from "express";
+import { z } from "zod";
+import { hasAccess, resolveItineraryAccess } from "../access";
+import type { Database } from "../db";
+import { asyncRoute, HttpError, notFound } from "../errors";
+import { buildGeoJson, buildGpx } from "../geo";
+import { buildCalendar } from "../ics";
+import { findItinerary } from "../itineraries";
+import { buildPdf } from "../pdf";
+
+// File name derived from the title, without characters that upset file systems
+function fileName(title: string, extension: string) {
+  const slug = title.normalize("NFKD").replace(/[^\w\s-]/g, "").trim().replace(/\s+/g, "-").toLowerCase();
+  return `${slug || "itinerario"}.${extension}`;
+}
+
+function sendFile(res: Response, contentType: string, name: string, body: string | Buffer) {
+  res.setHeader("Content-Type", contentType);
+  res.setHeader("Content-Disposition", `attachment; filename="${name}"`);
+  res.send(body);
+}
+
+export function exportsRouter(db: Database) {
+  const router = Router();
+
+  // Anyone who can view a trip can export it; others get the same 404 as for a missing trip
+  const viewableTrip = (req: Request) => {
+    if (!hasAccess(resolveItineraryAccess(db, req, req.params.id), "view")) throw notFound();
+    return findItinerary(db, req.params.id)!;
+  };
+
+  // ?start=YYYY-MM-DD places an undated trip on the calendar
+  router.get("/itineraries/:id/calendar.ics", (req, res) => {
+    const trip = viewableTrip(req);
+    if (!trip.itinerary) throw new HttpError(400, "Trip has no structured itinerary");
+
+    const start = z.iso.date().optional().safeParse(req.query.start);
+    if (!start.success) throw new HttpError(400, "Invalid start date");
+    const startDate = start.data ?? trip.start_date;
+    if (!startDate) throw new HttpError(400, "Trip has no start date");
+
+    sendFile(res, "text/calendar; charset=utf-8", fileName(trip.title, "ics"), buildCalendar(trip, startDate));
+  });
+
+  router.get("/itineraries/:id/itinerary.pdf", asyncRoute(async (req, res) => {
+    const trip = viewableTrip(req);
+    try {
+      sendFile(res, "application/pdf", fileName(trip.title, "pdf"), await buildPdf(trip));
+    } catch (err) {
+      console.error("PDF export failed:", err);
+      throw new HttpError(500, "Could not build the PDF", "internal");
+    }
+  }));
+
+  router.get("/itineraries/:id/itinerary.md", (req, res) => {
+    const trip = viewableTrip(req);
+    sendFile(res, "text/markdown; charset=utf-8", fileName(trip.title, "md"), trip.content);
+  });
+
+  router.get("/itineraries/:id/places.gpx", (req, res) => {
+    const trip = viewableTrip(req);
+    sendFile(res, "application/gpx+xml; charset=utf-8", fileName(trip.title, "gpx"), buildGpx(trip));
+  });
+
+  router.get("/itineraries/:id/places.geojson", (req, res) => {
+    const trip = viewableTrip(req);
+    sendFile(res, "application/geo+json; charset=utf-8", fileName(trip.title, "geojson"), JSON.stringify(buildGeoJson(trip), null, 2));
+  });
+
+  return router;
+}
@@ -0,0 +1,203 @@
+import { Router, type Request, type RequestHandler } from "express";
+import { z } from "zod";
+import { itinerarySchema } from "../../src/lib/itinerary";
+import { tripConsistencyError, tripDetailsSchema } from "../../src/lib/trip";
+import { hasAccess, resolveItineraryAccess } from "../access";
+import type { GenerationLimits } from "../config";
+import type { GenerationCache } from "../cache";
+import type { Database } from "../db";
+import { asyncRoute, HttpError, notFound, validate } from "../errors";
+import type { TripEvents } from "../events";
+import { generateItinerary, regenerateDay, replaceDay, replayItinerary, streamItinerary, toGeneratedItinerary } from "../generation";
+import { findItinerary, updateItinerary } from "../itineraries";
+import { generationLimits } from "../limits";
+import { InvalidItineraryError } from "../prompt";
+import type { ItineraryProvider } from "../providers";
+import type { PromptLibrary } from "../templates";
+import { startGeneration, type GenerationContext } from "../usage";
+
+const instructionSchema = z.string().trim().max(500).optional();
+
+const regenerateDaySchema = z.object({
+  details: tripDetailsSchema.refine(details => !tripConsistencyError(details), { message: "Dates, legs and duration don't agree" }),
+  itinerary: itinerarySchema,
+  day: z.number().int().min(1),
+  instruction: instructionSchema,
+});
+
+const regenerateSavedDaySchema = z.object({
+  instruction: instructionSchema,
+  version: z.number().int().optional(),
+});
+
+// "hit" when the itinerary came from the cache or from an identical request already running
+const CACHE_HEADER = "X-Generation-Cache";
+
+export function generateRouter(
+  provider: ItineraryProvider,
+  db: Database,
+  events: TripEvents,
+  limits: GenerationLimits,
+  cache: GenerationCache,
+  prompts: PromptLibrary
+) {
+  const router = Router();
+  const limited = generationLimits(db, limits);
+
+  const track = (req: Request, context: Omit<GenerationContext, "userId" | "ip">) =>
+    startGeneration(db, provider, { ...context, userId: req.user?.id ?? null, ip: req.ip ?? null });
+
+  // Logs what went wrong with the model and answers with a generic 502
+  const generationError = (err: unknown) => {
+    if (err instanceof InvalidItineraryError) {
+      console.error(`Invalid itinerary from ${provider.name}`, err.message, err.issues);
+      return new HttpError(502, "The model returned an invalid itinerary");
+    }
+    console.error(`Generation failed (${provider.name})`, err);
+    return new HttpError(502, "Generation failed");
+  };
+
+  const tripDetails = (body: unknown) => {
+    const details = validate(tripDetailsSchema, body);
+    const inconsistency = tripConsistencyError(details);
+    if (inconsistency) throw new HttpError(400, inconsistency);
+    return details;
+  };
+
+  // ?fresh=true asks for a new variant: the cache is skipped, and the result replaces what it held
+  router.post("/generate", limited, asyncRoute(async (req, res) => {
+    const details = tripDetails(req.body);
+    const fresh = req.query.fresh === "true";
+    const template = prompts.active("itinerary");
+    const key = cache.key(template, details);
+    const generation = track(req, { kind: "itinerary", template, details, extra: { fresh } });
+
+    const cached = fresh ? null : await cache.lookup(key);
+    if (cached) {
+      generation.cached();
+      res.setHeader(CACHE_HEADER, "hit");
+      return res.json(toGeneratedItinerary(cached, template, details));
+    }
+
+    const running = cache.begin(key, template);
+    try {
+      const itinerary = await generateItinerary(provider, template, details, generation.onUsage);
+      running.resolve(itinerary);
+      generation.succeed();
+      res.setHeader(CACHE_HEADER, "miss");
+      res.json(toGeneratedItinerary(itinerary, template, details));
+    } catch (err) {
+      running.reject(err);
+      generation.fail(err);
+      throw generationError(err);
+    }
+  }));
+
+  // Same as /generate, but streamed as server-sent events while the model writes.
+  // Closing the connection cancels the generation. Cached itineraries are replayed in one go.
+  router.post("/generate/stream", limited, asyncRoute(async (req, res) => {
+    const details = tripDetails(req.body);
+    const fresh = req.query.fresh === "true";
+    const template = prompts.active("itinerary");
+    const key = cache.key(template, details);
+    const generation = track(req, { kind: "stream", template, details, extra: { fresh } });
+
+    const controller = new AbortController();
+    res.on("close", () => controller.abort());
+
+    const cached = fresh ? null : await cache.lookup(key);
+    if (controller.signal.aborted) return generation.cancel();
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      [CACHE_HEADER]: cached ? "hit" : "miss"
+    });
+    const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    if (cached) {
+      for (const { event, data } of replayItinerary(cached, template, details)) send(event, data);
+      generation.cached();
+      return res.end();
+    }
+
+    const running = cache.begin(key, template);
+    try {
+      for await (const { event, data } of streamItinerary(provider, template, details, controller.signal, generation.onUsage)) {
+        if (event === "done") running.resolve(data.itinerary);
+        send(event, data);
+      }
+      if (controller.signal.aborted) {
+        running.reject(new Error("Generation cancelled"));
+        generation.cancel();
+      } else {
+        generation.succeed();
+      }
+    } catch (err) {
+      running.reject(err);
+      if (controller.signal.aborted) return generation.cancel();
+      generation.fail(err);
+      const { message, code } = generationError(err);
+      send("error", { error: message, code });
+    }
+    res.end();
+  }));
+
+  // Regenerates one day of an unsaved itinerary; the client swaps it in
+  router.post("/generate/day", limited, asyncRoute(async (req, res) => {
+    const { details, itinerary, day, instruction } = validate(regenerateDaySchema, req.body);
+    if (!itinerary.days.some(d => d.day === day)) throw new HttpError(400, `Day ${day} is not in the itinerary`);
+
+    const template = prompts.active("day");
+    const generation = track(req, { kind: "day", template, details, extra: { day, instruction } });
+    try {
+      const regenerated = await regenerateDay(provider, template, details, itinerary, day, instruction, generation.onUsage);
+      generation.succeed();
+      res.json(regenerated);
+    } catch (err) {
+      generation.fail(err);
+      throw generationError(err);
+    }
+  }));
+
+  // Access, body and day are checked before the limits, so refused requests don't use up the caller's quota
+  const regenerableDay: RequestHandler = (req, _res, next) => {
+    if (!hasAccess(resolveItineraryAccess(db, req, req.params.id), "edit")) throw notFound();
+    validate(regenerateSavedDaySchema, req.body ?? {});
+    const days = findItinerary(db, req.params.id)!.itinerary?.days ?? [];
+    if (!days.some(d => d.day === Number(req.params.day))) throw new HttpError(400, `Day ${req.params.day} is not in the itinerary`);
+    next();
+  };
+
+  // Regenerates one day of a saved trip and stores the result as a new revision
+  router.post("/itineraries/:id/days/:day/regenerate", regenerableDay, limited, asyncRoute(async (req, res) => {
+    const { instruction, version } = validate(regenerateSavedDaySchema, req.body ?? {});
+    const trip = findItinerary(db, req.params.id)!;
+    const day = Number(req.params.day);
+
+    const template = prompts.active("day");
+    const generation = track(req, { kind: "day", template, details: trip, itineraryId: trip.id, extra: { day, instruction } });
+    let regenerated;
+    try {
+      regenerated = await regenerateDay(provider, template, trip, trip.itinerary, day, instruction, generation.onUsage);
+      generation.succeed();
+    } catch (err) {
+      generation.fail(err);
+      throw generationError(err);
+    }
+
+    // Compare against the version the client saw, or the one we generated from
+    const updated = updateItinerary(
+      db,
+      trip.id,
+      { itinerary: replaceDay(trip.itinerary, regenerated) },
+      req.user?.id ?? null,
+      version ?? trip.version
+    );
+    events.publish(trip.id, { type: "trip.updated", trip: updated, by: req.user?.email ?? null });
+    res.json(updated);
+  }));
+
+  return router;
+}
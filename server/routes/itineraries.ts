@@ -0,0 +1,104 @@
+import { Router } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { DEFAULT_LANGUAGE, messagesFor } from "../../src/lib/i18n";
+import { itinerarySchema, placeSchema } from "../../src/lib/itinerary";
+import { tripSearchSchema } from "../../src/lib/search";
+import { tripConsistencyError, tripDetailsSchema } from "../../src/lib/trip";
+import { hasAccess, resolveItineraryAccess } from "../access";
+import { requireAuth } from "../auth";
+import type { Database } from "../db";
+import { HttpError, notFound, validate } from "../errors";
+import type { TripEvents } from "../events";
+import { findItinerary, updateItinerary } from "../itineraries";
+import { searchItineraries } from "../search";
+
+// A generated trip being saved: the details it was generated from plus the result
+const newTripSchema = tripDetailsSchema.extend({
+  title: z.string().trim().max(200).optional(),
+  content: z.string(),
+  itinerary: itinerarySchema.nullable().optional(),
+  locations: z.array(placeSchema).optional(),
+  // As returned by the generation; not checked against the templates, which may have changed since
+  prompt: z.object({ name: z.string().max(60), version: z.number().int().min(1) }).optional(),
+}).strict();
+
+// Every field is optional; "version" guards against overwriting someone else's edit.
+const patchSchema = tripDetailsSchema.extend({
+  title: z.string().trim().min(1).max(200),
+  content: z.string(),
+  itinerary: itinerarySchema,
+}).partial().extend({
+  version: z.number().int().optional(),
+}).strict();
+
+export function itinerariesRouter(db: Database, events: TripEvents) {
+  const router = Router();
+
+  router.post("/itineraries", requireAuth, (req, res) => {
+    const {
+      title, destination, duration, budget, type, interests, activities, start_date, end_date, legs,
+      budget_amount, budget_currency, travellers, language = DEFAULT_LANGUAGE, content, itinerary, locations, prompt
+    } = validate(newTripSchema, req.body);
+    const inconsistency = tripConsistencyError({ duration, start_date, end_date, legs });
+    if (inconsistency) throw new HttpError(400, inconsistency);
+    const id = uuidv4();
+    
+    const stmt = db.prepare(`
+      INSERT INTO itineraries (
+        id, owner_id, title, destination, duration, budget, type, interests, activities, start_date, end_date, legs,
+        budget_amount, budget_currency, travellers, language, content, itinerary, locations, prompt_template, prompt_version
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    
+    stmt.run(
+      id, req.user!.id, title || messagesFor(language).itinerary.untitled(destination), destination, duration, budget, type,
+      JSON.stringify(interests), JSON.stringify(activities), start_date ?? null, end_date ?? null, legs?.length ? JSON.stringify(legs) : null,
+      budget_amount ?? null, budget_currency ?? "EUR", travellers ?? 1, language,
+      content, itinerary ? JSON.stringify(itinerary) : null, JSON.stringify(locations ?? []),
+      prompt?.name ?? null, prompt?.version ?? null
+    );
+    
+    res.status(201).json(findItinerary(db, id));
+  });
+
+  // Full-text search, filters, sorting and cursor pagination over the caller's trips
+  router.get("/itineraries", requireAuth, (req, res) => {
+    res.json(searchItineraries(db, req.user!.id, validate(tripSearchSchema, req.query)));
+  });
+
+  // Trips the caller can't reach answer 404 rather than 403, so ids can't be probed
+  router.get("/itineraries/:id", (req, res) => {
+    if (!hasAccess(resolveItineraryAccess(db, req, req.params.id), "view")) throw notFound();
+    res.json(findItinerary(db, req.params.id));
+  });
+
+  router.patch("/itineraries/:id", (req, res) => {
+    if (!hasAccess(resolveItineraryAccess(db, req, req.params.id), "edit")) throw notFound();
+    const { version, ...changes } = validate(patchSchema, req.body);
+    // Checked against the stored trip, since a patch may change only some of the related fields
+    const inconsistency = tripConsistencyError({ ...findItinerary(db, req.params.id)!, ...changes });
+    if (inconsistency) throw new HttpError(400, inconsistency);
+
+    const updated = updateItinerary(db, req.params.id, changes, req.user?.id ?? null, version);
+    events.publish(updated.id, { type: "trip.updated", trip: updated, by: req.user?.email ?? null });
+    res.json(updated);
+  });
+
+  // Trips saved before accounts belong to whoever signs in and claims them first
+  router.post("/itineraries/:id/claim", requireAuth, (req, res) => {
+    const result = db.prepare("UPDATE itineraries SET owner_id = ? WHERE id = ? AND owner_id IS NULL").run(req.user!.id, req.params.id);
+    if (result.changes === 0) throw notFound();
+    res.json({ access: "owner", trip: findItinerary(db, req.params.id) });
+  });
+
+  router.delete("/itineraries/:id", requireAuth, (req, res) => {
+    const result = db.prepare("DELETE FROM itineraries WHERE id = ? AND owner_id = ?").run(req.params.id, req.user!.id);
+    if (result.changes === 0) throw notFound();
+    events.publish(req.params.id, { type: "trip.deleted" });
+    res.json({ success: true });
+  });
+
+  return router;
+}
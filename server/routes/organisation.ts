@@ -0,0 +1,113 @@
+import { Router } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { resolveItineraryAccess } from "../access";
+import { requireAuth } from "../auth";
+import type { Database } from "../db";
+import { HttpError, notFound, validate } from "../errors";
+import { tagsByItinerary } from "../itineraries";
+
+const nameSchema = z.object({ name: z.string().trim().min(1).max(60) }).strict();
+
+const isUniqueViolation = (err: unknown) => (err as { code?: string })?.code === "SQLITE_CONSTRAINT_UNIQUE";
+
+// Folders and tags are both per-user lists of uniquely named items; only how trips
+// point at them differs, which the trip_count query captures.
+const NAMED_LISTS = [
+  {
+    path: "folders",
+    label: "folder",
+    tripCount: "(SELECT COUNT(*) FROM itineraries i WHERE i.folder_id = l.id)",
+  },
+  {
+    path: "tags",
+    label: "tag",
+    tripCount: "(SELECT COUNT(*) FROM itinerary_tags t WHERE t.tag_id = l.id)",
+  },
+] as const;
+
+export function organisationRouter(db: Database) {
+  const router = Router();
+
+  for (const { path, label, tripCount } of NAMED_LISTS) {
+    router.get(`/${path}`, requireAuth, (req, res) => {
+      res.json(db.prepare(`
+        SELECT l.id, l.name, ${tripCount} AS trip_count FROM ${path} l
+        WHERE l.user_id = ? ORDER BY l.name COLLATE NOCASE
+      `).all(req.user!.id));
+    });
+
+    router.post(`/${path}`, requireAuth, (req, res) => {
+      const { name } = validate(nameSchema, req.body);
+
+      const id = uuidv4();
+      try {
+        db.prepare(`INSERT INTO ${path} (id, user_id, name) VALUES (?, ?, ?)`).run(id, req.user!.id, name);
+      } catch (err) {
+        if (isUniqueViolation(err)) throw new HttpError(409, `A ${label} with this name already exists`);
+        throw err;
+      }
+      res.status(201).json({ id, name: name, trip_count: 0 });
+    });
+
+    router.patch(`/${path}/:id`, requireAuth, (req, res) => {
+      const { name } = validate(nameSchema, req.body);
+
+      let result;
+      try {
+        result = db.prepare(`UPDATE ${path} SET name = ? WHERE id = ? AND user_id = ?`).run(name, req.params.id, req.user!.id);
+      } catch (err) {
+        if (isUniqueViolation(err)) throw new HttpError(409, `A ${label} with this name already exists`);
+        throw err;
+      }
+      if (result.changes === 0) throw notFound();
+      res.json(db.prepare(`SELECT l.id, l.name, ${tripCount} AS trip_count FROM ${path} l WHERE l.id = ?`).get(req.params.id));
+    });
+
+    // Trips stay; they just leave the folder or lose the tag
+    router.delete(`/${path}/:id`, requireAuth, (req, res) => {
+      const result = db.prepare(`DELETE FROM ${path} WHERE id = ? AND user_id = ?`).run(req.params.id, req.user!.id);
+      if (result.changes === 0) throw notFound();
+      res.json({ success: true });
+    });
+  }
+
+  // Organising a trip is personal, so only its owner can do it
+  router.use(["/itineraries/:id/folder", "/itineraries/:id/tags", "/itineraries/:id/favourite"], requireAuth, (req, res, next) => {
+    if (resolveItineraryAccess(db, req, req.params.id) !== "owner") return next(notFound());
+    next();
+  });
+
+  router.put("/itineraries/:id/folder", (req, res) => {
+    const { folder_id: folderId } = validate(z.object({ folder_id: z.string().nullable() }).strict(), req.body);
+    if (folderId && !db.prepare("SELECT 1 FROM folders WHERE id = ? AND user_id = ?").get(folderId, req.user!.id)) {
+      throw new HttpError(400, "Unknown folder");
+    }
+    db.prepare("UPDATE itineraries SET folder_id = ? WHERE id = ?").run(folderId, req.params.id);
+    res.json({ folder_id: folderId });
+  });
+
+  router.put("/itineraries/:id/tags", (req, res) => {
+    const { tag_ids } = validate(z.object({ tag_ids: z.array(z.string()).max(50) }).strict(), req.body);
+    const tagIds = [...new Set(tag_ids)];
+    const owned = tagIds.length === 0 ? 0 : (db.prepare(
+      `SELECT COUNT(*) AS count FROM tags WHERE user_id = ? AND id IN (${tagIds.map(() => "?").join(", ")})`
+    ).get(req.user!.id, ...tagIds) as { count: number }).count;
+    if (owned !== tagIds.length) throw new HttpError(400, "Unknown tag");
+
+    db.transaction(() => {
+      db.prepare("DELETE FROM itinerary_tags WHERE itinerary_id = ?").run(req.params.id);
+      const insert = db.prepare("INSERT INTO itinerary_tags (itinerary_id, tag_id) VALUES (?, ?)");
+      tagIds.forEach(tagId => insert.run(req.params.id, tagId));
+    })();
+    res.json(tagsByItinerary(db, [req.params.id]).get(req.params.id) ?? []);
+  });
+
+  router.put("/itineraries/:id/favourite", (req, res) => {
+    const { favourite } = validate(z.object({ favourite: z.boolean() }).strict(), req.body);
+    db.prepare("UPDATE itineraries SET favourite = ? WHERE id = ?").run(favourite ? 1 : 0, req.params.id);
+    res.json({ favourite });
+  });
+
+  return router;
+}
@@ -0,0 +1,44 @@
+import { Router } from "express";
+import { hasAccess, resolveItineraryAccess } from "../access";
+import type { Database } from "../db";
+import { notFound } from "../errors";
+import type { TripEvents } from "../events";
+import { findRevision, listRevisions, updateItinerary } from "../itineraries";
+
+export function revisionsRouter(db: Database, events: TripEvents) {
+  const router = Router();
+
+  router.get("/itineraries/:id/revisions", (req, res) => {
+    if (!hasAccess(resolveItineraryAccess(db, req, req.params.id), "view")) throw notFound();
+    res.json(listRevisions(db, req.params.id));
+  });
+
+  router.get("/itineraries/:id/revisions/:revisionId", (req, res) => {
+    const revision = hasAccess(resolveItineraryAccess(db, req, req.params.id), "view")
+      ? findRevision(db, req.params.id, Number(req.params.revisionId))
+      : undefined;
+    if (!revision) throw notFound();
+    res.json(revision);
+  });
+
+  // Restoring is itself an edit, so the state being replaced becomes a revision too
+  router.post("/itineraries/:id/revisions/:revisionId/restore", (req, res) => {
+    const revision = hasAccess(resolveItineraryAccess(db, req, req.params.id), "edit")
+      ? findRevision(db, req.params.id, Number(req.params.revisionId))
+      : undefined;
+    if (!revision) throw notFound();
+
+    const {
+      title, destination, duration, budget, type, interests, activities, start_date, end_date, legs,
+      budget_amount, budget_currency, travellers, language, content, itinerary, locations
+    } = revision;
+    const updated = updateItinerary(db, req.params.id, {
+      title, destination, duration, budget, type, interests, activities, start_date, end_date, legs,
+      budget_amount, budget_currency, travellers, language, content, itinerary, locations
+    }, req.user?.id ?? null);
+    events.publish(updated.id, { type: "trip.updated", trip: updated, by: req.user?.email ?? null });
+    res.json(updated);
+  });
+
+  return router;
+}
@@ -0,0 +1,66 @@
+import { randomBytes } from "crypto";
+import { Router } from "express";
+import { z } from "zod";
+import { findShareLink, itineraryAccessFor, resolveItineraryAccess } from "../access";
+import { requireAuth } from "../auth";
+import type { Database } from "../db";
+import { notFound, validate } from "../errors";
+import { findItinerary } from "../itineraries";
+
+const newShareSchema = z.object({
+  access: z.enum(["view", "comment", "edit"]),
+  expiresAt: z.iso.datetime({ offset: true })
+    .refine(value => Date.parse(value) > Date.now(), "expiresAt must be a future date")
+    .nullable().optional(),
+}).strict();
+
+export function sharesRouter(db: Database) {
+  const router = Router();
+
+  // Share links are managed by the trip owner only
+  router.use("/itineraries/:id/shares", requireAuth, (req, res, next) => {
+    if (resolveItineraryAccess(db, req, req.params.id) !== "owner") return next(notFound());
+    next();
+  });
+
+  router.get("/itineraries/:id/shares", (req, res) => {
+    const links = db.prepare(`
+      SELECT token, access, created_at, expires_at FROM share_links
+      WHERE itinerary_id = ? AND revoked_at IS NULL
+      ORDER BY created_at DESC, rowid DESC
+    `).all(req.params.id);
+    res.json(links);
+  });
+
+  router.post("/itineraries/:id/shares", (req, res) => {
+    const { access, expiresAt } = validate(newShareSchema, req.body);
+    const expires = expiresAt == null ? null : new Date(expiresAt).toISOString();
+
+    const token = randomBytes(24).toString("base64url");
+    db.prepare("INSERT INTO share_links (token, itinerary_id, access, expires_at) VALUES (?, ?, ?, ?)")
+      .run(token, req.params.id, access, expires);
+
+    res.status(201).json(db.prepare("SELECT token, access, created_at, expires_at FROM share_links WHERE token = ?").get(token));
+  });
+
+  router.delete("/itineraries/:id/shares/:token", (req, res) => {
+    const result = db.prepare(`
+      UPDATE share_links SET revoked_at = CURRENT_TIMESTAMP
+      WHERE token = ? AND itinerary_id = ? AND revoked_at IS NULL
+    `).run(req.params.token, req.params.id);
+    if (result.changes === 0) throw notFound();
+    res.json({ success: true });
+  });
+
+  // Resolves a share token to the trip it grants access to. Links from before share tokens
+  // carry the trip id instead, which still opens trips nobody has claimed yet.
+  router.get("/shared/:token", (req, res) => {
+    const link = findShareLink(db, req.params.token);
+    const trip = findItinerary(db, link?.itinerary_id ?? req.params.token);
+    const access = trip && itineraryAccessFor(db, req.user, req.params.token, trip.id);
+    if (!access) throw notFound();
+    res.json({ access, trip });
+  });
+
+  return router;
+}
@@ -0,0 +1,126 @@
+import type { TripSearch, TripSort } from "../src/lib/search";
+import type { SavedTripPage } from "../src/lib/types";
+import type { Database } from "./db";
+import { HttpError } from "./errors";
+import { parseItineraryRow, tagsByItinerary, type ItineraryRow } from "./itineraries";
+
+const SORT_KEYS: Record<TripSort, string> = {
+  created: "i.created_at",
+  updated: "COALESCE(i.updated_at, i.created_at)",
+  title: "lower(i.title)",
+  duration: "i.duration",
+  // bm25 scores better matches lower; title and destination weigh more than the body
+  relevance: "bm25(itineraries_fts, 10.0, 5.0, 1.0)",
+};
+
+export class InvalidCursorError extends HttpError {
+  constructor() {
+    super(400, "Invalid cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+// Turns free text into an FTS5 query: every word must match, as a prefix, in some column.
+// Quoting each word keeps FTS operators typed by the user from being interpreted.
+export function toMatchQuery(text: string): string | null {
+  const words = text.match(/[\p{L}\p{N}]+/gu);
+  return words ? words.map(word => `"${word}"*`).join(" ") : null;
+}
+
+// A trip row with the value it is sorted by, which the cursor carries
+type SearchRow = ItineraryRow & { id: string; sort_key: unknown };
+
+// Cursors carry the sort key and id of the last trip on the previous page
+function encodeCursor(key: unknown, id: string) {
+  return Buffer.from(JSON.stringify([key, id])).toString("base64url");
+}
+
+// Sort keys are text, numbers or null, the only values SQLite would bind; anything else was tampered with
+const isSortKey = (key: unknown) => key === null || typeof key === "string" || (typeof key === "number" && Number.isFinite(key));
+
+function decodeCursor(cursor: string): [string | number | null, string] {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (Array.isArray(value) && value.length === 2 && isSortKey(value[0]) && typeof value[1] === "string") {
+      return value as [string | number | null, string];
+    }
+  } catch {
+    // fall through
+  }
+  throw new InvalidCursorError();
+}
+
+export function searchItineraries(db: Database, ownerId: string, search: TripSearch): SavedTripPage {
+  const match = search.q ? toMatchQuery(search.q) : null;
+  const sort = search.sort === "relevance" && !match ? "created" : search.sort;
+  const direction = search.order ?? (sort === "title" || sort === "relevance" ? "asc" : "desc");
+
+  const where = ["i.owner_id = ?"];
+  const params: unknown[] = [ownerId];
+  if (match) {
+    where.push("itineraries_fts MATCH ?");
+    params.push(match);
+  }
+  if (search.type?.length) {
+    where.push(`i.type IN (${search.type.map(() => "?").join(", ")})`);
+    params.push(...search.type);
+  }
+  if (search.budget?.length) {
+    where.push(`i.budget IN (${search.budget.map(() => "?").join(", ")})`);
+    params.push(...search.budget);
+  }
+  search.interests?.forEach(interest => {
+    where.push("EXISTS (SELECT 1 FROM json_each(i.interests) WHERE value = ?)");
+    params.push(interest);
+  });
+  search.tag?.forEach(tagId => {
+    where.push("EXISTS (SELECT 1 FROM itinerary_tags WHERE itinerary_id = i.id AND tag_id = ?)");
+    params.push(tagId);
+  });
+  if (search.folder === "none") {
+    where.push("i.folder_id IS NULL");
+  } else if (search.folder) {
+    where.push("i.folder_id = ?");
+    params.push(search.folder);
+  }
+  if (search.favourite !== undefined) {
+    where.push("i.favourite = ?");
+    params.push(search.favourite ? 1 : 0);
+  }
+  if (search.minDuration !== undefined) {
+    where.push("i.duration >= ?");
+    params.push(search.minDuration);
+  }
+  if (search.maxDuration !== undefined) {
+    where.push("i.duration <= ?");
+    params.push(search.maxDuration);
+  }
+
+  const from = `itineraries i ${match ? "JOIN itinerary_search_keys k ON k.itinerary_id = i.id JOIN itineraries_fts ON itineraries_fts.rowid = k.rowid" : ""} WHERE ${where.join(" AND ")}`;
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM ${from}`).get(...params) as { total: number };
+
+  let after = "";
+  const afterParams: unknown[] = [];
+  if (search.cursor) {
+    const [key, id] = decodeCursor(search.cursor);
+    const op = direction === "asc" ? ">" : "<";
+    after = `WHERE sort_key ${op} ? OR (sort_key = ? AND id ${op} ?)`;
+    afterParams.push(key, key, id);
+  }
+
+  const rows = db.prepare(`
+    SELECT * FROM (SELECT i.*, ${SORT_KEYS[sort]} AS sort_key FROM ${from})
+    ${after}
+    ORDER BY sort_key ${direction}, id ${direction}
+    LIMIT ?
+  `).all(...params, ...afterParams, search.limit + 1) as SearchRow[];
+
+  const page = rows.slice(0, search.limit);
+  const last = page[page.length - 1];
+  const tags = tagsByItinerary(db, page.map(row => row.id));
+  return {
+    items: page.map(({ sort_key, ...row }) => ({ ...parseItineraryRow(row), tags: tags.get(row.id) ?? [] })),
+    total,
+    nextCursor: rows.length > search.limit ? encodeCursor(last.sort_key, last.id) : null,
+  };
+}
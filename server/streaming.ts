@@ -0,0 +1,92 @@
+import { daySchema, itinerarySchema, type ItineraryDay } from "../src/lib/itinerary";
+import type { ItineraryOverview } from "../src/lib/types";
+
+const overviewSchema = itinerarySchema.omit({ days: true });
+
+// Incrementally scans the model's JSON reply and reports each entry of the
+// top-level "days" array as soon as its closing brace arrives, so the client
+// can render day by day instead of waiting for the whole document.
+export class ItineraryStreamParser {
+  private buffer = "";
+  private overviewSent = false;
+  private daysSent = 0;
+
+  // Scanner state, kept between pushes so each chunk is only scanned once
+  private scanned = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private lastKey: string | null = null;
+  private daysStart = -1;
+  private inDays = false;
+  private objectStart = -1;
+  private dayRanges: [number, number][] = [];
+
+  push(chunk: string): { overview?: ItineraryOverview; days: ItineraryDay[] } {
+    this.buffer += chunk;
+    this.scan();
+    const result: { overview?: ItineraryOverview; days: ItineraryDay[] } = { days: [] };
+
+    // Fields written before "days" form the overview; close the document to parse them
+    if (!this.overviewSent && this.daysStart !== -1) {
+      this.overviewSent = true;
+      try {
+        const parsed = overviewSchema.safeParse(JSON.parse(this.buffer.slice(0, this.daysStart) + "[]}"));
+        if (parsed.success) result.overview = parsed.data;
+      } catch {
+        // The model put other fields after "days"; the final result will carry them
+      }
+    }
+
+    for (const [start, end] of this.dayRanges.slice(this.daysSent)) {
+      this.daysSent++;
+      try {
+        const parsed = daySchema.safeParse(JSON.parse(this.buffer.slice(start, end)));
+        if (parsed.success) result.days.push(parsed.data);
+      } catch {
+        // Skipped here; the complete reply is validated once the stream ends
+      }
+    }
+    return result;
+  }
+
+  get text() {
+    return this.buffer;
+  }
+
+  private scan() {
+    for (let i = this.scanned; i < this.buffer.length; i++) {
+      const ch = this.buffer[i];
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (ch === "\\") this.escaped = true;
+        else if (ch === '"') {
+          this.inString = false;
+          if (this.depth === 1) this.lastKey = this.buffer.slice(this.stringStart + 1, i);
+        }
+        continue;
+      }
+
+      if (ch === '"') {
+        this.inString = true;
+        this.stringStart = i;
+      } else if (ch === "{" || ch === "[") {
+        this.depth++;
+        if (ch === "[" && this.depth === 2 && this.lastKey === "days" && this.daysStart === -1) {
+          this.daysStart = i;
+          this.inDays = true;
+        }
+        if (ch === "{" && this.depth === 3 && this.inDays) this.objectStart = i;
+      } else if (ch === "}" || ch === "]") {
+        if (ch === "}" && this.depth === 3 && this.inDays) {
+          this.dayRanges.push([this.objectStart, i + 1]);
+        }
+        if (ch === "]" && this.depth === 2) this.inDays = false;
+        this.depth--;
+        if (this.depth === 1) this.lastKey = null;
+      }
+    }
+    this.scanned = this.buffer.length;
+  }
+}
@@ -0,0 +1,110 @@
+import { createHash } from "crypto";
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import type { PromptTemplateInfo } from "../src/lib/types";
+
+export type PromptName = "itinerary" | "day";
+
+const TRIP_VARIABLES = [
+  "destination", "duration", "budget", "type", "interests", "activities", "travellers", "currency", "budget_amount",
+  // Name of the language the itinerary is written in, in Italian like the prompts
+  "language",
+  // Empty for trips planned by length only
+  "start_date", "start_date_long", "end_date_long", "day_dates",
+  // multi_leg is set when the trip has more than one stop; legs lists them
+  "multi_leg", "legs",
+];
+
+// What each template may refer to; prompt.ts computes the values
+export const PROMPT_VARIABLES: Record<PromptName, string[]> = {
+  itinerary: TRIP_VARIABLES,
+  day: [...TRIP_VARIABLES, "day", "other_days", "instruction", "itinerary_currency"],
+};
+
+export type PromptValues = Record<string, string | number | boolean | null | undefined>;
+
+export interface PromptTemplate {
+  name: PromptName;
+  version: number;
+  text: string;
+  // Changes whenever the file does, even if the version number doesn't
+  hash: string;
+}
+
+// Files are named <name>.v<version>.txt
+const FILE_PATTERN = /^(itinerary|day)\.v(\d+)\.txt$/;
+const COMMENT = /\{\{![\s\S]*?\}\}/g;
+// Section and comment tags alone on a line take the line break with them
+const STANDALONE_TAG = /^[ \t]*(\{\{[#^/!][^}]*\}\})[ \t]*\r?\n/gm;
+const SECTION = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const TAG = /\{\{([#^/]?)([^}]*)\}\}/g;
+
+// Mustache-like: {{name}} inserts a value, {{#name}}…{{/name}} keeps its content when the
+// value is set, {{^name}}…{{/name}} when it isn't, {{! … }} is a comment. Values are
+// inserted as they are, so text typed by users can't add tags of its own.
+export function renderTemplate(text: string, values: PromptValues): string {
+  let body = text.replace(STANDALONE_TAG, "$1").replace(COMMENT, "");
+  for (let previous = ""; previous !== body;) {
+    previous = body;
+    body = body.replace(SECTION, (_, kind: string, name: string, content: string) => (kind === "#") === !!values[name] ? content : "");
+  }
+  return body.replace(/\{\{(\w+)\}\}/g, (_, name: string) => String(values[name] ?? "")).trim();
+}
+
+// Unknown variables and unclosed sections are caught when the server starts rather than mid-request
+function checkTemplate(name: PromptName, text: string, file: string) {
+  const allowed = new Set(PROMPT_VARIABLES[name]);
+  const open: string[] = [];
+  for (const [, kind, variable] of text.replace(COMMENT, "").matchAll(TAG)) {
+    if (!allowed.has(variable)) throw new Error(`${file}: unknown variable "${variable}"`);
+    if (kind === "#" || kind === "^") open.push(variable);
+    else if (kind === "/" && open.pop() !== variable) throw new Error(`${file}: unexpected {{/${variable}}}`);
+  }
+  if (open.length) throw new Error(`${file}: unclosed section "${open.at(-1)}"`);
+}
+
+// Every version of every template; the newest of each is used unless another is pinned
+export class PromptLibrary {
+  constructor(private templates: PromptTemplate[], private pinned: Record<string, number> = {}) {
+    for (const name of Object.keys(PROMPT_VARIABLES) as PromptName[]) {
+      if (!templates.some(template => template.name === name)) throw new Error(`No "${name}" prompt template`);
+    }
+    for (const [name, version] of Object.entries(pinned)) {
+      if (!this.find(name, version)) throw new Error(`Pinned prompt template ${name} v${version} does not exist`);
+    }
+  }
+
+  find(name: string, version: number): PromptTemplate | undefined {
+    return this.templates.find(template => template.name === name && template.version === version);
+  }
+
+  active(name: PromptName): PromptTemplate {
+    const pinned = this.pinned[name];
+    if (pinned) return this.find(name, pinned)!;
+    return this.templates.filter(template => template.name === name).reduce((a, b) => b.version > a.version ? b : a);
+  }
+
+  list(): PromptTemplateInfo[] {
+    return [...this.templates]
+      .sort((a, b) => a.name.localeCompare(b.name) || b.version - a.version)
+      .map(({ name, version, text }) => ({
+        name,
+        version,
+        active: this.active(name).version === version,
+        variables: PROMPT_VARIABLES[name],
+        text,
+      }));
+  }
+}
+
+export function loadPromptLibrary(dir: string, pinned: Record<string, number> = {}): PromptLibrary {
+  const templates = readdirSync(dir).flatMap(file => {
+    const match = FILE_PATTERN.exec(file);
+    if (!match) return [];
+    const name = match[1] as PromptName;
+    const text = readFileSync(path.join(dir, file), "utf8");
+    checkTemplate(name, text, file);
+    return [{ name, version: Number(match[2]), text, hash: createHash("sha256").update(text).digest("hex") }];
+  });
+  return new PromptLibrary(templates, pinned);
+}
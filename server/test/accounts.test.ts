@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import type { ApiErrorBody, ItineraryAccess, SavedTrip, User } from "../../src/lib/types";
+import { SESSION_COOKIE } from "../auth";
+import { saveTrip, startServer, TestClient, type TestServer } from "./helpers";
+
+describe("accounts", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(() => server.close());
+
+  it("sign in with the password they were registered with", async () => {
+    await TestClient.register(server, "Traveller@Example.com");
+    const client = new TestClient(server);
+
+    const wrong = await client.request("POST", "/auth/login", { email: "traveller@example.com", password: "wrong password" });
+    assert.equal(wrong.status, 401);
+    const right = await client.request<User>("POST", "/auth/login", { email: "traveller@example.com", password: "correct horse" });
+    assert.equal(right.status, 200);
+    assert.equal(right.body.email, "traveller@example.com");
+    assert.equal((await client.request("GET", "/itineraries")).status, 200);
+  });
+
+  it("can't be registered twice", async () => {
+    await TestClient.register(server, "twice@example.com");
+    assert.equal((await new TestClient(server).request("POST", "/auth/register", { email: "twice@example.com", password: "another one" })).status, 409);
+  });
+
+  it("need a real-looking email, a long enough password and nothing else", async () => {
+    const client = new TestClient(server);
+    for (const body of [
+      undefined,
+      { email: "not an email", password: "correct horse" },
+      { email: "short@example.com", password: "short" },
+      { email: ["list@example.com"], password: "correct horse" },
+      { email: "admin@example.com", password: "correct horse", role: "admin" },
+    ]) {
+      const res = await client.request<ApiErrorBody>("POST", "/auth/register", body);
+      assert.equal(res.status, 400, JSON.stringify(body));
+      assert.equal(res.body.code, "invalid_request");
+    }
+    assert.equal((await client.request("POST", "/auth/login", { email: "twice@example.com", password: 12345678 })).status, 400);
+  });
+
+  it("end with logging out", async () => {
+    const client = await TestClient.register(server, "leaving@example.com");
+    assert.equal((await client.request("POST", "/auth/logout")).status, 200);
+    assert.equal((await client.request("GET", "/itineraries")).status, 401);
+  });
+
+  it("treat a session cookie that doesn't decode as no session", async () => {
+    const client = TestClient.withCookie(server, `${SESSION_COOKIE}=%E0`);
+    assert.equal((await client.request("GET", "/itineraries")).status, 401);
+    assert.equal((await client.request("GET", "/itineraries/missing")).status, 404);
+  });
+});
+
+describe("trip ownership", () => {
+  let server: TestServer;
+  let owner: TestClient;
+  let stranger: TestClient;
+  let trip: SavedTrip;
+
+  before(async () => {
+    server = await startServer();
+    owner = await TestClient.register(server, "owner@example.com");
+    stranger = await TestClient.register(server, "stranger@example.com");
+    trip = await saveTrip(owner);
+  });
+
+  after(() => server.close());
+
+  it("lets the owner read, list and edit the trip", async () => {
+    assert.equal((await owner.request("GET", `/itineraries/${trip.id}`)).status, 200);
+    assert.equal((await owner.request("PATCH", `/itineraries/${trip.id}`, { title: "Mine" })).status, 200);
+    const list = await owner.request<{ items: SavedTrip[] }>("GET", "/itineraries");
+    assert.deepEqual(list.body.items.map(item => item.id), [trip.id]);
+  });
+
+  it("answers 404 to anyone else, signed in or not", async () => {
+    const anonymous = new TestClient(server);
+    for (const client of [stranger, anonymous]) {
+      assert.equal((await client.request("GET", `/itineraries/${trip.id}`)).status, 404);
+      assert.equal((await client.request("PATCH", `/itineraries/${trip.id}`, { title: "Theirs" })).status, 404);
+    }
+    assert.equal((await stranger.request("DELETE", `/itineraries/${trip.id}`)).status, 404);
+    assert.deepEqual((await stranger.request<{ items: SavedTrip[] }>("GET", "/itineraries")).body.items, []);
+  });
+
+  it("lets only the owner delete the trip", async () => {
+    const other = await saveTrip(owner);
+    assert.equal((await owner.request("DELETE", `/itineraries/${other.id}`)).status, 200);
+    assert.equal((await owner.request("GET", `/itineraries/${other.id}`)).status, 404);
+  });
+});
+
+describe("trips saved before accounts", () => {
+  let server: TestServer;
+  let tripId: string;
+
+  before(async () => {
+    server = await startServer();
+    const owner = await TestClient.register(server, "first@example.com");
+    tripId = (await saveTrip(owner)).id;
+    server.db.prepare("UPDATE itineraries SET owner_id = NULL WHERE id = ?").run(tripId);
+  });
+
+  after(() => server.close());
+
+  it("stay readable but not editable by their id", async () => {
+    const anonymous = new TestClient(server);
+    const shared = await anonymous.request<{ access: ItineraryAccess }>("GET", `/shared/${tripId}`);
+    assert.equal(shared.status, 200);
+    assert.equal(shared.body.access, "view");
+    assert.equal((await anonymous.request("PATCH", `/itineraries/${tripId}`, { title: "Taken" })).status, 404);
+  });
+
+  it("belong to whoever claims them first", async () => {
+    const first = await TestClient.register(server, "claimer@example.com");
+    const second = await TestClient.register(server, "late@example.com");
+
+    const claim = await first.request<{ access: ItineraryAccess }>("POST", `/itineraries/${tripId}/claim`);
+    assert.equal(claim.status, 200);
+    assert.equal(claim.body.access, "owner");
+    assert.equal((await second.request("POST", `/itineraries/${tripId}/claim`)).status, 404);
+
+    assert.equal((await first.request("PATCH", `/itineraries/${tripId}`, { title: "Claimed" })).status, 200);
+    assert.equal((await new TestClient(server).request("GET", `/shared/${tripId}`)).status, 404);
+  });
+});
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import type { Backup } from "../../src/lib/backup";
+import type { Folder, ImportReport, ItineraryRevisionSummary, SavedTrip, Tag } from "../../src/lib/types";
+import { saveTrip, startServer, TestClient, type TestServer } from "./helpers";
+
+describe("backups", () => {
+  let server: TestServer;
+  let owner: TestClient;
+  let trip: SavedTrip;
+  let backup: Backup;
+
+  before(async () => {
+    server = await startServer();
+    owner = await TestClient.register(server, "owner@example.com");
+    trip = await saveTrip(owner, { title: "Lisbon" });
+    await owner.request("PATCH", `/itineraries/${trip.id}`, { title: "Lisbon, revised" });
+
+    const folder = (await owner.request<Folder>("POST", "/folders", { name: "Summer" })).body;
+    const tag = (await owner.request<Tag>("POST", "/tags", { name: "Food" })).body;
+    await owner.request("PUT", `/itineraries/${trip.id}/folder`, { folder_id: folder.id });
+    await owner.request("PUT", `/itineraries/${trip.id}/tags`, { tag_ids: [tag.id] });
+    await owner.request("PUT", `/itineraries/${trip.id}/favourite`, { favourite: true });
+
+    const res = await owner.request<Backup>("GET", "/backup");
+    assert.equal(res.status, 200);
+    backup = res.body;
+  });
+
+  after(() => server.close());
+
+  const trips = async (client: TestClient) => (await client.request<{ items: SavedTrip[] }>("GET", "/itineraries")).body.items;
+  const restore = (client: TestClient, body: unknown, dryRun = false) =>
+    client.request<ImportReport>("POST", `/import${dryRun ? "?dryRun=true" : ""}`, body);
+
+  it("hold every trip with its history and organisation", () => {
+    assert.equal(backup.trips.length, 1);
+    const [saved] = backup.trips;
+    assert.equal(saved.title, "Lisbon, revised");
+    assert.equal(saved.version, 2);
+    assert.deepEqual(saved.revisions?.map(revision => revision.title), ["Lisbon"]);
+    assert.equal(saved.folder, "Summer");
+    assert.deepEqual(saved.tags, ["Food"]);
+    assert.equal(saved.favourite, true);
+  });
+
+  it("restore into another account under a new id, folders, tags and history included", async () => {
+    const other = await TestClient.register(server, "other@example.com");
+    const res = await restore(other, backup);
+    assert.equal(res.status, 200);
+    assert.equal(res.body.imported.length, 1);
+    const [{ id, revisions }] = res.body.imported;
+    assert.notEqual(id, trip.id);
+    assert.equal(revisions, 1);
+
+    const [restored] = await trips(other);
+    assert.equal(restored.id, id);
+    assert.equal(restored.title, "Lisbon, revised");
+    assert.equal(restored.favourite, true);
+    assert.deepEqual(restored.tags?.map(tag => tag.name), ["Food"]);
+    assert.deepEqual((await other.request<Folder[]>("GET", "/folders")).body.map(folder => [folder.name, folder.trip_count]), [["Summer", 1]]);
+    assert.deepEqual((await other.request<ItineraryRevisionSummary[]>("GET", `/itineraries/${id}/revisions`)).body.map(r => r.title), ["Lisbon"]);
+    // The original stays with its owner
+    assert.equal((await other.request("GET", `/itineraries/${trip.id}`)).status, 404);
+  });
+
+  it("skip trips the account already has, by id or by content", async () => {
+    assert.deepEqual((await restore(owner, backup)).body.duplicates, [
+      { id: trip.id, title: "Lisbon, revised", reason: "id", existing_id: trip.id },
+    ]);
+
+    const copy = { ...backup, trips: [{ ...backup.trips[0], id: "a-copy" }] };
+    assert.deepEqual((await restore(owner, copy)).body.duplicates, [
+      { id: "a-copy", title: "Lisbon, revised", reason: "content", existing_id: trip.id },
+    ]);
+    assert.equal((await trips(owner)).length, 1);
+  });
+
+  it("report trips they can't restore and restore the rest", async () => {
+    const other = await TestClient.register(server, "partial@example.com");
+    const mismatched = { ...backup.trips[0], id: "mismatched", title: "Mismatched", start_date: "2026-05-01", end_date: "2026-05-10" };
+    const res = await restore(other, { ...backup, trips: [{ title: "Broken", duration: -1 }, backup.trips[0], mismatched] });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.imported.length, 1);
+    assert.deepEqual(res.body.invalid.map(entry => [entry.index, entry.title]), [[0, "Broken"], [2, "Mismatched"]]);
+    assert.ok(res.body.invalid[0].issues.length > 0);
+  });
+
+  it("write nothing on a dry run", async () => {
+    const other = await TestClient.register(server, "careful@example.com");
+    const res = await restore(other, backup, true);
+    assert.equal(res.body.dryRun, true);
+    assert.equal(res.body.imported.length, 1);
+    assert.deepEqual(await trips(other), []);
+    assert.deepEqual((await other.request("GET", "/folders")).body, []);
+  });
+
+  it("turn away a file that isn't a backup this version understands", async () => {
+    assert.equal((await restore(owner, { ...backup, format: "something-else" })).status, 400);
+    assert.equal((await restore(owner, { ...backup, version: backup.version + 1 })).status, 400);
+    assert.equal((await new TestClient(server).request("POST", "/import", backup)).status, 401);
+  });
+
+  it("import Markdown files as trips without structure", async () => {
+    const other = await TestClient.register(server, "writer@example.com");
+    const markdown = "# Weekend in Porto\n\n## Day 1\nRiver walk.\n\n## Day 2\nPort cellars.\n";
+    const res = await other.request<ImportReport>("POST", "/import/markdown", { files: [{ name: "porto.md", content: markdown }], language: "en" });
+    assert.equal(res.status, 200);
+
+    const [imported] = await trips(other);
+    assert.equal(imported.id, res.body.imported[0].id);
+    assert.equal(imported.title, "Weekend in Porto");
+    assert.equal(imported.duration, 2);
+    assert.equal(imported.content, markdown);
+    assert.equal(imported.itinerary, null);
+  });
+});
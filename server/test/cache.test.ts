@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import type { TripDetails } from "../../src/lib/types";
+import type { GenerationRequest } from "../providers";
+import { GatedProvider, startServer, TestClient, tripDetails } from "./helpers";
+
+// Fails its first call, once let through
+class FailingOnceProvider extends GatedProvider {
+  async generate(request: GenerationRequest): Promise<string> {
+    const first = this.calls === 0;
+    const text = await super.generate(request);
+    if (first) throw new Error("Model unavailable");
+    return text;
+  }
+}
+
+const generate = async (client: TestClient, details: Partial<TripDetails> = {}, query = "") => {
+  const res = await client.request("POST", `/generate${query}`, { ...tripDetails, ...details });
+  return { status: res.status, cache: res.headers.get("X-Generation-Cache") };
+};
+
+// Waits for the provider to be asked, so the next request finds the generation running
+async function untilCalled(provider: GatedProvider, calls: number) {
+  while (provider.calls < calls) await sleep(5);
+}
+
+// Requests merged by mistake would wait on the gated provider forever, hence the timeout
+describe("generation cache", { timeout: 10_000 }, () => {
+  it("answers the same details again without calling the model", async (t) => {
+    const provider = new GatedProvider();
+    provider.release();
+    const server = await startServer({ provider });
+    t.after(() => server.close());
+    const client = new TestClient(server);
+
+    assert.deepEqual(await generate(client), { status: 200, cache: "miss" });
+    assert.deepEqual(await generate(client, { destination: "  LISBON ", interests: [...tripDetails.interests].reverse() }), { status: 200, cache: "hit" });
+    assert.deepEqual(await generate(client, { duration: 3 }), { status: 200, cache: "miss" });
+    assert.equal(provider.calls, 2);
+  });
+
+  it("asks for a new variant when told to, and keeps that one", async (t) => {
+    const server = await startServer();
+    t.after(() => server.close());
+    const client = new TestClient(server);
+
+    assert.equal((await generate(client)).cache, "miss");
+    assert.equal((await generate(client, {}, "?fresh=true")).cache, "miss");
+    assert.equal((await generate(client)).cache, "hit");
+  });
+
+  it("can be turned off", async (t) => {
+    const server = await startServer({ generationCacheTtlHours: 0 });
+    t.after(() => server.close());
+    const client = new TestClient(server);
+
+    assert.equal((await generate(client)).cache, "miss");
+    assert.equal((await generate(client)).cache, "miss");
+  });
+
+  it("lets identical requests wait for the generation already running", async (t) => {
+    const provider = new GatedProvider();
+    const server = await startServer({ provider });
+    // Lets the held requests finish, should the test fail before releasing them, so the server can close
+    t.after(() => provider.release());
+    t.after(() => server.close());
+    const client = new TestClient(server);
+
+    const first = generate(client);
+    await untilCalled(provider, 1);
+    const second = generate(client);
+    const other = generate(client, { destination: "Porto" });
+    await untilCalled(provider, 2);
+
+    provider.release();
+    assert.deepEqual(await Promise.all([first, second, other]), [
+      { status: 200, cache: "miss" },
+      { status: 200, cache: "hit" },
+      { status: 200, cache: "miss" },
+    ]);
+    assert.equal(provider.calls, 2);
+  });
+
+  it("makes its own call when the generation it waited for fails", async (t) => {
+    t.mock.method(console, "error", () => {});
+    const provider = new FailingOnceProvider();
+    const server = await startServer({ provider });
+    t.after(() => provider.release());
+    t.after(() => server.close());
+    const client = new TestClient(server);
+
+    const first = generate(client);
+    await untilCalled(provider, 1);
+    const second = generate(client);
+    // Gives the second request time to start waiting
+    await sleep(50);
+
+    provider.release();
+    assert.deepEqual(await first, { status: 502, cache: null });
+    assert.deepEqual(await second, { status: 200, cache: "miss" });
+    assert.equal(provider.calls, 2);
+  });
+});
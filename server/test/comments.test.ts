@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import type { ActivityVotes, SavedTrip, TripComment } from "../../src/lib/types";
+import { saveTrip, startServer, TestClient, type TestServer } from "./helpers";
+
+describe("comment and vote anchors", () => {
+  let server: TestServer;
+  let owner: TestClient;
+  let trip: SavedTrip;
+
+  before(async () => {
+    server = await startServer();
+    owner = await TestClient.register(server, "owner@example.com");
+    trip = await saveTrip(owner);
+  });
+
+  after(() => server.close());
+
+  const comments = async () => (await owner.request<TripComment[]>("GET", `/itineraries/${trip.id}/comments`)).body;
+  const votes = async () => (await owner.request<ActivityVotes[]>("GET", `/itineraries/${trip.id}/votes`)).body;
+
+  // Applies an edit to the plan as the editor would, against the latest version
+  const editPlan = async (change: (plan: NonNullable<SavedTrip["itinerary"]>) => void) => {
+    const current = (await owner.request<SavedTrip>("GET", `/itineraries/${trip.id}`)).body;
+    const plan = structuredClone(current.itinerary!);
+    change(plan);
+    const res = await owner.request("PATCH", `/itineraries/${trip.id}`, { itinerary: plan, version: current.version });
+    assert.equal(res.status, 200);
+  };
+
+  it("follow their activity when edits move it", async () => {
+    const anchor = { day: 1, slot: "morning", activity: 0 };
+    assert.equal((await owner.request("POST", `/itineraries/${trip.id}/comments`, { ...anchor, body: "Early start" })).status, 201);
+    assert.equal((await owner.request("PUT", `/itineraries/${trip.id}/votes`, { ...anchor, value: 1 })).status, 200);
+
+    await editPlan(plan => {
+      plan.days[0].morning.unshift({ ...plan.days[0].morning[0], title: "Breakfast" });
+    });
+
+    const [comment] = await comments();
+    assert.deepEqual([comment.day, comment.slot, comment.activity, comment.orphaned_activity], [1, "morning", 1, null]);
+    assert.deepEqual((await votes()).map(v => [v.day, v.slot, v.activity, v.up]), [[1, "morning", 1, 1]]);
+  });
+
+  it("move to their day once the activity is gone, and take its votes with it", async () => {
+    await editPlan(plan => {
+      plan.days[0].morning = plan.days[0].morning.slice(0, 1);
+    });
+
+    const [comment] = await comments();
+    assert.deepEqual([comment.day, comment.slot, comment.activity], [1, null, null]);
+    assert.equal(comment.orphaned_activity, trip.itinerary!.days[0].morning[0].title);
+    assert.deepEqual(await votes(), []);
+  });
+});
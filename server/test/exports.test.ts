@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import type { SavedTrip, ShareLink } from "../../src/lib/types";
+import { saveTrip, startServer, TestClient, type TestServer } from "./helpers";
+
+interface Feature {
+  geometry: { type: string; coordinates: number[] | number[][] };
+  properties: { name: string; day?: number | null; date?: string };
+}
+
+describe("trip exports", () => {
+  let server: TestServer;
+  let owner: TestClient;
+  let undated: SavedTrip;
+  let dated: SavedTrip;
+  let multiLeg: SavedTrip;
+
+  before(async () => {
+    server = await startServer();
+    owner = await TestClient.register(server, "owner@example.com");
+    undated = await saveTrip(owner, { title: "Lisbon, food & art" });
+    dated = await saveTrip(owner, { title: "Lisbon in May", start_date: "2026-05-01", end_date: "2026-05-02" });
+    multiLeg = await saveTrip(owner, {
+      title: "Portugal by train",
+      duration: 3,
+      legs: [{ destination: "Lisbon", nights: 1, transfer: null }, { destination: "Porto", nights: 1, transfer: "train" }],
+    });
+  });
+
+  after(() => server.close());
+
+  const download = (trip: SavedTrip, file: string, client = owner) => client.request<string>("GET", `/itineraries/${trip.id}/${file}`);
+
+  describe("calendar", () => {
+    it("has an event for each part of each day, from the trip's start date", async () => {
+      const res = await download(dated, "calendar.ics");
+      assert.equal(res.status, 200);
+      assert.match(res.headers.get("content-type")!, /^text\/calendar/);
+      assert.equal(res.headers.get("content-disposition"), 'attachment; filename="lisbon-in-may.ics"');
+
+      const starts = [...res.body.matchAll(/^DTSTART:(\d{8})T(\d{6})\r$/gm)].map(([, date, time]) => `${date} ${time}`);
+      assert.deepEqual(starts, ["20260501 090000", "20260501 140000", "20260501 193000", "20260502 090000", "20260502 140000", "20260502 193000"]);
+    });
+
+    it("keeps to the format's line length and escapes text", async () => {
+      const res = await download(undated, "calendar.ics?start=2026-06-01");
+      assert.equal(res.status, 200);
+      assert.ok(res.body.endsWith("END:VCALENDAR\r\n"));
+      assert.ok(res.body.split("\r\n").every(line => Buffer.byteLength(line) <= 75));
+      assert.match(res.body, /^X-WR-CALNAME:Lisbon\\, food & art\r$/m);
+      assert.match(res.body, /^DTSTART:20260601T090000\r$/m);
+    });
+
+    it("needs a start date from the trip or the request", async () => {
+      assert.equal((await download(undated, "calendar.ics")).status, 400);
+      assert.equal((await download(undated, "calendar.ics?start=June")).status, 400);
+    });
+  });
+
+  it("writes the places and each day's path to GPX", async () => {
+    const res = await download(undated, "places.gpx");
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get("content-type")!, /^application\/gpx\+xml/);
+    assert.match(res.body, /<metadata><name>Lisbon, food &amp; art<\/name>/);
+    assert.equal(res.body.match(/<wpt /g)?.length, 6);
+    assert.deepEqual([...res.body.matchAll(/<number>(\d+)<\/number>/g)].map(([, day]) => day), ["1", "2"]);
+  });
+
+  it("writes the places and each day's path to GeoJSON, longitude first", async () => {
+    const res = await download(dated, "places.geojson");
+    assert.equal(res.status, 200);
+    const { type, features } = JSON.parse(res.body) as { type: string; features: Feature[] };
+    assert.equal(type, "FeatureCollection");
+
+    const points = features.filter(feature => feature.geometry.type === "Point");
+    const firstPlace = dated.itinerary!.days[0].morning[0].place;
+    assert.equal(points.length, 6);
+    assert.deepEqual(points[0].geometry.coordinates, [firstPlace.lng, firstPlace.lat]);
+    assert.equal(points[0].properties.date, "2026-05-01");
+    assert.deepEqual(features.filter(feature => feature.geometry.type === "LineString").map(feature => feature.properties.day), [1, 2]);
+  });
+
+  it("adds the route through the stops of a multi-destination trip", async () => {
+    const { features } = JSON.parse((await download(multiLeg, "places.geojson")).body) as { features: Feature[] };
+    const route = features.find(feature => feature.geometry.type === "LineString" && feature.properties.day === null);
+    assert.equal(route?.geometry.coordinates.length, 2);
+    assert.equal((await download(multiLeg, "places.gpx")).body.match(/<rte>/g)?.length, 4);
+  });
+
+  it("gives the Markdown text as it is", async () => {
+    const res = await download(undated, "itinerary.md");
+    assert.equal(res.status, 200);
+    assert.match(res.headers.get("content-type")!, /^text\/markdown/);
+    assert.equal(res.body, undated.content);
+  });
+
+  it("builds a PDF", async () => {
+    const res = await download(dated, "itinerary.pdf");
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("content-type"), "application/pdf");
+    assert.ok(res.body.startsWith("%PDF-"));
+  });
+
+  it("are open to whoever can view the trip, and nobody else", async () => {
+    const token = (await owner.request<ShareLink>("POST", `/itineraries/${dated.id}/shares`, { access: "view" })).body.token;
+    const stranger = await TestClient.register(server, "stranger@example.com");
+    for (const file of ["calendar.ics", "itinerary.pdf", "itinerary.md", "places.gpx", "places.geojson"]) {
+      assert.equal((await download(dated, file, stranger.withShareToken(token))).status, 200, file);
+      assert.equal((await download(dated, file, stranger)).status, 404, file);
+    }
+  });
+});
@@ -0,0 +1,192 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it, type TestContext } from "node:test";
+import { renderItineraryMarkdown, SLOTS, type Itinerary, type ItineraryDay, type Place } from "../../src/lib/itinerary";
+import type { ApiErrorBody, GeneratedItinerary, ItineraryRevisionSummary, SavedTrip, ShareLink } from "../../src/lib/types";
+import { itineraryJsonSchema } from "../prompt";
+import { createProvider, type GenerationRequest } from "../providers";
+import { FakeProvider } from "../providers/fake";
+import { saveTrip, startServer, TestClient, tripDetails, type TestServer } from "./helpers";
+
+// Answers with whatever the test sets, recording what it was asked
+class ScriptedProvider extends FakeProvider {
+  requests: GenerationRequest[] = [];
+  answer: ((request: GenerationRequest) => Promise<string>) | null = null;
+
+  async generate(request: GenerationRequest): Promise<string> {
+    this.requests.push(request);
+    return this.answer ? this.answer(request) : super.generate(request);
+  }
+}
+
+describe("provider selection", () => {
+  it("falls back to the fake provider without a Gemini key", () => {
+    assert.equal(createProvider({}).name, "fake");
+    assert.equal(createProvider({ AI_PROVIDER: "fake", GEMINI_API_KEY: "key" }).name, "fake");
+  });
+
+  it("uses Gemini when there's a key, with the model asked for", () => {
+    const provider = createProvider({ GEMINI_API_KEY: "key", GEMINI_MODEL: "gemini-test" });
+    assert.equal(provider.name, "gemini");
+    assert.equal(provider.model, "gemini-test");
+  });
+
+  it("refuses a provider it can't set up", () => {
+    assert.throws(() => createProvider({ AI_PROVIDER: "gemini" }), /GEMINI_API_KEY is required/);
+    assert.throws(() => createProvider({ AI_PROVIDER: "other" }), /Unknown AI_PROVIDER "other"/);
+  });
+});
+
+describe("generation", () => {
+  let server: TestServer;
+  let provider: ScriptedProvider;
+  let client: TestClient;
+
+  before(async () => {
+    provider = new ScriptedProvider();
+    server = await startServer({ provider, generationCacheTtlHours: 0 });
+    client = new TestClient(server);
+  });
+
+  after(() => server.close());
+
+  it("builds the prompt on the server and answers with the itinerary", async () => {
+    const res = await client.request<GeneratedItinerary>("POST", "/generate", tripDetails);
+    assert.equal(res.status, 200);
+    assert.equal(res.body.itinerary.days.length, tripDetails.duration);
+    assert.equal(res.body.prompt.name, "itinerary");
+
+    const [request] = provider.requests.slice(-1);
+    assert.match(request.prompt, /destinazione: Lisbon\./);
+    assert.deepEqual(request.task, { kind: "itinerary" });
+  });
+
+  it("answers 400 to details it can't plan from, without calling the model", async () => {
+    const calls = provider.requests.length;
+    for (const details of [{}, { ...tripDetails, duration: 0 }, { ...tripDetails, start_date: "2026-05-01", end_date: "2026-05-10" }]) {
+      assert.equal((await client.request("POST", "/generate", details)).status, 400);
+    }
+    assert.equal(provider.requests.length, calls);
+  });
+
+  it("answers 502 when the model fails, without passing on what went wrong", async (t) => {
+    t.mock.method(console, "error", () => {});
+    provider.answer = () => Promise.reject(new Error("API key leaked in this message"));
+    t.after(() => { provider.answer = null; });
+
+    const res = await client.request<ApiErrorBody>("POST", "/generate", tripDetails);
+    assert.equal(res.status, 502);
+    assert.equal(res.body.error, "Generation failed");
+  });
+});
+
+describe("structured itineraries", () => {
+  let server: TestServer;
+  let provider: ScriptedProvider;
+  let client: TestClient;
+  let itinerary: Itinerary;
+
+  before(async () => {
+    provider = new ScriptedProvider();
+    server = await startServer({ provider, generationCacheTtlHours: 0 });
+    client = new TestClient(server);
+    itinerary = JSON.parse(await new FakeProvider().generate({ prompt: "", details: tripDetails, task: { kind: "itinerary" }, responseSchema: {} }));
+  });
+
+  after(() => server.close());
+
+  const generateWith = async (t: TestContext, reply: string) => {
+    provider.answer = async () => reply;
+    t.after(() => { provider.answer = null; });
+    return client.request<GeneratedItinerary & ApiErrorBody>("POST", "/generate", tripDetails);
+  };
+
+  it("asks the model for JSON in the itinerary's shape", async () => {
+    await client.request("POST", "/generate", tripDetails);
+    assert.deepEqual(provider.requests.at(-1)!.responseSchema, itineraryJsonSchema);
+  });
+
+  it("renders the text and the map from the structure", async (t) => {
+    const res = await generateWith(t, JSON.stringify(itinerary));
+    assert.deepEqual(res.body.itinerary, itinerary);
+    assert.equal(res.body.content, renderItineraryMarkdown(itinerary, "it"));
+    assert.deepEqual(res.body.locations.map(location => location.name), itinerary.days.flatMap(day => SLOTS.map(slot => day[slot][0].place.name)));
+  });
+
+  it("accepts a reply wrapped in a code fence", async (t) => {
+    const res = await generateWith(t, "```json\n" + JSON.stringify(itinerary) + "\n```");
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.itinerary, itinerary);
+  });
+
+  it("answers 502 to a reply that isn't an itinerary", async (t) => {
+    t.mock.method(console, "error", () => {});
+    const noCoordinates = structuredClone(itinerary);
+    delete (noCoordinates.days[0].morning[0].place as Partial<Place>).lat;
+
+    for (const reply of ["Here is your trip: Lisbon!", JSON.stringify(noCoordinates)]) {
+      const res = await generateWith(t, reply);
+      assert.equal(res.status, 502);
+      assert.equal(res.body.error, "The model returned an invalid itinerary");
+    }
+  });
+});
+
+describe("day regeneration", () => {
+  let server: TestServer;
+  let provider: ScriptedProvider;
+  let owner: TestClient;
+  let trip: SavedTrip;
+
+  before(async () => {
+    provider = new ScriptedProvider();
+    server = await startServer({ provider });
+    owner = await TestClient.register(server, "owner@example.com");
+    trip = await saveTrip(owner);
+  });
+
+  after(() => server.close());
+
+  it("asks for one day, with the rest of the trip and the instruction as context", async () => {
+    const res = await owner.request<ItineraryDay>("POST", "/generate/day", {
+      details: tripDetails, itinerary: trip.itinerary, day: 2, instruction: "More museums",
+    });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.day, 2);
+    assert.equal(res.body.title, "Lisbon: More museums");
+
+    const request = provider.requests.at(-1)!;
+    assert.deepEqual(request.task, { kind: "day", day: 2, instruction: "More museums" });
+    assert.ok(request.prompt.includes("More museums"));
+    assert.ok(request.prompt.includes(JSON.stringify(trip.itinerary!.days.filter(day => day.day !== 2))));
+  });
+
+  it("answers 400 to a day the itinerary doesn't have", async () => {
+    const res = await owner.request("POST", "/generate/day", { details: tripDetails, itinerary: trip.itinerary, day: 9 });
+    assert.equal(res.status, 400);
+    assert.equal((await owner.request("POST", `/itineraries/${trip.id}/days/9/regenerate`, {})).status, 400);
+  });
+
+  it("saves a regenerated day of a saved trip as a new revision, leaving the other days be", async () => {
+    const res = await owner.request<SavedTrip>("POST", `/itineraries/${trip.id}/days/1/regenerate`, { instruction: "Less walking", version: trip.version });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.version, trip.version + 1);
+    assert.equal(res.body.itinerary!.days[0].title, "Lisbon: Less walking");
+    assert.deepEqual(res.body.itinerary!.days[1], trip.itinerary!.days[1]);
+    assert.ok(res.body.content.includes("Lisbon: Less walking"));
+
+    const revisions = await owner.request<ItineraryRevisionSummary[]>("GET", `/itineraries/${trip.id}/revisions`);
+    assert.deepEqual(revisions.body.map(revision => revision.version), [trip.version]);
+  });
+
+  it("refuses to regenerate from an outdated version, or for someone who can't edit", async () => {
+    const stale = await owner.request<ApiErrorBody>("POST", `/itineraries/${trip.id}/days/1/regenerate`, { version: trip.version });
+    assert.equal(stale.status, 409);
+    assert.equal(stale.body.code, "version_conflict");
+
+    const token = (await owner.request<ShareLink>("POST", `/itineraries/${trip.id}/shares`, { access: "comment" })).body.token;
+    const calls = provider.requests.length;
+    assert.equal((await new TestClient(server, token).request("POST", `/itineraries/${trip.id}/days/1/regenerate`, {})).status, 404);
+    assert.equal(provider.requests.length, calls);
+  });
+});
+
@@ -0,0 +1,132 @@
+import { once } from "node:events";
+import type { AddressInfo } from "node:net";
+import { WebSocket } from "ws";
+import { SHARE_TOKEN_HEADER } from "../../src/lib/trip";
+import type { SavedTrip, TripDetails } from "../../src/lib/types";
+import { createApp, type AppDependencies } from "../app";
+import { openDatabase, type Database } from "../db";
+import { TripEvents } from "../events";
+import { attachLiveUpdates } from "../live";
+import type { GenerationRequest } from "../providers";
+import { FakeProvider } from "../providers/fake";
+
+export interface TestServer {
+  db: Database;
+  url: string;
+  // Same host and port as url, for WebSocket connections
+  liveUrl: string;
+  close(): Promise<void>;
+}
+
+// The whole API and its live channel on a random port, backed by the fake provider and its own database
+export async function startServer({
+  db = openDatabase(":memory:"),
+  provider = new FakeProvider(),
+  events = new TripEvents(),
+  ...dependencies
+}: Partial<AppDependencies> = {}): Promise<TestServer> {
+  const server = createApp({ db, provider, events, ...dependencies }).listen(0, "127.0.0.1");
+  attachLiveUpdates(server, db, events);
+  await once(server, "listening");
+  const { port } = server.address() as AddressInfo;
+  return {
+    db,
+    url: `http://127.0.0.1:${port}/api`,
+    liveUrl: `ws://127.0.0.1:${port}/api`,
+    close: () => new Promise((resolve, reject) => server.close(err => err ? reject(err) : resolve())),
+  };
+}
+
+// Calls the API as one visitor, keeping the session cookie between requests like a browser would
+export class TestClient {
+  private cookie: string | null = null;
+
+  constructor(private readonly server: TestServer, private readonly shareToken: string | null = null) {}
+
+  // T is what the test expects back; nothing checks it. Bodies other than JSON come back as text.
+  async request<T = unknown>(method: string, path: string, body?: unknown): Promise<{ status: number; headers: Headers; body: T }> {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+    if (this.cookie) headers.Cookie = this.cookie;
+    if (this.shareToken) headers[SHARE_TOKEN_HEADER] = this.shareToken;
+
+    const res = await fetch(`${this.server.url}${path}`, {
+      method,
+      headers,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const cookie = res.headers.get("set-cookie");
+    if (cookie) this.cookie = cookie.split(";")[0];
+    const json = res.headers.get("content-type")?.includes("application/json");
+    return { status: res.status, headers: res.headers, body: json ? await res.json() : await res.text() };
+  }
+
+  // Opens the trip's live channel as this visitor; browsers pass share tokens in the query string
+  live(itineraryId: string): WebSocket {
+    const query = this.shareToken ? `?share=${encodeURIComponent(this.shareToken)}` : "";
+    return new WebSocket(`${this.server.liveUrl}/itineraries/${itineraryId}/live${query}`, {
+      headers: this.cookie ? { Cookie: this.cookie } : {},
+    });
+  }
+
+  // A browser sending a cookie of its own making
+  static withCookie(server: TestServer, cookie: string): TestClient {
+    const client = new TestClient(server);
+    client.cookie = cookie;
+    return client;
+  }
+
+  // The same visitor opening a share link
+  withShareToken(token: string): TestClient {
+    const client = new TestClient(this.server, token);
+    client.cookie = this.cookie;
+    return client;
+  }
+
+  static async register(server: TestServer, email: string): Promise<TestClient> {
+    const client = new TestClient(server);
+    const res = await client.request("POST", "/auth/register", { email, password: "correct horse" });
+    if (res.status !== 201) throw new Error(`Registering ${email} failed with ${res.status}`);
+    return client;
+  }
+}
+
+// The fake provider, holding every reply back until release() is called
+export class GatedProvider extends FakeProvider {
+  calls = 0;
+  private open!: () => void;
+  private gate = new Promise<void>(resolve => { this.open = resolve; });
+
+  async generate(request: GenerationRequest): Promise<string> {
+    this.calls++;
+    await this.gate;
+    return super.generate(request);
+  }
+
+  release() {
+    this.open();
+  }
+}
+
+export const tripDetails: TripDetails = {
+  destination: "Lisbon",
+  duration: 2,
+  budget: "standard",
+  type: "cultural",
+  interests: ["food"],
+  activities: ["museums"],
+};
+
+// Saves a trip generated by the fake provider, as the client does after a generation
+export async function saveTrip(client: TestClient, changes: Partial<TripDetails> & { title?: string; content?: string } = {}): Promise<SavedTrip> {
+  const { title, content = "", ...details } = { ...tripDetails, ...changes };
+  const itinerary = JSON.parse(await new FakeProvider().generate({
+    prompt: "",
+    details,
+    task: { kind: "itinerary" },
+    responseSchema: {},
+  }));
+  const res = await client.request<SavedTrip>("POST", "/itineraries", { ...details, title, content, itinerary });
+  if (res.status !== 201) throw new Error(`Saving a trip failed with ${res.status}`);
+  return res.body;
+}
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { ApiErrorBody, GenerationStats } from "../../src/lib/types";
+import { GatedProvider, saveTrip, startServer, TestClient, tripDetails } from "./helpers";
+
+const generate = (client: TestClient, destination: string) =>
+  client.request<ApiErrorBody>("POST", "/generate", { ...tripDetails, destination });
+
+// Requests let through by mistake would wait on the gated provider forever, hence the timeout
+describe("generation limits", { timeout: 10_000 }, () => {
+  it("slow down an account that asks too often", async (t) => {
+    const server = await startServer({ generationLimits: { perUserPerMinute: 2, perIpPerMinute: 0, dailyQuota: 0 } });
+    t.after(() => server.close());
+    const client = await TestClient.register(server, "eager@example.com");
+
+    assert.equal((await generate(client, "Porto")).status, 200);
+    assert.equal((await generate(client, "Braga")).status, 200);
+    const res = await generate(client, "Faro");
+    assert.equal(res.status, 429);
+    assert.equal(res.body.code, "rate_limited");
+    assert.ok(Number(res.headers.get("Retry-After")) > 0);
+
+    // Someone else isn't held up by it
+    assert.equal((await generate(await TestClient.register(server, "calm@example.com"), "Faro")).status, 200);
+  });
+
+  it("stop an account at its daily quota, not counting cached answers", async (t) => {
+    const server = await startServer({ generationLimits: { perUserPerMinute: 0, perIpPerMinute: 0, dailyQuota: 2 } });
+    t.after(() => server.close());
+    const client = await TestClient.register(server, "daily@example.com");
+
+    assert.equal((await generate(client, "Porto")).status, 200);
+    const repeat = await generate(client, "Porto");
+    assert.equal(repeat.status, 200);
+    assert.equal(repeat.headers.get("X-Generation-Cache"), "hit");
+    assert.equal((await generate(client, "Braga")).status, 200);
+
+    const res = await generate(client, "Faro");
+    assert.equal(res.status, 429);
+    assert.equal(res.body.code, "quota_exceeded");
+  });
+
+  it("count generations still running towards the quota", async (t) => {
+    const provider = new GatedProvider();
+    const server = await startServer({ provider, generationLimits: { perUserPerMinute: 0, perIpPerMinute: 0, dailyQuota: 2 } });
+    // Lets the held requests finish, should the test fail before releasing them, so the server can close
+    t.after(() => provider.release());
+    t.after(() => server.close());
+    const client = await TestClient.register(server, "concurrent@example.com");
+
+    const running = [generate(client, "Porto"), generate(client, "Braga")];
+    const third = await generate(client, "Faro");
+    assert.equal(third.status, 429);
+    assert.equal(third.body.code, "quota_exceeded");
+
+    provider.release();
+    assert.deepEqual((await Promise.all(running)).map(res => res.status), [200, 200]);
+    assert.equal((await generate(client, "Faro")).status, 429);
+    assert.equal(provider.calls, 2);
+  });
+
+  it("don't spend the quota on day regenerations the caller isn't allowed", async (t) => {
+    const server = await startServer({ generationLimits: { perUserPerMinute: 0, perIpPerMinute: 0, dailyQuota: 1 } });
+    t.after(() => server.close());
+    const owner = await TestClient.register(server, "owner@example.com");
+    const stranger = await TestClient.register(server, "stranger@example.com");
+    const trip = await saveTrip(owner);
+
+    assert.equal((await stranger.request("POST", `/itineraries/${trip.id}/days/1/regenerate`, {})).status, 404);
+    assert.equal((await generate(stranger, "Porto")).status, 200);
+  });
+
+  it("log every call for the admin stats", async (t) => {
+    const server = await startServer({ adminEmails: ["admin@example.com"] });
+    t.after(() => server.close());
+    const admin = await TestClient.register(server, "admin@example.com");
+    await generate(admin, "Porto");
+    await generate(admin, "Porto");
+
+    const stats = await admin.request<GenerationStats>("GET", "/admin/stats?days=1");
+    assert.equal(stats.status, 200);
+    assert.equal(stats.body.totals.generations, 2);
+    assert.equal(stats.body.totals.succeeded, 1);
+    assert.equal(stats.body.totals.cached, 1);
+
+    assert.equal((await (await TestClient.register(server, "user@example.com")).request("GET", "/admin/stats")).status, 403);
+  });
+});
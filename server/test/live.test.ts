@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { once } from "node:events";
+import type { IncomingMessage } from "node:http";
+import { after, afterEach, before, describe, it } from "node:test";
+import type { WebSocket } from "ws";
+import { LIVE_CLOSE_FORBIDDEN } from "../../src/lib/trip";
+import type { LiveServerMessage, SavedTrip, ShareLink } from "../../src/lib/types";
+import { SESSION_COOKIE } from "../auth";
+import { saveTrip, startServer, TestClient, type TestServer } from "./helpers";
+
+// Resolves with the first message that matches; set it up before whatever sends the message
+function nextMessage(socket: WebSocket, matches: (message: LiveServerMessage) => boolean): Promise<LiveServerMessage> {
+  return new Promise(resolve => {
+    const listener = (data: Buffer) => {
+      const message = JSON.parse(data.toString()) as LiveServerMessage;
+      if (!matches(message)) return;
+      socket.off("message", listener);
+      resolve(message);
+    };
+    socket.on("message", listener);
+  });
+}
+
+async function rejectedWith(socket: WebSocket): Promise<number | undefined> {
+  const [, res] = await once(socket, "unexpected-response") as [unknown, IncomingMessage];
+  return res.statusCode;
+}
+
+// A server that crashed leaves sockets waiting forever, hence the timeout and terminating them after each test
+describe("live channel", { timeout: 10_000 }, () => {
+  let server: TestServer;
+  let owner: TestClient;
+  let trip: SavedTrip;
+
+  before(async () => {
+    server = await startServer();
+    owner = await TestClient.register(server, "owner@example.com");
+    trip = await saveTrip(owner);
+  });
+
+  after(() => server.close());
+
+  const sockets: WebSocket[] = [];
+  const live = (client: TestClient, itineraryId: string) => {
+    const socket = client.live(itineraryId);
+    sockets.push(socket);
+    return socket;
+  };
+  // Sockets still connecting complain about being cut off, which doesn't matter by then
+  afterEach(() => sockets.splice(0).forEach(socket => socket.on("error", () => {}).terminate()));
+
+  const stillRunning = async () => assert.equal((await new TestClient(server).request("GET", "/auth/me")).status, 401);
+
+  it("answers 400 to an id that doesn't decode, and keeps running", async () => {
+    assert.equal(await rejectedWith(live(new TestClient(server), "%E0")), 400);
+    await stillRunning();
+  });
+
+  it("ignores a session cookie that doesn't decode, and keeps running", async () => {
+    assert.equal(await rejectedWith(live(TestClient.withCookie(server, `${SESSION_COOKIE}=%E0`), trip.id)), 404);
+    await stillRunning();
+  });
+
+  it("turns away anyone who can't view the trip", async () => {
+    assert.equal(await rejectedWith(live(owner, "missing")), 404);
+    assert.equal(await rejectedWith(live(new TestClient(server), trip.id)), 404);
+  });
+
+  it("shows who else is there and relays changes to them", async () => {
+    const token = (await owner.request<ShareLink>("POST", `/itineraries/${trip.id}/shares`, { access: "edit" })).body.token;
+    const guest = new TestClient(server, token);
+
+    const ownerSocket = live(owner, trip.id);
+    await once(ownerSocket, "open");
+    const joined = nextMessage(ownerSocket, message => message.type === "presence" && message.viewers.length === 1);
+    const guestSocket = live(guest, trip.id);
+    await once(guestSocket, "open");
+    const presence = await joined;
+    assert.equal(presence.type === "presence" && presence.viewers[0].name, null);
+
+    const editing = nextMessage(ownerSocket, message => message.type === "presence" && message.viewers[0]?.editing);
+    guestSocket.send(JSON.stringify({ type: "editing", editing: true }));
+    await editing;
+
+    const updated = nextMessage(guestSocket, message => message.type === "trip.updated");
+    await owner.request("PATCH", `/itineraries/${trip.id}`, { title: "Changed live" });
+    const event = await updated;
+    assert.equal(event.type === "trip.updated" && event.trip.title, "Changed live");
+
+  });
+
+  it("closes the socket of a link revoked while it was open", async () => {
+    const token = (await owner.request<ShareLink>("POST", `/itineraries/${trip.id}/shares`, { access: "view" })).body.token;
+    const socket = live(new TestClient(server, token), trip.id);
+    await once(socket, "open");
+
+    const closed = once(socket, "close");
+    await owner.request("DELETE", `/itineraries/${trip.id}/shares/${token}`);
+    await owner.request("PATCH", `/itineraries/${trip.id}`, { title: "After revoking" });
+    const [code] = await closed;
+    assert.equal(code, LIVE_CLOSE_FORBIDDEN);
+  });
+});
@@ -0,0 +1,74 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import Database from "better-sqlite3";
+import { getSchemaVersion, runMigrations } from "../migrate";
+import { migrations } from "../migrations";
+
+const LATEST = migrations[migrations.length - 1].version;
+
+// The table as the app created it before migrations were versioned
+function legacyDatabase() {
+  const db = new Database(":memory:");
+  db.exec(`
+    CREATE TABLE itineraries (
+      id TEXT PRIMARY KEY,
+      title TEXT,
+      destination TEXT,
+      duration INTEGER,
+      budget TEXT,
+      type TEXT,
+      interests TEXT,
+      activities TEXT,
+      content TEXT,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  db.prepare(`
+    INSERT INTO itineraries (id, title, destination, duration, budget, type, interests, activities, content)
+    VALUES ('legacy', 'Viaggio a Roma', 'Roma', 3, 'medio', 'cultural', ?, ?, '# Roma')
+  `).run(JSON.stringify(["Arte", "Gastronomia"]), JSON.stringify(["Musei", "Visite Guidate"]));
+  return db;
+}
+
+describe("migrations", () => {
+  it("bring a database from before versioning up to date", () => {
+    const db = legacyDatabase();
+    assert.equal(runMigrations(db).length, migrations.length);
+    assert.equal(getSchemaVersion(db), LATEST);
+
+    const row = db.prepare("SELECT * FROM itineraries WHERE id = 'legacy'").get() as Record<string, unknown>;
+    assert.equal(row.owner_id, null);
+    assert.equal(row.language, "it");
+    assert.equal(row.content, "# Roma");
+    assert.equal(row.locations, "[]");
+  });
+
+  it("turn the Italian labels of old trips into option keys", () => {
+    const db = legacyDatabase();
+    runMigrations(db);
+
+    const row = db.prepare("SELECT budget, interests, activities FROM itineraries WHERE id = 'legacy'").get() as
+      { budget: string; interests: string; activities: string };
+    assert.equal(row.budget, "standard");
+    assert.deepEqual(JSON.parse(row.interests), ["art", "food"]);
+    assert.deepEqual(JSON.parse(row.activities), ["museums", "guided_tours"]);
+  });
+
+  it("skip the map points of an itinerary that isn't valid JSON", (t) => {
+    const db = legacyDatabase();
+    runMigrations(db, migrations.filter(m => m.version <= 2));
+    db.prepare("UPDATE itineraries SET itinerary = '{\"days\": [' WHERE id = 'legacy'").run();
+
+    const warn = t.mock.method(console, "warn", () => {});
+    runMigrations(db);
+    assert.equal(warn.mock.callCount(), 1);
+    assert.equal(getSchemaVersion(db), LATEST);
+    assert.equal((db.prepare("SELECT locations FROM itineraries WHERE id = 'legacy'").get() as { locations: string }).locations, "[]");
+  });
+
+  it("do nothing the second time", () => {
+    const db = legacyDatabase();
+    runMigrations(db);
+    assert.deepEqual(runMigrations(db), []);
+  });
+});
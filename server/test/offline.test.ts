@@ -0,0 +1,155 @@
+import assert from "node:assert/strict";
+import { after, afterEach, before, describe, it, mock } from "node:test";
+import {
+  getOfflineTrip,
+  listQueuedEdits,
+  putOfflineTrip,
+  queueEdit,
+  resolveConflict,
+  syncQueuedEdits,
+  type QueuedEdit,
+} from "../../src/lib/offline";
+import type { SavedTrip, ShareLink } from "../../src/lib/types";
+import { saveTrip, startServer, TestClient, type TestServer } from "./helpers";
+
+type StoredRecord = Record<string, unknown>;
+
+// Just enough of IndexedDB for src/lib/offline.ts: stores keyed by a path, and requests that always succeed
+function memoryIndexedDB() {
+  const stores = new Map<string, { keyPath: string; records: Map<unknown, StoredRecord> }>();
+  const request = <T>(run: () => T) => {
+    const req = { result: undefined as T, error: null, onsuccess: null as (() => void) | null, onerror: null };
+    queueMicrotask(() => {
+      req.result = structuredClone(run());
+      req.onsuccess?.();
+    });
+    return req;
+  };
+  const db = {
+    createObjectStore: (name: string, { keyPath }: { keyPath: string }) => stores.set(name, { keyPath, records: new Map() }),
+    transaction: (name: string) => ({
+      objectStore: () => {
+        const { keyPath, records } = stores.get(name)!;
+        return {
+          getAll: () => request(() => [...records.values()]),
+          get: (key: unknown) => request(() => records.get(key)),
+          put: (value: StoredRecord) => request(() => {
+            records.set(value[keyPath], structuredClone(value));
+            return value[keyPath];
+          }),
+          delete: (key: unknown) => request(() => void records.delete(key)),
+        };
+      },
+    }),
+  };
+  return {
+    open: () => {
+      const req = { result: db, onupgradeneeded: null as (() => void) | null, onsuccess: null as (() => void) | null, onerror: null };
+      queueMicrotask(() => {
+        if (stores.size === 0) req.onupgradeneeded?.();
+        req.onsuccess?.();
+      });
+      return req;
+    },
+  };
+}
+
+describe("offline edits", () => {
+  let server: TestServer;
+  let owner: TestClient;
+  let online = true;
+
+  before(async () => {
+    server = await startServer();
+    owner = await TestClient.register(server, "owner@example.com");
+    (globalThis as { indexedDB?: unknown }).indexedDB = memoryIndexedDB();
+    // The app calls the API by path, as the page it's served from would
+    const fetch = globalThis.fetch;
+    mock.method(globalThis, "fetch", (input: string, init?: RequestInit) => {
+      if (!input.startsWith("/api/")) return fetch(input, init);
+      if (!online) return Promise.reject(new TypeError("fetch failed"));
+      return fetch(server.url + input.slice(4), init);
+    });
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    delete (globalThis as { indexedDB?: unknown }).indexedDB;
+    await server.close();
+  });
+
+  afterEach(async () => {
+    online = true;
+    for (const edit of await listQueuedEdits()) await resolveConflict(edit, false);
+  });
+
+  // Edits made offline go through the share link the trip was opened with
+  const editableTrip = async () => {
+    const trip = await saveTrip(owner);
+    const token = (await owner.request<ShareLink>("POST", `/itineraries/${trip.id}/shares`, { access: "edit" })).body.token;
+    return { trip, token };
+  };
+
+  let clock = 0;
+  const edit = (trip: SavedTrip, shareToken: string, title: string, version = trip.version): QueuedEdit => ({
+    tripId: trip.id,
+    title: trip.title,
+    shareToken,
+    body: { title, version },
+    queued_at: new Date(Date.UTC(2026, 0, 1, 0, 0, clock++)).toISOString(),
+  });
+
+  it("are sent in the order they were made, and refresh the downloaded copy", async () => {
+    const first = await editableTrip();
+    const second = await editableTrip();
+    await putOfflineTrip({ id: first.trip.id, trip: first.trip, access: "edit", shareToken: first.token, tiles: 0, saved_at: "" });
+    await queueEdit(edit(first.trip, first.token, "First"));
+    // Queued later, but made earlier
+    await queueEdit({ ...edit(second.trip, second.token, "Second"), queued_at: "2025-12-31T00:00:00.000Z" });
+
+    const report = await syncQueuedEdits();
+    assert.deepEqual(report.synced.map(trip => trip.title), ["Second", "First"]);
+    assert.deepEqual(await listQueuedEdits(), []);
+    const downloaded = await getOfflineTrip(first.trip.id);
+    assert.equal(downloaded?.trip.title, "First");
+    assert.equal(downloaded?.trip.version, 2);
+  });
+
+  it("stay queued until the connection is back", async () => {
+    const { trip, token } = await editableTrip();
+    await queueEdit(edit(trip, token, "Offline"));
+
+    online = false;
+    assert.deepEqual(await syncQueuedEdits(), { synced: [], conflicts: [], failed: [] });
+    assert.equal((await listQueuedEdits()).length, 1);
+
+    online = true;
+    assert.deepEqual((await syncQueuedEdits()).synced.map(synced => synced.title), ["Offline"]);
+  });
+
+  it("wait for a decision when someone else changed the trip meanwhile", async () => {
+    const { trip, token } = await editableTrip();
+    await owner.request("PATCH", `/itineraries/${trip.id}`, { title: "Changed online", version: trip.version });
+    await queueEdit(edit(trip, token, "Changed offline"));
+
+    const [conflict] = (await syncQueuedEdits()).conflicts;
+    assert.equal(conflict.conflict?.title, "Changed online");
+    // Held back until someone decides
+    assert.deepEqual((await syncQueuedEdits()).synced, []);
+
+    await resolveConflict(conflict, true);
+    assert.deepEqual((await syncQueuedEdits()).synced.map(synced => synced.title), ["Changed offline"]);
+  });
+
+  it("are dropped when the trip is gone or the link no longer allows editing", async () => {
+    const deleted = await editableTrip();
+    const revoked = await editableTrip();
+    await owner.request("DELETE", `/itineraries/${deleted.trip.id}`);
+    await owner.request("DELETE", `/itineraries/${revoked.trip.id}/shares/${revoked.token}`);
+    await queueEdit(edit(deleted.trip, deleted.token, "Too late"));
+    await queueEdit(edit(revoked.trip, revoked.token, "Too late"));
+
+    assert.equal((await syncQueuedEdits()).failed.length, 2);
+    assert.deepEqual(await listQueuedEdits(), []);
+  });
+});
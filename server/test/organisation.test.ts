@@ -0,0 +1,96 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import type { Folder, SavedTrip, SavedTripPage, ShareLink, Tag } from "../../src/lib/types";
+import { saveTrip, startServer, TestClient, type TestServer } from "./helpers";
+
+describe("trip organisation", () => {
+  let server: TestServer;
+  let owner: TestClient;
+  let stranger: TestClient;
+  let trip: SavedTrip;
+  let other: SavedTrip;
+
+  before(async () => {
+    server = await startServer();
+    owner = await TestClient.register(server, "owner@example.com");
+    stranger = await TestClient.register(server, "stranger@example.com");
+    trip = await saveTrip(owner, { title: "Lisbon" });
+    other = await saveTrip(owner, { title: "Porto" });
+  });
+
+  after(() => server.close());
+
+  const list = async (query = "") => (await owner.request<SavedTripPage>("GET", `/itineraries${query}`)).body.items.map(item => item.title);
+
+  for (const path of ["folders", "tags"]) {
+    describe(path, () => {
+      it("are named uniquely per account, whatever the case", async () => {
+        const created = await owner.request<Folder>("POST", `/${path}`, { name: "  Summer " });
+        assert.equal(created.status, 201);
+        assert.deepEqual(created.body, { id: created.body.id, name: "Summer", trip_count: 0 });
+        assert.equal((await owner.request("POST", `/${path}`, { name: "summer" })).status, 409);
+        assert.equal((await owner.request("POST", `/${path}`, { name: "" })).status, 400);
+        // Someone else's list is their own
+        assert.equal((await stranger.request("POST", `/${path}`, { name: "Summer" })).status, 201);
+      });
+
+      it("are renamed and deleted by their owner only", async () => {
+        const { id } = (await owner.request<Folder>("POST", `/${path}`, { name: "Old name" })).body;
+        assert.equal((await stranger.request("PATCH", `/${path}/${id}`, { name: "Taken" })).status, 404);
+        assert.equal((await stranger.request("DELETE", `/${path}/${id}`)).status, 404);
+        assert.equal((await owner.request("PATCH", `/${path}/${id}`, { name: "Summer" })).status, 409);
+
+        const renamed = await owner.request<Folder>("PATCH", `/${path}/${id}`, { name: "New name" });
+        assert.equal(renamed.body.name, "New name");
+        assert.equal((await owner.request("DELETE", `/${path}/${id}`)).status, 200);
+        assert.ok(!(await owner.request<Folder[]>("GET", `/${path}`)).body.some(item => item.id === id));
+      });
+    });
+  }
+
+  it("files a trip in one folder at a time, and leaves it out when the folder goes", async () => {
+    const first = (await owner.request<Folder>("POST", "/folders", { name: "First" })).body;
+    const second = (await owner.request<Folder>("POST", "/folders", { name: "Second" })).body;
+
+    assert.equal((await owner.request("PUT", `/itineraries/${trip.id}/folder`, { folder_id: first.id })).status, 200);
+    assert.equal((await owner.request("PUT", `/itineraries/${trip.id}/folder`, { folder_id: second.id })).status, 200);
+    const folders = (await owner.request<Folder[]>("GET", "/folders")).body;
+    assert.deepEqual(folders.filter(folder => folder.name !== "Summer").map(folder => [folder.name, folder.trip_count]), [["First", 0], ["Second", 1]]);
+    assert.deepEqual(await list(`?folder=${second.id}`), ["Lisbon"]);
+
+    await owner.request("DELETE", `/folders/${second.id}`);
+    assert.equal((await owner.request<SavedTrip>("GET", `/itineraries/${trip.id}`)).body.folder_id, null);
+    assert.deepEqual(new Set(await list("?folder=none")), new Set(["Lisbon", "Porto"]));
+  });
+
+  it("tags a trip with any of the owner's tags", async () => {
+    const food = (await owner.request<Tag>("POST", "/tags", { name: "Food" })).body;
+    const art = (await owner.request<Tag>("POST", "/tags", { name: "Art" })).body;
+
+    const tagged = await owner.request<Tag[]>("PUT", `/itineraries/${trip.id}/tags`, { tag_ids: [food.id, art.id, food.id] });
+    assert.deepEqual(tagged.body.map(tag => tag.name).sort(), ["Art", "Food"]);
+    await owner.request("PUT", `/itineraries/${other.id}/tags`, { tag_ids: [food.id] });
+    assert.deepEqual(await list(`?tag=${art.id}`), ["Lisbon"]);
+    assert.deepEqual(new Set(await list(`?tag=${food.id}`)), new Set(["Lisbon", "Porto"]));
+
+    const strangersTag = (await stranger.request<Tag>("POST", "/tags", { name: "Theirs" })).body;
+    assert.equal((await owner.request("PUT", `/itineraries/${trip.id}/tags`, { tag_ids: [strangersTag.id] })).status, 400);
+    assert.equal((await owner.request("PUT", `/itineraries/${trip.id}/folder`, { folder_id: "missing" })).status, 400);
+  });
+
+  it("marks favourites", async () => {
+    assert.deepEqual((await owner.request("PUT", `/itineraries/${other.id}/favourite`, { favourite: true })).body, { favourite: true });
+    assert.deepEqual(await list("?favourite=true"), ["Porto"]);
+    await owner.request("PUT", `/itineraries/${other.id}/favourite`, { favourite: false });
+    assert.deepEqual(await list("?favourite=true"), []);
+  });
+
+  it("is for the owner alone, even with an edit link", async () => {
+    const token = (await owner.request<ShareLink>("POST", `/itineraries/${trip.id}/shares`, { access: "edit" })).body.token;
+    const editor = stranger.withShareToken(token);
+    assert.equal((await editor.request("PUT", `/itineraries/${trip.id}/favourite`, { favourite: true })).status, 404);
+    assert.equal((await editor.request("PUT", `/itineraries/${trip.id}/tags`, { tag_ids: [] })).status, 404);
+    assert.equal((await editor.request("PUT", `/itineraries/${trip.id}/folder`, { folder_id: null })).status, 404);
+    assert.equal((await new TestClient(server).request("GET", "/folders")).status, 401);
+  });
+});
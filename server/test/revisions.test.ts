@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import type { ApiErrorBody, ItineraryRevision, ItineraryRevisionSummary, SavedTrip } from "../../src/lib/types";
+import { saveTrip, startServer, TestClient, type TestServer } from "./helpers";
+
+describe("edits and revisions", () => {
+  let server: TestServer;
+  let owner: TestClient;
+  let trip: SavedTrip;
+
+  before(async () => {
+    server = await startServer();
+    owner = await TestClient.register(server, "owner@example.com");
+    trip = await saveTrip(owner);
+  });
+
+  after(() => server.close());
+
+  it("accepts an edit made against the current version and bumps it", async () => {
+    const res = await owner.request<SavedTrip>("PATCH", `/itineraries/${trip.id}`, { title: "First edit", version: trip.version });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.version, trip.version + 1);
+  });
+
+  it("rejects an edit made against a stale copy with the trip as it is now", async () => {
+    const res = await owner.request<ApiErrorBody>("PATCH", `/itineraries/${trip.id}`, { title: "Stale edit", version: trip.version });
+    assert.equal(res.status, 409);
+    assert.equal(res.body.code, "version_conflict");
+    assert.equal(res.body.current?.title, "First edit");
+    assert.equal(res.body.current?.version, trip.version + 1);
+
+    const stored = await owner.request<SavedTrip>("GET", `/itineraries/${trip.id}`);
+    assert.equal(stored.body.title, "First edit");
+  });
+
+  it("keeps the overwritten version in the history", async () => {
+    const res = await owner.request<ItineraryRevisionSummary[]>("GET", `/itineraries/${trip.id}/revisions`);
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.map(revision => revision.version), [trip.version]);
+  });
+
+  it("lets an edit without a version overwrite whatever is there", async () => {
+    const res = await owner.request<SavedTrip>("PATCH", `/itineraries/${trip.id}`, { title: "Forced" });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.version, trip.version + 2);
+  });
+
+  it("renders the content and map points again from an edited itinerary", async () => {
+    const current = (await owner.request<SavedTrip>("GET", `/itineraries/${trip.id}`)).body;
+    const plan = structuredClone(current.itinerary!);
+    plan.days[0].morning[0] = { ...plan.days[0].morning[0], title: "Sunrise at the castle", place: { name: "Castle", lat: 38.71, lng: -9.13 } };
+
+    const res = await owner.request<SavedTrip>("PATCH", `/itineraries/${trip.id}`, { itinerary: plan, version: current.version });
+    assert.equal(res.status, 200);
+    assert.match(res.body.content, /Sunrise at the castle/);
+    assert.ok(res.body.locations.some(location => location.name === "Castle"));
+  });
+
+  it("restores an earlier version as a new edit", async () => {
+    const history = (await owner.request<ItineraryRevisionSummary[]>("GET", `/itineraries/${trip.id}/revisions`)).body;
+    const first = history[history.length - 1];
+    const revision = await owner.request<ItineraryRevision>("GET", `/itineraries/${trip.id}/revisions/${first.id}`);
+    assert.equal(revision.body.title, trip.title);
+
+    const before = (await owner.request<SavedTrip>("GET", `/itineraries/${trip.id}`)).body;
+    const restored = await owner.request<SavedTrip>("POST", `/itineraries/${trip.id}/revisions/${first.id}/restore`);
+    assert.equal(restored.status, 200);
+    assert.equal(restored.body.title, trip.title);
+    assert.deepEqual(restored.body.itinerary, trip.itinerary);
+    assert.equal(restored.body.version, before.version + 1);
+    assert.equal((await owner.request<ItineraryRevisionSummary[]>("GET", `/itineraries/${trip.id}/revisions`)).body[0].version, before.version);
+  });
+
+  it("keeps the history from anyone who can't view the trip", async () => {
+    const stranger = await TestClient.register(server, "stranger@example.com");
+    assert.equal((await stranger.request("GET", `/itineraries/${trip.id}/revisions`)).status, 404);
+  });
+});
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import type { ApiErrorBody, SavedTrip, SavedTripPage } from "../../src/lib/types";
+import { saveTrip, startServer, TestClient, type TestServer } from "./helpers";
+
+const cursorOf = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+describe("trip search", () => {
+  let server: TestServer;
+  let owner: TestClient;
+  let trips: Record<string, SavedTrip>;
+
+  before(async () => {
+    server = await startServer();
+    owner = await TestClient.register(server, "owner@example.com");
+    trips = {
+      lisbon: await saveTrip(owner, { title: "Lisbon by tram", destination: "Lisbon", duration: 3, type: "cultural" }),
+      porto: await saveTrip(owner, { title: "Porto weekend", destination: "Porto", duration: 2, budget: "luxury", interests: ["food", "art"] }),
+      sevilla: await saveTrip(owner, { title: "Andalusia", destination: "Sevilla", duration: 7, type: "relax", content: "A day trip to Córdoba" }),
+      cordoba: await saveTrip(owner, { title: "Córdoba nights", destination: "Córdoba", duration: 4, type: "foodie" }),
+      faro: await saveTrip(owner, { title: "Faro beaches", destination: "Faro", duration: 5, type: "relax" }),
+    };
+    // Someone else's trip never shows up
+    await saveTrip(await TestClient.register(server, "other@example.com"), { title: "Lisbon again", destination: "Lisbon" });
+  });
+
+  after(() => server.close());
+
+  const search = (query: string) => owner.request<SavedTripPage>("GET", `/itineraries?${query}`);
+  const ids = (page: SavedTripPage) => page.items.map(item => item.id);
+
+  it("matches words by prefix, ignoring accents", async () => {
+    assert.deepEqual(ids((await search("q=lisb")).body), [trips.lisbon.id]);
+    assert.deepEqual(new Set(ids((await search("q=cordoba")).body)), new Set([trips.sevilla.id, trips.cordoba.id]));
+  });
+
+  it("ranks matches in the title above matches in the text", async () => {
+    assert.deepEqual(ids((await search("q=cordoba&sort=relevance")).body), [trips.cordoba.id, trips.sevilla.id]);
+  });
+
+  it("follows edits and deletions", async () => {
+    await owner.request("PATCH", `/itineraries/${trips.faro.id}`, { title: "Algarve coast" });
+    assert.deepEqual(ids((await search("q=algarve")).body), [trips.faro.id]);
+    assert.deepEqual(ids((await search("q=beaches")).body), []);
+
+    const gone = await saveTrip(owner, { title: "Short-lived", destination: "Nowhere" });
+    await owner.request("DELETE", `/itineraries/${gone.id}`);
+    assert.deepEqual(ids((await search("q=nowhere")).body), []);
+  });
+
+  it("filters by type, budget, interests and duration", async () => {
+    assert.deepEqual(new Set(ids((await search("type=relax")).body)), new Set([trips.sevilla.id, trips.faro.id]));
+    assert.deepEqual(ids((await search("budget=luxury")).body), [trips.porto.id]);
+    assert.deepEqual(ids((await search("interests=food,art")).body), [trips.porto.id]);
+    assert.deepEqual(new Set(ids((await search("minDuration=4&maxDuration=5")).body)), new Set([trips.cordoba.id, trips.faro.id]));
+  });
+
+  it("pages through every trip exactly once, in order", async () => {
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: SavedTripPage = (await search(`sort=duration&order=asc&limit=2${cursor ? `&cursor=${cursor}` : ""}`)).body;
+      assert.equal(page.total, 5);
+      seen.push(...ids(page));
+      cursor = page.nextCursor;
+    } while (cursor);
+    assert.deepEqual(seen, [trips.porto, trips.lisbon, trips.cordoba, trips.faro, trips.sevilla].map(trip => trip.id));
+  });
+
+  it("answers 400 to cursors it didn't hand out", async () => {
+    for (const cursor of ["not-a-cursor", cursorOf([{ a: 1 }, "id"]), cursorOf([true, "id"]), cursorOf([[1], "id"]), cursorOf(["key", 1])]) {
+      const res = await owner.request<ApiErrorBody>("GET", `/itineraries?cursor=${cursor}`);
+      assert.equal(res.status, 400, cursor);
+      assert.equal(res.body.code, "invalid_request");
+    }
+  });
+});
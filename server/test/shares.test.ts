@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import type { ApiErrorBody, SavedTrip, ShareLink } from "../../src/lib/types";
+import { saveTrip, startServer, TestClient, type TestServer } from "./helpers";
+
+describe("share links", () => {
+  let server: TestServer;
+  let owner: TestClient;
+  let stranger: TestClient;
+  let trip: SavedTrip;
+
+  before(async () => {
+    server = await startServer();
+    owner = await TestClient.register(server, "owner@example.com");
+    stranger = await TestClient.register(server, "stranger@example.com");
+    trip = await saveTrip(owner);
+  });
+
+  after(() => server.close());
+
+  const share = async (access: string) => {
+    const res = await owner.request<ShareLink>("POST", `/itineraries/${trip.id}/shares`, { access });
+    assert.equal(res.status, 201);
+    return res.body.token;
+  };
+
+  it("grants what a share link allows and nothing more", async () => {
+    const viewer = stranger.withShareToken(await share("view"));
+    assert.equal((await viewer.request("GET", `/itineraries/${trip.id}`)).status, 200);
+    assert.equal((await viewer.request("POST", `/itineraries/${trip.id}/comments`, { body: "Nice" })).status, 403);
+    assert.equal((await viewer.request("PATCH", `/itineraries/${trip.id}`, { title: "Theirs" })).status, 404);
+
+    const commenter = stranger.withShareToken(await share("comment"));
+    assert.equal((await commenter.request("POST", `/itineraries/${trip.id}/comments`, { body: "Nice" })).status, 201);
+    assert.equal((await commenter.request("PATCH", `/itineraries/${trip.id}`, { title: "Theirs" })).status, 404);
+
+    const editor = stranger.withShareToken(await share("edit"));
+    assert.equal((await editor.request("PATCH", `/itineraries/${trip.id}`, { title: "Shared" })).status, 200);
+    assert.equal((await editor.request("GET", `/itineraries/${trip.id}/shares`)).status, 404);
+  });
+
+  it("stops honouring a revoked link", async () => {
+    const token = await share("view");
+    assert.equal((await owner.request("DELETE", `/itineraries/${trip.id}/shares/${token}`)).status, 200);
+    assert.equal((await stranger.withShareToken(token).request("GET", `/itineraries/${trip.id}`)).status, 404);
+    assert.equal((await stranger.request("GET", `/shared/${token}`)).status, 404);
+  });
+
+  it("keeps a link to another trip from opening this one", async () => {
+    const other = await saveTrip(stranger);
+    const token = (await stranger.request<ShareLink>("POST", `/itineraries/${other.id}/shares`, { access: "edit" })).body.token;
+    assert.equal((await new TestClient(server, token).request("GET", `/itineraries/${trip.id}`)).status, 404);
+  });
+
+  it("are listed for the owner until revoked, newest first", async () => {
+    const older = await share("view");
+    const newer = await share("comment");
+    const list = (await owner.request<ShareLink[]>("GET", `/itineraries/${trip.id}/shares`)).body.map(link => link.token);
+    assert.ok(list.indexOf(newer) < list.indexOf(older));
+
+    await owner.request("DELETE", `/itineraries/${trip.id}/shares/${newer}`);
+    assert.ok(!(await owner.request<ShareLink[]>("GET", `/itineraries/${trip.id}/shares`)).body.some(link => link.token === newer));
+  });
+
+  it("only expire in the future", async () => {
+    const past = await owner.request("POST", `/itineraries/${trip.id}/shares`, { access: "view", expiresAt: "2000-01-01T00:00:00Z" });
+    assert.equal(past.status, 400);
+
+    const res = await owner.request<ShareLink>("POST", `/itineraries/${trip.id}/shares`, { access: "view", expiresAt: "2999-01-01T00:00:00Z" });
+    assert.equal(res.status, 201);
+    server.db.prepare("UPDATE share_links SET expires_at = ? WHERE token = ?").run("2000-01-01T00:00:00.000Z", res.body.token);
+    assert.equal((await stranger.withShareToken(res.body.token).request("GET", `/itineraries/${trip.id}`)).status, 404);
+  });
+
+  it("answer 400 to a request they can't be made from", async () => {
+    for (const body of [undefined, { access: "owner" }, { access: "view", expiresAt: "soon" }, { access: "view", expiresAt: 4102444800000 }]) {
+      const res = await owner.request<ApiErrorBody>("POST", `/itineraries/${trip.id}/shares`, body);
+      assert.equal(res.status, 400, JSON.stringify(body));
+      assert.equal(res.body.code, "invalid_request");
+    }
+  });
+});
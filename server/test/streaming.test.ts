@@ -0,0 +1,140 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import type { Itinerary } from "../../src/lib/itinerary";
+import { readEventStream, type StreamEvent } from "../../src/lib/sse";
+import type { GenerationStreamEvent } from "../../src/lib/types";
+import { FakeProvider } from "../providers/fake";
+import { ItineraryStreamParser } from "../streaming";
+import { startServer, TestClient, tripDetails, type TestServer } from "./helpers";
+
+const itinerary: Itinerary = JSON.parse(await new FakeProvider().generate({
+  prompt: "",
+  details: { ...tripDetails, duration: 3 },
+  task: { kind: "itinerary" },
+  responseSchema: {},
+}));
+
+// Feeds text to the parser in pieces of the given size, collecting what it reports
+function parseInChunks(text: string, size: number) {
+  const parser = new ItineraryStreamParser();
+  const overviews = [];
+  const days = [];
+  for (let i = 0; i < text.length; i += size) {
+    const { overview, days: finished } = parser.push(text.slice(i, i + size));
+    if (overview) overviews.push(overview);
+    days.push(...finished);
+  }
+  return { overviews, days, text: parser.text };
+}
+
+// A response whose body arrives in the given pieces
+function streamed(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  }));
+}
+
+describe("ItineraryStreamParser", () => {
+  it("reports the overview once and every day as it completes, however the text is split", () => {
+    const { days, ...overview } = itinerary;
+    for (const size of [1, 7, 64, Infinity]) {
+      const parsed = parseInChunks(JSON.stringify(itinerary), size);
+      assert.deepEqual(parsed.overviews, [overview], `chunks of ${size}`);
+      assert.deepEqual(parsed.days, days, `chunks of ${size}`);
+      assert.equal(parsed.text, JSON.stringify(itinerary));
+    }
+  });
+
+  it("isn't thrown by brackets, quotes and keys inside strings", () => {
+    const tricky = structuredClone(itinerary);
+    tricky.summary = 'A "days": [ { trip } ] \\ to remember';
+    tricky.days[0].morning[0].title = '} ] "days" {';
+    const parsed = parseInChunks(JSON.stringify(tricky, null, 2), 5);
+    assert.equal(parsed.overviews[0].summary, tricky.summary);
+    assert.deepEqual(parsed.days, tricky.days);
+  });
+
+  it("skips a day that doesn't match the schema and carries on", () => {
+    const broken = { ...itinerary, days: [{ day: "one" }, ...itinerary.days.slice(1)] };
+    assert.deepEqual(parseInChunks(JSON.stringify(broken), 16).days, itinerary.days.slice(1));
+  });
+
+  it("sends no overview when other fields follow the days", () => {
+    const { days, ...overview } = itinerary;
+    const parsed = parseInChunks(JSON.stringify({ days, ...overview }).replace(/}$/, ', "notes": {"open": true}}'), 32);
+    assert.deepEqual(parsed.overviews, []);
+    assert.deepEqual(parsed.days, days);
+  });
+});
+
+describe("readEventStream", () => {
+  it("reads events split across chunks, in order", async () => {
+    const events: StreamEvent[] = [];
+    await readEventStream(streamed([
+      "event: overview\ndata: {\"title\":",
+      "\"Lisbon\"}\n\nevent: day\nda",
+      "ta: {\"day\": 1}\n\n: a comment\n\ndata: [1,\ndata: 2]\n\n",
+    ]), event => events.push(event));
+    assert.deepEqual(events, [
+      { event: "overview", data: { title: "Lisbon" } },
+      { event: "day", data: { day: 1 } },
+      { event: "message", data: [1, 2] },
+    ]);
+  });
+
+  it("keeps multi-byte characters split between chunks intact", async () => {
+    const bytes = new TextEncoder().encode('data: "Córdoba"\n\n');
+    const split = bytes.indexOf(0xc3) + 1;
+    const events: StreamEvent[] = [];
+    await readEventStream(new Response(new ReadableStream({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, split));
+        controller.enqueue(bytes.slice(split));
+        controller.close();
+      },
+    })), event => events.push(event));
+    assert.deepEqual(events, [{ event: "message", data: "Córdoba" }]);
+  });
+});
+
+describe("streamed generation", () => {
+  let server: TestServer;
+  let client: TestClient;
+
+  before(async () => {
+    server = await startServer();
+    client = new TestClient(server);
+  });
+
+  after(() => server.close());
+
+  const generateStream = async () => {
+    const res = await client.request<string>("POST", "/generate/stream", tripDetails);
+    const events: GenerationStreamEvent[] = [];
+    await readEventStream<GenerationStreamEvent>(new Response(res.body), event => events.push(event));
+    return { res, events };
+  };
+
+  it("sends the overview, each day and then the whole itinerary", async () => {
+    const { res, events } = await generateStream();
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("content-type"), "text/event-stream");
+    assert.equal(res.headers.get("X-Generation-Cache"), "miss");
+    assert.deepEqual(events.map(e => e.event), ["overview", ...Array(tripDetails.duration).fill("day"), "done"]);
+
+    const done = events.at(-1)!;
+    assert.ok(done.event === "done");
+    assert.deepEqual(events.flatMap(e => e.event === "day" ? [e.data] : []), done.data.itinerary.days);
+  });
+
+  it("replays a cached itinerary the same way", async () => {
+    const first = (await generateStream()).events;
+    const { res, events } = await generateStream();
+    assert.equal(res.headers.get("X-Generation-Cache"), "hit");
+    assert.deepEqual(events, first);
+  });
+});
@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import type { ApiErrorBody, PromptPreview, PromptTemplateInfo, SavedTrip } from "../../src/lib/types";
+import { buildItineraryPrompt } from "../prompt";
+import { loadPromptLibrary, renderTemplate } from "../templates";
+import { saveTrip, startServer, TestClient, tripDetails, type TestServer } from "./helpers";
+
+describe("renderTemplate", () => {
+  it("fills in values and keeps sections by whether theirs is set", () => {
+    const text = "{{! left out }}To {{destination}}{{#multi_leg}} via {{legs}}{{/multi_leg}}{{^multi_leg}} direct{{/multi_leg}}.";
+    assert.equal(renderTemplate(text, { destination: "Lisbon", multi_leg: true, legs: "Porto" }), "To Lisbon via Porto.");
+    assert.equal(renderTemplate(text, { destination: "Lisbon", multi_leg: false }), "To Lisbon direct.");
+  });
+
+  it("drops the line break after a section tag on a line of its own", () => {
+    const text = "One\n{{#start_date}}\nFrom {{start_date}}\n{{/start_date}}\nTwo";
+    assert.equal(renderTemplate(text, { start_date: "2026-05-01" }), "One\nFrom 2026-05-01\nTwo");
+    assert.equal(renderTemplate(text, {}), "One\nTwo");
+  });
+
+  it("handles sections inside sections", () => {
+    const text = "{{#start_date}}A{{#budget_amount}}B{{/budget_amount}}{{/start_date}}";
+    assert.equal(renderTemplate(text, { start_date: "x", budget_amount: 100 }), "AB");
+    assert.equal(renderTemplate(text, { start_date: "x" }), "A");
+    assert.equal(renderTemplate(text, { budget_amount: 100 }), "");
+  });
+
+  it("inserts values as they are, tags and all", () => {
+    assert.equal(renderTemplate("Do: {{instruction}}", { instruction: "{{destination}} {{#day}}x{{/day}}", destination: "Lisbon", day: 1 }),
+      "Do: {{destination}} {{#day}}x{{/day}}");
+  });
+});
+
+describe("prompt templates", () => {
+  let dir: string;
+
+  before(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "prompts-"));
+  });
+
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  const write = (files: Record<string, string>) => {
+    rmSync(dir, { recursive: true, force: true });
+    dir = mkdtempSync(path.join(tmpdir(), "prompts-"));
+    for (const [file, text] of Object.entries(files)) writeFileSync(path.join(dir, file), text);
+    return dir;
+  };
+
+  it("are checked when loaded", () => {
+    const day = { "day.v1.txt": "Day {{day}}" };
+    assert.throws(() => loadPromptLibrary(write({ ...day, "itinerary.v1.txt": "To {{somewhere}}" })), /unknown variable "somewhere"/);
+    assert.throws(() => loadPromptLibrary(write({ ...day, "itinerary.v1.txt": "{{#start_date}}open" })), /unclosed section "start_date"/);
+    assert.throws(() => loadPromptLibrary(write({ ...day, "itinerary.v1.txt": "{{#start_date}}{{/legs}}" })), /unexpected \{\{\/legs\}\}/);
+    // Day templates may use more than itinerary ones
+    assert.throws(() => loadPromptLibrary(write({ ...day, "itinerary.v1.txt": "Day {{day}}" })), /unknown variable "day"/);
+    assert.throws(() => loadPromptLibrary(write(day)), /No "itinerary" prompt template/);
+  });
+
+  it("use the newest version unless another is pinned", () => {
+    write({ "day.v1.txt": "Day {{day}}", "itinerary.v1.txt": "Old", "itinerary.v2.txt": "New", "notes.txt": "{{ignored}}" });
+    assert.equal(loadPromptLibrary(dir).active("itinerary").text, "New");
+    assert.equal(loadPromptLibrary(dir, { itinerary: 1 }).active("itinerary").text, "Old");
+    assert.throws(() => loadPromptLibrary(dir, { itinerary: 3 }), /itinerary v3 does not exist/);
+  });
+
+  it("spell out the trip in Italian, whatever the trip's language", () => {
+    const template = loadPromptLibrary("server/prompts").active("itinerary");
+    const prompt = buildItineraryPrompt(template, { ...tripDetails, language: "en" });
+    assert.match(prompt, /Tipologia di viaggio: culturale\./);
+    assert.match(prompt, /Budget: fascia medio\./);
+    assert.match(prompt, /Interessi: gastronomia\b/i);
+    assert.match(prompt, /in inglese/);
+  });
+});
+
+describe("prompt admin", () => {
+  let server: TestServer;
+  let admin: TestClient;
+  let trip: SavedTrip;
+
+  before(async () => {
+    server = await startServer({ adminEmails: ["admin@example.com"] });
+    admin = await TestClient.register(server, "admin@example.com");
+    trip = await saveTrip(admin);
+  });
+
+  after(() => server.close());
+
+  it("lists every template for admins only", async () => {
+    const res = await admin.request<PromptTemplateInfo[]>("GET", "/admin/prompts");
+    assert.equal(res.status, 200);
+    assert.deepEqual(res.body.filter(info => info.active).map(info => info.name).sort(), ["day", "itinerary"]);
+    assert.equal((await (await TestClient.register(server, "user@example.com")).request("GET", "/admin/prompts")).status, 403);
+  });
+
+  it("previews a template without calling the model", async () => {
+    const res = await admin.request<PromptPreview>("POST", "/admin/prompts/itinerary/preview", { version: 1, details: tripDetails });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.version, 1);
+    assert.match(res.body.prompt, /Lisbon/);
+
+    const day = await admin.request<PromptPreview>("POST", "/admin/prompts/day/preview", {
+      details: tripDetails, itinerary: trip.itinerary, day: 2, instruction: "Less walking",
+    });
+    assert.equal(day.status, 200);
+    assert.match(day.body.prompt, /Less walking/);
+  });
+
+  it("answers 400 or 404 to a preview it can't render", async () => {
+    const noDay = await admin.request<ApiErrorBody>("POST", "/admin/prompts/day/preview", { details: tripDetails });
+    assert.equal(noDay.status, 400);
+    assert.equal((await admin.request("POST", "/admin/prompts/itinerary/preview", { version: 99, details: tripDetails })).status, 404);
+    assert.equal((await admin.request("POST", "/admin/prompts/other/preview", { details: tripDetails })).status, 404);
+  });
+});
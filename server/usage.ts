@@ -0,0 +1,107 @@
+import type { GenerationStats, GenerationUsage, TripDetails } from "../src/lib/types";
+import type { Database } from "./db";
+import { InvalidItineraryError } from "./prompt";
+import type { ItineraryProvider, TokenUsage } from "./providers";
+import type { PromptTemplate } from "./templates";
+
+export type GenerationKind = "itinerary" | "stream" | "day";
+// "cached" answers came from the generation cache, without calling the model
+export type GenerationOutcome = "success" | "cached" | "invalid" | "error" | "cancelled";
+
+export interface GenerationContext {
+  kind: GenerationKind;
+  userId: string | null;
+  ip: string | null;
+  // Set when a saved trip is being regenerated
+  itineraryId?: string;
+  template: PromptTemplate;
+  details: TripDetails;
+  // Options beyond the trip: a fresh variant, or the day and instruction of a day regeneration
+  extra?: Record<string, unknown>;
+}
+
+// What the prompt was built from, without the rest of a saved trip
+function promptParams({ details, extra }: GenerationContext) {
+  const { destination, duration, budget, type, interests, activities, start_date, end_date, legs, budget_amount, budget_currency, travellers, language } = details;
+  return { destination, duration, budget, type, interests, activities, start_date, end_date, legs, budget_amount, budget_currency, travellers, language, ...extra };
+}
+
+// Times one model call and logs it once it's over, with whatever usage the provider reported.
+// Only the first outcome counts, so a late abort can't log the call twice.
+export function startGeneration(db: Database, provider: ItineraryProvider, context: GenerationContext) {
+  const started = Date.now();
+  let usage: TokenUsage | null = null;
+  let finished = false;
+
+  const finish = (outcome: GenerationOutcome, error?: unknown) => {
+    if (finished) return;
+    finished = true;
+    db.prepare(`
+      INSERT INTO generations (
+        user_id, ip, kind, itinerary_id, params, prompt_template, prompt_version, provider, model,
+        prompt_tokens, output_tokens, latency_ms, outcome, error
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      context.userId,
+      context.ip,
+      context.kind,
+      context.itineraryId ?? null,
+      JSON.stringify(promptParams(context)),
+      context.template.name,
+      context.template.version,
+      provider.name,
+      provider.model,
+      usage?.promptTokens ?? null,
+      usage?.outputTokens ?? null,
+      Date.now() - started,
+      outcome,
+      error === undefined ? null : error instanceof Error ? error.message : String(error)
+    );
+  };
+
+  return {
+    onUsage: (reported: TokenUsage) => { usage = reported; },
+    succeed: () => finish("success"),
+    cached: () => finish("cached"),
+    cancel: () => finish("cancelled"),
+    fail: (err: unknown) => finish(err instanceof InvalidItineraryError ? "invalid" : "error", err),
+  };
+}
+
+// Model calls made since UTC midnight by an account, or by a guest IP; cache hits are free
+export function generationsToday(db: Database, userId: string | null, ip: string | null): number {
+  const row = userId
+    ? db.prepare("SELECT COUNT(*) AS n FROM generations WHERE user_id = ? AND outcome != 'cached' AND created_at >= date('now')").get(userId)
+    : db.prepare("SELECT COUNT(*) AS n FROM generations WHERE user_id IS NULL AND ip IS ? AND outcome != 'cached' AND created_at >= date('now')").get(ip);
+  return (row as { n: number }).n;
+}
+
+const USAGE_COLUMNS = `
+  COUNT(*) AS generations,
+  COUNT(*) FILTER (WHERE outcome = 'success') AS succeeded,
+  COUNT(*) FILTER (WHERE outcome = 'cached') AS cached,
+  COUNT(*) FILTER (WHERE outcome = 'invalid') AS invalid,
+  COUNT(*) FILTER (WHERE outcome = 'error') AS failed,
+  COUNT(*) FILTER (WHERE outcome = 'cancelled') AS cancelled,
+  COUNT(DISTINCT user_id) AS users,
+  COUNT(DISTINCT CASE WHEN user_id IS NULL THEN ip END) AS guest_ips,
+  COALESCE(SUM(prompt_tokens), 0) AS prompt_tokens,
+  COALESCE(SUM(output_tokens), 0) AS output_tokens,
+  CAST(ROUND(AVG(latency_ms) FILTER (WHERE outcome != 'cached')) AS INTEGER) AS avg_latency_ms
+`;
+
+// Usage per UTC day over the last `days` days, today included; days without calls are left out
+export function generationStats(db: Database, days: number): GenerationStats {
+  const since = `-${days - 1} days`;
+  const perDay = db.prepare(`
+    SELECT date(created_at) AS date, ${USAGE_COLUMNS}
+    FROM generations
+    WHERE created_at >= date('now', ?)
+    GROUP BY date(created_at)
+    ORDER BY date DESC
+  `).all(since) as (GenerationUsage & { date: string })[];
+  const totals = db.prepare(`SELECT ${USAGE_COLUMNS} FROM generations WHERE created_at >= date('now', ?)`).get(since) as GenerationUsage;
+
+  return { since: (db.prepare("SELECT date('now', ?) AS d").get(since) as { d: string }).d, days: perDay, totals };
+}
@@ -3,8 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { GoogleGenAI } from "@google/genai";
+import React, { useState, useEffect, useRef } from 'react';
 import Markdown from 'react-markdown';
 import { 
   Plane, 
@@ -14,10 +13,7 @@ import {
   MapPin, 
   Loader2, 
   ChevronRight,
-  Palmtree,
-  Mountain,
   History,
-  Utensils,
   Heart,
   Activity,
   Share2,
@@ -26,225 +22,322 @@ import {
   Edit3,
   X,
   Map as MapIcon,
-  ExternalLink,
-  Check
+  Check,
+  LogOut,
+  CloudOff,
+  Shuffle,
+  Users,
+  Languages,
+  User as UserIcon
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { cn } from './lib/utils';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
-import L from 'leaflet';
-
-// Fix for Leaflet marker icons in Vite
-import 'leaflet/dist/leaflet.css';
-import markerIcon from 'leaflet/dist/images/marker-icon.png';
-import markerIconRetina from 'leaflet/dist/images/marker-icon-2x.png';
-import markerShadow from 'leaflet/dist/images/marker-shadow.png';
-
-// @ts-ignore
-delete L.Icon.Default.prototype._getIconUrl;
-L.Icon.Default.mergeOptions({
-  iconRetinaUrl: markerIconRetina,
-  iconUrl: markerIcon,
-  shadowUrl: markerShadow,
-});
-
-// Initialize Gemini
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' });
-
-type TripType = 'adventurous' | 'relax' | 'cultural' | 'foodie';
-
-interface TripDetails {
-  destination: string;
-  duration: number;
-  budget: string;
-  type: TripType;
-  interests: string[];
-  activities: string[];
-}
-
-interface SavedTrip extends TripDetails {
-  id: string;
-  title: string;
-  content: string;
-  created_at: string;
-  locations?: { lat: number; lng: number; name: string }[];
-}
-
-const TRIP_TYPES = [
-  { id: 'adventurous', label: 'Avventuroso', icon: Mountain, color: 'text-orange-500' },
-  { id: 'relax', label: 'Relax', icon: Palmtree, color: 'text-blue-500' },
-  { id: 'cultural', label: 'Culturale', icon: History, color: 'text-purple-500' },
-  { id: 'foodie', label: 'Gastronomico', icon: Utensils, color: 'text-emerald-500' },
-] as const;
-
-const INTERESTS = ['Gastronomia', 'Arte', 'Natura', 'Avventura', 'Vita Notturna', 'Shopping', 'Storia', 'Relax'];
-const ACTIVITY_TYPES = ['Visite Guidate', 'Escursioni', 'Corsi di Cucina', 'Esplorazione Indipendente', 'Sport Acquatici', 'Musei'];
-
-// Helper to center map
-function ChangeView({ center, zoom }: { center: [number, number], zoom: number }) {
-  const map = useMap();
-  map.setView(center, zoom);
-  return null;
-}
+import { collectLocations, renderItineraryMarkdown, type Itinerary, type ItineraryDay } from './lib/itinerary';
+import { checkGeneration, GenerationLimitError, tripHeaders } from './lib/api';
+import { DEFAULT_LANGUAGE, LANGUAGES, messagesFor } from './lib/i18n';
+import { ACTIVITY_IDS, BUDGET_LEVELS, CURRENCIES, INTEREST_IDS, legsDestination, legsDuration, MAX_DURATION, MAX_TRAVELLERS, tripDayDate, tripLength } from './lib/trip';
+import { readEventStream } from './lib/sse';
+import type { BudgetLevel, Currency, GenerationStreamEvent, ItineraryAccess, MapLocation, Language, PromptRef, SavedTrip, SharedTrip, TripDetails, TripLeg, TripType, User } from './lib/types';
+import AuthModal from './components/AuthModal';
+import ShareModal from './components/ShareModal';
+import ItineraryEditor from './components/ItineraryEditor';
+import RevisionsModal from './components/RevisionsModal';
+import ItineraryView from './components/ItineraryView';
+import LegsEditor from './components/LegsEditor';
+import BudgetPanel from './components/BudgetPanel';
+import SavedTripsModal from './components/SavedTripsModal';
+import ExportMenu from './components/ExportMenu';
+import { useDiscussion } from './components/Discussion';
+import LivePresence, { useLiveTrip } from './components/LivePresence';
+import OfflineTripsModal, { OfflineBanner, OfflineButton, useOfflineSync } from './components/OfflineTrips';
+import { findOfflineTripByToken, refreshOfflineTrip, type OfflineTrip } from './lib/offline';
+import TripMap from './components/TripMap';
+import LanguageSwitcher, { useI18n } from './components/I18n';
+import { TRIP_TYPES } from './lib/options';
 
 export default function App() {
+  const { t, language } = useI18n();
   const [details, setDetails] = useState<TripDetails>({
     destination: '',
     duration: 3,
-    budget: 'medio',
+    budget: 'standard',
     type: 'cultural',
     interests: [],
-    activities: []
+    activities: [],
+    start_date: null,
+    end_date: null,
+    legs: null,
+    budget_amount: null,
+    budget_currency: 'EUR',
+    travellers: 1
   });
   const [itinerary, setItinerary] = useState<string | null>(null);
-  const [locations, setLocations] = useState<{ lat: number; lng: number; name: string }[]>([]);
+  const [plan, setPlan] = useState<Itinerary | null>(null);
+  // Prompt template behind the unsaved itinerary, recorded with the trip when it's saved
+  const [generatedWith, setGeneratedWith] = useState<PromptRef | null>(null);
+  const [locations, setLocations] = useState<MapLocation[]>([]);
   const [loading, setLoading] = useState(false);
+  const [streamState, setStreamState] = useState<'idle' | 'streaming' | 'cancelled'>('idle');
+  const abortRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [savedTrips, setSavedTrips] = useState<SavedTrip[]>([]);
   const [showSaved, setShowSaved] = useState(false);
+  const [showOffline, setShowOffline] = useState(false);
   const [sharedTripId, setSharedTripId] = useState<string | null>(null);
-  const [copySuccess, setCopySuccess] = useState(false);
-
-  // Load shared trip if ID in URL
+  const [currentTrip, setCurrentTrip] = useState<SavedTrip | null>(null);
+  const [access, setAccess] = useState<ItineraryAccess | null>(null);
+  const [shareToken, setShareToken] = useState<string | null>(null);
+  const [showShare, setShowShare] = useState(false);
+  const [editing, setEditing] = useState(false);
+  // Someone else's save that arrived while editing, handed to the editor to resolve
+  const [remoteTrip, setRemoteTrip] = useState<SavedTrip | null>(null);
+  const [liveNotice, setLiveNotice] = useState<string | null>(null);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [user, setUser] = useState<User | null>(null);
+  const [showAuth, setShowAuth] = useState(false);
+  // Without an explicit choice, itineraries are written in the interface language
+  const outputLanguage = details.language ?? language;
+
+  // Load shared trip if a share token is in the URL
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
-    const id = params.get('trip');
-    if (id) {
-      fetchTrip(id);
+    const token = params.get('trip');
+    if (token) {
+      fetchTrip(token);
     }
-    fetchSavedTrips();
+    fetchCurrentUser();
   }, []);
 
-  const fetchTrip = async (id: string) => {
+  const fetchCurrentUser = async () => {
     try {
-      setLoading(true);
-      const res = await fetch(`/api/itineraries/${id}`);
-      if (!res.ok) throw new Error("Trip not found");
-      const data = await res.json();
-      setItinerary(data.content);
-      setDetails({
-        destination: data.destination,
-        duration: data.duration,
-        budget: data.budget,
-        type: data.type,
-        interests: data.interests,
-        activities: data.activities
-      });
-      setSharedTripId(id);
+      const res = await fetch('/api/auth/me');
+      if (res.ok) setUser(await res.json());
     } catch (err) {
-      setError("Impossibile caricare l'itinerario condiviso.");
-    } finally {
-      setLoading(false);
+      console.error("Error fetching session", err);
     }
   };
 
-  const fetchSavedTrips = async () => {
+  const logout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    setUser(null);
+    setShowSaved(false);
+  };
+
+  // Shows a saved trip, keeping the caller's access level for later edits
+  const loadTrip = (trip: SavedTrip, tripAccess: ItineraryAccess) => {
+    setItinerary(trip.content);
+    setPlan(trip.itinerary ?? null);
+    setLocations(trip.locations ?? []);
+    setDetails({
+      destination: trip.destination,
+      duration: trip.duration,
+      budget: trip.budget,
+      type: trip.type,
+      interests: trip.interests,
+      activities: trip.activities,
+      start_date: trip.start_date ?? null,
+      end_date: trip.end_date ?? null,
+      legs: trip.legs ?? null,
+      budget_amount: trip.budget_amount ?? null,
+      budget_currency: trip.budget_currency ?? 'EUR',
+      travellers: trip.travellers ?? 1,
+      language: trip.language ?? DEFAULT_LANGUAGE
+    });
+    setSharedTripId(trip.id);
+    setCurrentTrip(trip);
+    setAccess(tripAccess);
+    setEditing(false);
+    setRemoteTrip(null);
+  };
+
+  const fetchTrip = async (token: string) => {
     try {
-      const res = await fetch('/api/itineraries');
-      const data = await res.json();
-      setSavedTrips(data);
+      setLoading(true);
+      const res = await fetch(`/api/shared/${token}`);
+      if (!res.ok) throw new Error("Trip not found");
+      const { access, trip }: SharedTrip = await res.json();
+      setShareToken(access === 'owner' ? null : token);
+      loadTrip(trip, access);
     } catch (err) {
-      console.error("Error fetching saved trips", err);
+      // Without a connection, a copy downloaded earlier will do
+      const record = await findOfflineTripByToken(token).catch(() => undefined);
+      if (record) return openOfflineTrip(record);
+      setError(t.errors.sharedTrip);
+    } finally {
+      setLoading(false);
     }
   };
 
-  const generateItinerary = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Identical details are answered from the server's cache; fresh asks the model for a new variant
+  const generateItinerary = async (e?: React.FormEvent, fresh = false) => {
+    e?.preventDefault();
     if (!details.destination) return;
 
     setLoading(true);
     setError(null);
     setItinerary(null);
+    setPlan(null);
+    setGeneratedWith(null);
     setLocations([]);
     setSharedTripId(null);
+    setCurrentTrip(null);
+    setAccess(null);
+    setShareToken(null);
+    setEditing(false);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStreamState('streaming');
+
+    // Days are appended as they stream in; the final event replaces the draft with the validated itinerary
+    let draft: Itinerary | null = null;
+    const showDraft = (next: Itinerary) => {
+      draft = next;
+      setPlan(next);
+      setItinerary(renderItineraryMarkdown(next, outputLanguage));
+      setLocations(collectLocations(next));
+    };
 
     try {
-      const prompt = `Crea un itinerario di viaggio dettagliato giorno per giorno per la seguente destinazione: ${details.destination}.
-      Durata: ${details.duration} giorni.
-      Budget: ${details.budget}.
-      Tipologia di viaggio: ${details.type}.
-      Interessi: ${details.interests.join(', ')}.
-      Attività preferite: ${details.activities.join(', ')}.
-      
-      L'itinerario deve includere:
-      1. Suggerimenti specifici per l'alloggio (hotel, ostelli, Airbnb) basati sul budget (${details.budget}).
-      2. Suggerimenti per il trasporto (voli, treni, noleggio auto, mezzi pubblici locali).
-      3. Itinerario giornaliero dettagliato (Mattina, Pomeriggio, Sera).
-      4. Un consiglio "pro" o una curiosità locale per ogni giorno.
-      
-      IMPORTANTE: Alla fine dell'itinerario, aggiungi una sezione chiamata "COORDINATE" con un elenco JSON di massimo 5 luoghi principali menzionati, nel formato:
-      [{"name": "Nome Luogo", "lat": 0.0, "lng": 0.0}]
-      
-      Usa il formato Markdown per tutto il resto.`;
-
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt,
-        config: {
-          tools: [{ googleMaps: {} }]
+      const res = await fetch(`/api/generate/stream${fresh ? '?fresh=true' : ''}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...details, language: outputLanguage }),
+        signal: controller.signal
+      });
+      await checkGeneration(res, language);
+
+      await readEventStream<GenerationStreamEvent>(res, message => {
+        if (message.event === 'overview') {
+          showDraft({ ...message.data, days: [] });
+        } else if (message.event === 'day') {
+          const base: Itinerary = draft ?? {
+            title: messagesFor(outputLanguage).itinerary.untitled(details.destination),
+            summary: '',
+            currency: 'EUR',
+            accommodation: [],
+            transport: [],
+            days: []
+          };
+          showDraft({ ...base, days: [...base.days, message.data] });
+        } else if (message.event === 'done') {
+          const result = message.data;
+          setLocations(result.locations);
+          setPlan(result.itinerary);
+          setItinerary(result.content);
+          setGeneratedWith(result.prompt);
+        } else if (message.event === 'error') {
+          throw new Error(message.data.error);
         }
       });
-
-      if (response.text) {
-        // Extract JSON coordinates if present
-        const jsonMatch = response.text.match(/\[\s*{\s*"name":[\s\S]*?}\s*\]/);
-        let cleanText = response.text;
-        if (jsonMatch) {
-          try {
-            const locs = JSON.parse(jsonMatch[0]);
-            setLocations(locs);
-            cleanText = response.text.replace(jsonMatch[0], '').replace('COORDINATE', '');
-          } catch (e) {
-            console.error("Failed to parse locations", e);
-          }
+      setStreamState('idle');
+    } catch (err) {
+      if (controller.signal.aborted) {
+        // Only a draft with at least one day is worth keeping
+        if (draft && (draft as Itinerary).days.length > 0) {
+          setStreamState('cancelled');
+        } else {
+          discardDraft();
         }
-        setItinerary(cleanText);
-      } else {
-        throw new Error("Nessuna risposta ricevuta dall'IA.");
+        return;
       }
-    } catch (err) {
       console.error(err);
-      setError("Si è verificato un errore durante la generazione. Riprova più tardi.");
+      setStreamState('idle');
+      setItinerary(null);
+      setPlan(null);
+      setLocations([]);
+      setError(err instanceof GenerationLimitError ? err.message : t.errors.generation);
     } finally {
+      abortRef.current = null;
       setLoading(false);
     }
   };
 
+  const cancelGeneration = () => {
+    abortRef.current?.abort();
+  };
+
+  const discardDraft = () => {
+    setItinerary(null);
+    setPlan(null);
+    setLocations([]);
+    setStreamState('idle');
+  };
+
   const saveTrip = async () => {
     if (!itinerary) return;
+    if (!user) {
+      setShowAuth(true);
+      return;
+    }
     try {
       const res = await fetch('/api/itineraries', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           ...details,
+          language: outputLanguage,
           content: itinerary,
-          title: `Viaggio a ${details.destination}`
+          itinerary: plan,
+          locations,
+          title: plan?.title || messagesFor(outputLanguage).itinerary.untitled(details.destination),
+          prompt: generatedWith ?? undefined
         })
       });
-      const data = await res.json();
-      setSharedTripId(data.id);
-      fetchSavedTrips();
+      if (!res.ok) throw new Error("Save failed");
+      loadTrip(await res.json(), 'owner');
     } catch (err) {
-      setError("Errore durante il salvataggio.");
+      setError(t.errors.save);
     }
   };
 
-  const deleteTrip = async (id: string) => {
+  // Trips saved before accounts have no owner; the first signed-in visitor can add them to their trips
+  const claimTrip = async () => {
+    if (!currentTrip) return;
+    if (!user) {
+      setShowAuth(true);
+      return;
+    }
     try {
-      await fetch(`/api/itineraries/${id}`, { method: 'DELETE' });
-      fetchSavedTrips();
+      const res = await fetch(`/api/itineraries/${currentTrip.id}/claim`, { method: 'POST' });
+      if (!res.ok) throw new Error("Claim failed");
+      const { access, trip }: SharedTrip = await res.json();
+      setShareToken(null);
+      loadTrip(trip, access);
     } catch (err) {
-      console.error(err);
+      setError(t.errors.claim);
+    }
+  };
+
+  // With both dates set the duration follows them; an end date out of range is dropped
+  const setDates = (start_date: string | null, end_date: string | null) => {
+    // Legs fix the duration, so the end date just follows the start date
+    if (details.legs?.length) {
+      setDetails({ ...details, start_date, end_date: start_date ? tripDayDate(start_date, details.duration) : null });
+      return;
+    }
+    if (start_date && end_date) {
+      const length = tripLength(start_date, end_date);
+      if (length < 1 || length > MAX_DURATION) end_date = null;
     }
+    setDetails({
+      ...details,
+      start_date,
+      end_date,
+      ...(start_date && end_date ? { duration: tripLength(start_date, end_date) } : {})
+    });
   };
 
-  const shareTrip = () => {
-    if (!sharedTripId) return;
-    const url = `${window.location.origin}?trip=${sharedTripId}`;
-    navigator.clipboard.writeText(url);
-    setCopySuccess(true);
-    setTimeout(() => setCopySuccess(false), 2000);
+  // Legs drive the destination label and duration; changes that overrun MAX_DURATION are ignored
+  const setLegs = (legs: TripLeg[] | null) => {
+    if (legs && legsDuration(legs) > MAX_DURATION) return;
+    const duration = legs ? legsDuration(legs) : details.duration;
+    setDetails({
+      ...details,
+      legs,
+      destination: legs ? legsDestination(legs) : details.legs?.[0]?.destination ?? details.destination,
+      duration,
+      ...(details.start_date ? { end_date: tripDayDate(details.start_date, duration) } : {})
+    });
   };
 
   const toggleInterest = (interest: string) => {
@@ -265,10 +358,84 @@ export default function App() {
     }));
   };
 
-  const mapCenter = useMemo(() => {
-    if (locations.length > 0) return [locations[0].lat, locations[0].lng] as [number, number];
-    return [41.9028, 12.4964] as [number, number]; // Default Rome
-  }, [locations]);
+  const onTripUpdated = (trip: SavedTrip) => {
+    loadTrip(trip, access ?? 'owner');
+    refreshOfflineTrip(trip).catch(err => console.error(err));
+    offline.refresh();
+  };
+
+  const openOfflineTrip = (record: OfflineTrip) => {
+    loadTrip(record.trip, record.access);
+    setShareToken(record.shareToken);
+    setShowOffline(false);
+  };
+
+  const offline = useOfflineSync((trip) => {
+    if (trip.id === currentTrip?.id && !editing) loadTrip(trip, access ?? 'owner');
+  });
+
+  const canEdit = access === 'owner' || access === 'edit';
+  const discussion = useDiscussion(currentTrip?.id ?? null, currentTrip?.version ?? null, shareToken, {
+    userId: user?.id ?? null,
+    canComment: !!access && access !== 'view',
+    isOwner: access === 'owner',
+    onLogin: () => setShowAuth(true)
+  });
+
+  const viewers = useLiveTrip(currentTrip?.id ?? null, shareToken, {
+    editing,
+    onEvent: (event) => {
+      if (event.type === 'trip.updated') {
+        // Our own saves come back too, already applied
+        if (!currentTrip || event.trip.version <= currentTrip.version) return;
+        refreshOfflineTrip(event.trip).catch(err => console.error(err));
+        if (editing) return setRemoteTrip(event.trip);
+        loadTrip(event.trip, access ?? 'view');
+        if (event.by !== user?.email) setLiveNotice(event.by ? t.result.updatedBy(event.by) : t.result.updated);
+      } else if (event.type === 'trip.deleted') {
+        setError(t.errors.deleted);
+      } else {
+        discussion?.receive(event);
+      }
+    }
+  });
+
+  useEffect(() => {
+    if (!liveNotice) return;
+    const timer = setTimeout(() => setLiveNotice(null), 5000);
+    return () => clearTimeout(timer);
+  }, [liveNotice]);
+
+  // Saved trips regenerate server-side as a new revision; unsaved ones just swap the day locally
+  const regenerateDay = async (day: number, instruction: string) => {
+    setError(null);
+    try {
+      if (currentTrip) {
+        const res = await fetch(`/api/itineraries/${currentTrip.id}/days/${day}/regenerate`, {
+          method: 'POST',
+          headers: tripHeaders(shareToken, true),
+          body: JSON.stringify({ instruction: instruction || undefined, version: currentTrip.version })
+        });
+        await checkGeneration(res, language);
+        onTripUpdated(await res.json());
+      } else if (plan) {
+        const res = await fetch('/api/generate/day', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ details: { ...details, language: outputLanguage }, itinerary: plan, day, instruction: instruction || undefined })
+        });
+        await checkGeneration(res, language);
+        const newDay: ItineraryDay = await res.json();
+        const updated = { ...plan, days: plan.days.map(d => d.day === day ? newDay : d) };
+        setPlan(updated);
+        setItinerary(renderItineraryMarkdown(updated, outputLanguage));
+        setLocations(collectLocations(updated));
+      }
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof GenerationLimitError ? err.message : t.errors.regenerate);
+    }
+  };
 
   return (
     <div className="min-h-screen bg-[#FDFCFB] text-[#1A1A1A] font-sans selection:bg-orange-100">
@@ -283,15 +450,39 @@ export default function App() {
           </div>
           <nav className="flex items-center gap-6 text-sm font-medium">
             <button 
-              onClick={() => setShowSaved(true)}
+              onClick={() => user ? setShowSaved(true) : setShowAuth(true)}
               className="flex items-center gap-2 text-black/60 hover:text-black transition-colors"
             >
-              <Heart className="w-4 h-4" /> I miei viaggi
+              <Heart className="w-4 h-4" /> {t.header.myTrips}
             </button>
-            <a href="#" className="hidden md:block text-black/60 hover:text-black transition-colors">Supporto</a>
+            <button
+              onClick={() => setShowOffline(true)}
+              className="flex items-center gap-2 text-black/60 hover:text-black transition-colors"
+            >
+              <CloudOff className="w-4 h-4" /> {t.header.offline}
+            </button>
+            {user ? (
+              <button
+                onClick={logout}
+                title={user.email}
+                className="flex items-center gap-2 text-black/60 hover:text-black transition-colors"
+              >
+                <LogOut className="w-4 h-4" /> {t.header.logout}
+              </button>
+            ) : (
+              <button
+                onClick={() => setShowAuth(true)}
+                className="flex items-center gap-2 text-black/60 hover:text-black transition-colors"
+              >
+                <UserIcon className="w-4 h-4" /> {t.header.login}
+              </button>
+            )}
+            <LanguageSwitcher />
+            <a href="#" className="hidden md:block text-black/60 hover:text-black transition-colors">{t.header.support}</a>
           </nav>
         </div>
       </header>
+      <OfflineBanner sync={offline} />
 
       <main className="max-w-6xl mx-auto px-6 py-12">
         <div className="grid lg:grid-cols-[450px_1fr] gap-12 items-start">
@@ -300,63 +491,148 @@ export default function App() {
           <section className="space-y-8">
             <div className="space-y-2">
               <h1 className="text-4xl font-serif font-medium leading-tight">
-                Pianifica il tuo <br />
-                <span className="italic text-orange-600">viaggio su misura.</span>
+                {t.form.titleLine} <br />
+                <span className="italic text-orange-600">{t.form.titleAccent}</span>
               </h1>
             </div>
 
             <form onSubmit={generateItinerary} className="space-y-6 bg-white p-8 rounded-3xl border border-black/5 shadow-sm">
               <div className="space-y-2">
-                <label className="text-xs font-bold uppercase tracking-wider text-black/40 flex items-center gap-2">
-                  <MapPin className="w-3 h-3" /> Destinazione
-                </label>
-                <input
-                  type="text"
-                  placeholder="Es: Tokyo, Parigi, Bali..."
-                  className="w-full bg-transparent border-b-2 border-black/10 py-2 text-xl focus:outline-none focus:border-black transition-colors placeholder:text-black/10"
-                  value={details.destination}
-                  onChange={(e) => setDetails({ ...details, destination: e.target.value })}
-                  required
-                />
+                <div className="flex items-center justify-between">
+                  <label className="text-xs font-bold uppercase tracking-wider text-black/40 flex items-center gap-2">
+                    <MapPin className="w-3 h-3" /> {details.legs ? t.form.legs : t.form.destination}
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setLegs(details.legs ? null : [
+                      { destination: details.destination, nights: Math.max(1, details.duration - 2), transfer: null },
+                      { destination: '', nights: 1, transfer: 'train' }
+                    ])}
+                    className="text-xs font-medium text-black/40 hover:text-black transition-colors"
+                  >
+                    {details.legs ? t.form.singleDestination : t.form.multipleLegs}
+                  </button>
+                </div>
+                {details.legs ? (
+                  <LegsEditor legs={details.legs} onChange={setLegs} />
+                ) : (
+                  <input
+                    type="text"
+                    placeholder={t.form.destinationPlaceholder}
+                    className="w-full bg-transparent border-b-2 border-black/10 py-2 text-xl focus:outline-none focus:border-black transition-colors placeholder:text-black/10"
+                    value={details.destination}
+                    onChange={(e) => setDetails({ ...details, destination: e.target.value })}
+                    required
+                  />
+                )}
               </div>
 
               <div className="grid grid-cols-2 gap-6">
                 <div className="space-y-2">
                   <label className="text-xs font-bold uppercase tracking-wider text-black/40 flex items-center gap-2">
-                    <Calendar className="w-3 h-3" /> Durata (giorni)
+                    <Calendar className="w-3 h-3" /> {t.form.from}
+                  </label>
+                  <input
+                    type="date"
+                    className="w-full bg-transparent border-b-2 border-black/10 py-2 text-lg focus:outline-none focus:border-black transition-colors"
+                    value={details.start_date ?? ''}
+                    onChange={(e) => setDates(e.target.value || null, details.end_date ?? null)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase tracking-wider text-black/40 flex items-center gap-2">
+                    <Calendar className="w-3 h-3" /> {t.form.to}
+                  </label>
+                  <input
+                    type="date"
+                    min={details.start_date ?? undefined}
+                    className="w-full bg-transparent border-b-2 border-black/10 py-2 text-lg focus:outline-none focus:border-black transition-colors"
+                    value={details.end_date ?? ''}
+                    onChange={(e) => setDates(details.start_date ?? null, e.target.value || null)}
+                    required={!!details.start_date}
+                    disabled={!!details.legs}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase tracking-wider text-black/40 flex items-center gap-2">
+                    <Calendar className="w-3 h-3" /> {t.form.duration}
                   </label>
                   <input
                     type="number"
                     min="1"
-                    max="30"
-                    className="w-full bg-transparent border-b-2 border-black/10 py-2 text-xl focus:outline-none focus:border-black transition-colors"
+                    max={MAX_DURATION}
+                    className="w-full bg-transparent border-b-2 border-black/10 py-2 text-xl focus:outline-none focus:border-black transition-colors disabled:text-black/40"
                     value={details.duration}
-                    onChange={(e) => setDetails({ ...details, duration: parseInt(e.target.value) })}
+                    onChange={(e) => setDetails({ ...details, duration: Math.min(MAX_DURATION, Math.max(1, parseInt(e.target.value) || 1)) })}
+                    disabled={!!(details.legs || details.start_date && details.end_date)}
+                    title={details.legs ? t.form.durationFromLegs : details.start_date && details.end_date ? t.form.durationFromDates : undefined}
                   />
                 </div>
                 <div className="space-y-2">
                   <label className="text-xs font-bold uppercase tracking-wider text-black/40 flex items-center gap-2">
-                    <Wallet className="w-3 h-3" /> Budget
+                    <Wallet className="w-3 h-3" /> {t.form.budgetLevel}
                   </label>
                   <select
                     className="w-full bg-transparent border-b-2 border-black/10 py-2 text-xl focus:outline-none focus:border-black transition-colors appearance-none cursor-pointer"
                     value={details.budget}
-                    onChange={(e) => setDetails({ ...details, budget: e.target.value })}
+                    onChange={(e) => setDetails({ ...details, budget: e.target.value as BudgetLevel })}
                   >
-                    <option value="economico">Economico</option>
-                    <option value="medio">Medio</option>
-                    <option value="lusso">Lusso</option>
+                    {BUDGET_LEVELS.map(level => (
+                      <option key={level} value={level}>{t.options.budgets[level]}</option>
+                    ))}
                   </select>
                 </div>
               </div>
 
+              <div className="grid grid-cols-[2fr_1fr] gap-6">
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase tracking-wider text-black/40 flex items-center gap-2">
+                    <Wallet className="w-3 h-3" /> {t.form.budgetAmount}
+                  </label>
+                  <div className="flex items-end gap-2">
+                    <input
+                      type="number"
+                      min="1"
+                      step="any"
+                      placeholder={t.form.optional}
+                      className="w-full bg-transparent border-b-2 border-black/10 py-2 text-xl focus:outline-none focus:border-black transition-colors placeholder:text-black/10"
+                      value={details.budget_amount ?? ''}
+                      onChange={(e) => setDetails({ ...details, budget_amount: e.target.value ? Number(e.target.value) : null })}
+                    />
+                    <select
+                      className="bg-transparent border-b-2 border-black/10 py-2 text-xl focus:outline-none focus:border-black transition-colors appearance-none cursor-pointer"
+                      value={details.budget_currency}
+                      onChange={(e) => setDetails({ ...details, budget_currency: e.target.value as Currency })}
+                    >
+                      {CURRENCIES.map(currency => <option key={currency} value={currency}>{currency}</option>)}
+                    </select>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs font-bold uppercase tracking-wider text-black/40 flex items-center gap-2">
+                    <Users className="w-3 h-3" /> {t.form.travellers}
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    max={MAX_TRAVELLERS}
+                    className="w-full bg-transparent border-b-2 border-black/10 py-2 text-xl focus:outline-none focus:border-black transition-colors"
+                    value={details.travellers}
+                    onChange={(e) => setDetails({ ...details, travellers: Math.min(MAX_TRAVELLERS, Math.max(1, parseInt(e.target.value) || 1)) })}
+                  />
+                </div>
+              </div>
+
               {/* Advanced Filters: Interests */}
               <div className="space-y-3">
                 <label className="text-xs font-bold uppercase tracking-wider text-black/40 flex items-center gap-2">
-                  <Heart className="w-3 h-3" /> Interessi
+                  <Heart className="w-3 h-3" /> {t.form.interests}
                 </label>
                 <div className="flex flex-wrap gap-2">
-                  {INTERESTS.map(interest => (
+                  {INTEREST_IDS.map(interest => (
                     <button
                       key={interest}
                       type="button"
@@ -368,7 +644,7 @@ export default function App() {
                           : "bg-white text-black/60 border-black/5 hover:border-black/20"
                       )}
                     >
-                      {interest}
+                      {t.options.interests[interest]}
                     </button>
                   ))}
                 </div>
@@ -377,10 +653,10 @@ export default function App() {
               {/* Advanced Filters: Activities */}
               <div className="space-y-3">
                 <label className="text-xs font-bold uppercase tracking-wider text-black/40 flex items-center gap-2">
-                  <Activity className="w-3 h-3" /> Attività
+                  <Activity className="w-3 h-3" /> {t.form.activities}
                 </label>
                 <div className="flex flex-wrap gap-2">
-                  {ACTIVITY_TYPES.map(activity => (
+                  {ACTIVITY_IDS.map(activity => (
                     <button
                       key={activity}
                       type="button"
@@ -392,7 +668,7 @@ export default function App() {
                           : "bg-white text-black/60 border-black/5 hover:border-black/20"
                       )}
                     >
-                      {activity}
+                      {t.options.activities[activity]}
                     </button>
                   ))}
                 </div>
@@ -400,7 +676,7 @@ export default function App() {
 
               <div className="space-y-3">
                 <label className="text-xs font-bold uppercase tracking-wider text-black/40 flex items-center gap-2">
-                  <Compass className="w-3 h-3" /> Stile di Viaggio
+                  <Compass className="w-3 h-3" /> {t.form.tripType}
                 </label>
                 <div className="grid grid-cols-2 gap-3">
                   {TRIP_TYPES.map((type) => {
@@ -419,13 +695,26 @@ export default function App() {
                         )}
                       >
                         <Icon className={cn("w-5 h-5", isActive ? "text-white" : type.color)} />
-                        <span className="text-sm font-medium">{type.label}</span>
+                        <span className="text-sm font-medium">{t.options.tripTypes[type.id]}</span>
                       </button>
                     );
                   })}
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <label className="text-xs font-bold uppercase tracking-wider text-black/40 flex items-center gap-2">
+                  <Languages className="w-3 h-3" /> {t.form.outputLanguage}
+                </label>
+                <select
+                  className="w-full bg-transparent border-b-2 border-black/10 py-2 text-xl focus:outline-none focus:border-black transition-colors appearance-none cursor-pointer"
+                  value={outputLanguage}
+                  onChange={(e) => setDetails({ ...details, language: e.target.value as Language })}
+                >
+                  {LANGUAGES.map(code => <option key={code} value={code}>{t.languages[code]}</option>)}
+                </select>
+              </div>
+
               <button
                 type="submit"
                 disabled={loading}
@@ -434,15 +723,17 @@ export default function App() {
                 {loading ? (
                   <>
                     <Loader2 className="w-5 h-5 animate-spin" />
-                    Generazione...
+                    {t.form.generating}
                   </>
                 ) : (
                   <>
-                    Crea Itinerario
+                    {t.form.submit}
                     <ChevronRight className="w-5 h-5" />
                   </>
                 )}
               </button>
+
+              {error && <p className="text-sm text-red-500 text-center">{error}</p>}
             </form>
           </section>
 
@@ -457,15 +748,13 @@ export default function App() {
                 >
                   <Compass className="w-12 h-12 text-orange-500" />
                   <div className="space-y-2">
-                    <h3 className="text-2xl font-serif">Inizia la tua avventura</h3>
-                    <p className="text-black/40 max-w-xs mx-auto">
-                      Inserisci i dettagli del tuo viaggio per generare un itinerario completo di alloggi e trasporti.
-                    </p>
+                    <h3 className="text-2xl font-serif">{t.result.emptyTitle}</h3>
+                    <p className="text-black/40 max-w-xs mx-auto">{t.result.emptyText}</p>
                   </div>
                 </motion.div>
               )}
 
-              {loading && (
+              {loading && !itinerary && (
                 <motion.div 
                   initial={{ opacity: 0 }}
                   animate={{ opacity: 1 }}
@@ -475,7 +764,7 @@ export default function App() {
                     <div className="w-24 h-24 border-4 border-black/5 rounded-full animate-spin border-t-orange-500" />
                     <Plane className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 text-black" />
                   </div>
-                  <p className="text-black/40 animate-pulse font-medium">Stiamo disegnando il tuo viaggio perfetto...</p>
+                  <p className="text-black/40 animate-pulse font-medium">{t.result.loading}</p>
                 </motion.div>
               )}
 
@@ -486,55 +775,149 @@ export default function App() {
                   className="space-y-8"
                 >
                   {/* Map Integration */}
-                  {locations.length > 0 && (
-                    <div className="h-[300px] w-full rounded-[32px] overflow-hidden border border-black/5 shadow-sm z-0">
-                      <MapContainer center={mapCenter} zoom={13} style={{ height: '100%', width: '100%' }}>
-                        <TileLayer url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png" />
-                        <ChangeView center={mapCenter} zoom={13} />
-                        {locations.map((loc, i) => (
-                          <Marker key={i} position={[loc.lat, loc.lng]}>
-                            <Popup>{loc.name}</Popup>
-                          </Marker>
-                        ))}
-                      </MapContainer>
-                    </div>
-                  )}
+                  <TripMap key={currentTrip?.id ?? 'draft'} plan={plan} locations={locations} />
 
                   <div className="bg-white p-8 md:p-12 rounded-[40px] border border-black/5 shadow-sm relative overflow-hidden">
                     <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-6 mb-12 border-b border-black/5 pb-8">
                       <div className="space-y-1">
-                        <span className="text-xs font-bold uppercase tracking-widest text-orange-500">Itinerario Vagabond</span>
+                        <span className="text-xs font-bold uppercase tracking-widest text-orange-500">{t.result.badge}</span>
                         <h2 className="text-3xl font-serif">{details.destination}</h2>
+                        {liveNotice && <p className="text-xs text-black/40">{liveNotice}</p>}
                       </div>
+                      <LivePresence viewers={viewers} />
+                      {streamState === 'streaming' ? (
+                        <div className="flex items-center gap-3">
+                          <span className="flex items-center gap-2 text-xs font-medium text-black/40">
+                            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                            {t.result.streaming((plan?.days.length ?? 0) + 1, details.duration)}
+                          </span>
+                          <button
+                            onClick={cancelGeneration}
+                            className="flex items-center gap-2 px-4 py-2 bg-red-50 text-red-500 rounded-full text-xs font-bold uppercase tracking-wider hover:bg-red-500 hover:text-white transition-colors"
+                          >
+                            <X className="w-3.5 h-3.5" /> {t.result.stop}
+                          </button>
+                        </div>
+                      ) : streamState === 'cancelled' ? (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="text-xs font-medium text-black/40">
+                            {t.result.cancelled(plan?.days.length ?? 0, details.duration)}
+                          </span>
+                          <button
+                            onClick={() => setStreamState('idle')}
+                            className="flex items-center gap-2 px-4 py-2 bg-black text-white rounded-full text-xs font-bold uppercase tracking-wider hover:bg-orange-600 transition-colors"
+                          >
+                            <Check className="w-3.5 h-3.5" /> {t.result.keepDraft}
+                          </button>
+                          <button
+                            onClick={discardDraft}
+                            className="flex items-center gap-2 px-4 py-2 bg-red-50 text-red-500 rounded-full text-xs font-bold uppercase tracking-wider hover:bg-red-500 hover:text-white transition-colors"
+                          >
+                            <Trash2 className="w-3.5 h-3.5" /> {t.result.discard}
+                          </button>
+                        </div>
+                      ) : (
                       <div className="flex flex-wrap gap-2">
                         {!sharedTripId ? (
                           <button 
                             onClick={saveTrip}
                             className="flex items-center gap-2 px-4 py-2 bg-black text-white rounded-full text-xs font-bold uppercase tracking-wider hover:bg-orange-600 transition-colors"
                           >
-                            <Save className="w-3.5 h-3.5" /> Salva Viaggio
+                            <Save className="w-3.5 h-3.5" /> {t.result.save}
                           </button>
-                        ) : (
+                        ) : access === 'owner' ? (
                           <button 
-                            onClick={shareTrip}
+                            onClick={() => setShowShare(true)}
                             className="flex items-center gap-2 px-4 py-2 bg-orange-500 text-white rounded-full text-xs font-bold uppercase tracking-wider hover:bg-orange-600 transition-colors"
                           >
-                            {copySuccess ? <Check className="w-3.5 h-3.5" /> : <Share2 className="w-3.5 h-3.5" />}
-                            {copySuccess ? "Copiato!" : "Condividi Link"}
+                            <Share2 className="w-3.5 h-3.5" /> {t.result.share}
+                          </button>
+                        ) : currentTrip?.owner_id === null ? (
+                          <button
+                            onClick={claimTrip}
+                            title={t.result.claimTitle}
+                            className="flex items-center gap-2 px-4 py-2 bg-black text-white rounded-full text-xs font-bold uppercase tracking-wider hover:bg-orange-600 transition-colors"
+                          >
+                            <Save className="w-3.5 h-3.5" /> {t.result.claim}
+                          </button>
+                        ) : access && (
+                          <span className="flex items-center gap-2 px-4 py-2 bg-black/5 text-black/60 rounded-full text-xs font-bold uppercase tracking-wider">
+                            <Share2 className="w-3.5 h-3.5" /> {t.options.access[access]}
+                          </span>
+                        )}
+                        {!sharedTripId && (
+                          <button
+                            onClick={() => generateItinerary(undefined, true)}
+                            title={t.result.variantTitle}
+                            className="flex items-center gap-2 px-4 py-2 bg-black/5 text-black rounded-full text-xs font-bold uppercase tracking-wider hover:bg-black/10 transition-colors"
+                          >
+                            <Shuffle className="w-3.5 h-3.5" /> {t.result.variant}
+                          </button>
+                        )}
+                        {canEdit && currentTrip && !editing && (
+                          <button
+                            onClick={() => setEditing(true)}
+                            className="flex items-center gap-2 px-4 py-2 bg-black/5 text-black rounded-full text-xs font-bold uppercase tracking-wider hover:bg-black/10 transition-colors"
+                          >
+                            <Edit3 className="w-3.5 h-3.5" /> {t.result.edit}
+                          </button>
+                        )}
+                        {currentTrip && currentTrip.version > 1 && (
+                          <button
+                            onClick={() => setShowRevisions(true)}
+                            className="flex items-center gap-2 px-4 py-2 bg-black/5 text-black rounded-full text-xs font-bold uppercase tracking-wider hover:bg-black/10 transition-colors"
+                          >
+                            <History className="w-3.5 h-3.5" /> {t.result.history}
+                          </button>
+                        )}
+                        {currentTrip ? (
+                          <>
+                            <ExportMenu trip={currentTrip} shareToken={shareToken} onError={setError} />
+                            {access && <OfflineButton trip={currentTrip} access={access} shareToken={shareToken} onError={setError} />}
+                          </>
+                        ) : (
+                          <button 
+                            onClick={() => window.print()}
+                            className="flex items-center gap-2 px-4 py-2 bg-black/5 text-black rounded-full text-xs font-bold uppercase tracking-wider hover:bg-black/10 transition-colors"
+                          >
+                            {t.result.print}
                           </button>
                         )}
-                        <button 
-                          onClick={() => window.print()}
-                          className="flex items-center gap-2 px-4 py-2 bg-black/5 text-black rounded-full text-xs font-bold uppercase tracking-wider hover:bg-black/10 transition-colors"
-                        >
-                          Stampa
-                        </button>
                       </div>
+                      )}
                     </div>
 
-                    <div className="prose prose-slate max-w-none markdown-body">
-                      <Markdown>{itinerary}</Markdown>
-                    </div>
+                    {plan && !editing && (
+                      <div className="mb-12">
+                        <BudgetPanel
+                          plan={plan}
+                          travellers={details.travellers ?? 1}
+                          limit={details.budget_amount}
+                          limitCurrency={details.budget_currency}
+                        />
+                      </div>
+                    )}
+
+                    {editing && currentTrip ? (
+                      <ItineraryEditor
+                        trip={currentTrip}
+                        shareToken={shareToken}
+                        remoteTrip={remoteTrip}
+                        onSaved={onTripUpdated}
+                        onCancel={() => setEditing(false)}
+                      />
+                    ) : plan ? (
+                      <ItineraryView
+                        plan={plan}
+                        startDate={details.start_date}
+                        onRegenerateDay={streamState === 'idle' && (!currentTrip || canEdit) ? regenerateDay : undefined}
+                        discussion={discussion}
+                      />
+                    ) : (
+                      <div className="prose prose-slate max-w-none markdown-body">
+                        <Markdown>{itinerary}</Markdown>
+                      </div>
+                    )}
                   </div>
                 </motion.div>
               )}
@@ -546,69 +929,51 @@ export default function App() {
       {/* Saved Trips Modal */}
       <AnimatePresence>
         {showSaved && (
-          <motion.div 
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            className="fixed inset-0 bg-black/40 backdrop-blur-sm z-[9999] flex items-center justify-center p-6"
-          >
-            <motion.div 
-              initial={{ scale: 0.9, y: 20 }}
-              animate={{ scale: 1, y: 0 }}
-              className="bg-white w-full max-w-2xl rounded-[40px] shadow-2xl overflow-hidden flex flex-col max-h-[80vh]"
-            >
-              <div className="p-8 border-b border-black/5 flex items-center justify-between">
-                <h2 className="text-2xl font-serif">I miei viaggi salvati</h2>
-                <button onClick={() => setShowSaved(false)} className="p-2 hover:bg-black/5 rounded-full transition-colors">
-                  <X className="w-6 h-6" />
-                </button>
-              </div>
-              <div className="flex-1 overflow-y-auto p-8 space-y-4">
-                {savedTrips.length === 0 ? (
-                  <div className="text-center py-12 text-black/40">
-                    Non hai ancora salvato nessun viaggio.
-                  </div>
-                ) : (
-                  savedTrips.map(trip => (
-                    <div key={trip.id} className="group p-6 border border-black/5 rounded-3xl hover:border-black/20 transition-all flex items-center justify-between gap-4">
-                      <div className="space-y-1">
-                        <h4 className="font-bold text-lg">{trip.title}</h4>
-                        <p className="text-sm text-black/40">
-                          {trip.destination} • {trip.duration} giorni • {new Date(trip.created_at).toLocaleDateString()}
-                        </p>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <button 
-                          onClick={() => {
-                            setItinerary(trip.content);
-                            setDetails({
-                              destination: trip.destination,
-                              duration: trip.duration,
-                              budget: trip.budget,
-                              type: trip.type as TripType,
-                              interests: trip.interests,
-                              activities: trip.activities
-                            });
-                            setSharedTripId(trip.id);
-                            setShowSaved(false);
-                          }}
-                          className="p-3 bg-black/5 rounded-xl hover:bg-black hover:text-white transition-all"
-                        >
-                          <ExternalLink className="w-4 h-4" />
-                        </button>
-                        <button 
-                          onClick={() => deleteTrip(trip.id)}
-                          className="p-3 bg-red-50 text-red-500 rounded-xl hover:bg-red-500 hover:text-white transition-all"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
-                      </div>
-                    </div>
-                  ))
-                )}
-              </div>
-            </motion.div>
-          </motion.div>
+          <SavedTripsModal
+            onOpen={(trip) => {
+              loadTrip(trip, 'owner');
+              setShareToken(null);
+              setShowSaved(false);
+            }}
+            onClose={() => setShowSaved(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showOffline && <OfflineTripsModal onOpen={openOfflineTrip} onClose={() => setShowOffline(false)} />}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showShare && sharedTripId && (
+          <ShareModal tripId={sharedTripId} onClose={() => setShowShare(false)} />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showRevisions && currentTrip && (
+          <RevisionsModal
+            trip={currentTrip}
+            shareToken={shareToken}
+            canRestore={canEdit}
+            onRestored={(trip) => {
+              onTripUpdated(trip);
+              setShowRevisions(false);
+            }}
+            onClose={() => setShowRevisions(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showAuth && (
+          <AuthModal
+            onClose={() => setShowAuth(false)}
+            onAuthenticated={(u) => {
+              setUser(u);
+              setShowAuth(false);
+            }}
+          />
         )}
       </AnimatePresence>
 
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { User } from '../lib/types';
+import { useI18n } from './I18n';
+
+interface AuthModalProps {
+  onClose: () => void;
+  onAuthenticated: (user: User) => void;
+}
+
+export default function AuthModal({ onClose, onAuthenticated }: AuthModalProps) {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/auth/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password })
+      });
+      if (!res.ok) {
+        if (res.status === 401) throw new Error(t.auth.wrongCredentials);
+        if (res.status === 409) throw new Error(t.auth.emailTaken);
+        if (res.status === 400) throw new Error(t.auth.invalid);
+        throw new Error(t.common.genericError);
+      }
+      onAuthenticated(await res.json());
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/40 backdrop-blur-sm z-[9999] flex items-center justify-center p-6"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        className="bg-white w-full max-w-md rounded-[40px] shadow-2xl overflow-hidden"
+      >
+        <div className="p-8 border-b border-black/5 flex items-center justify-between">
+          <h2 className="text-2xl font-serif">{mode === 'login' ? t.auth.login : t.auth.createAccount}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+        <form onSubmit={submit} className="p-8 space-y-6">
+          <div className="space-y-2">
+            <label className="text-xs font-bold uppercase tracking-wider text-black/40">{t.auth.email}</label>
+            <input
+              type="email"
+              autoComplete="email"
+              className="w-full bg-transparent border-b-2 border-black/10 py-2 text-lg focus:outline-none focus:border-black transition-colors"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-bold uppercase tracking-wider text-black/40">{t.auth.password}</label>
+            <input
+              type="password"
+              autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+              minLength={8}
+              className="w-full bg-transparent border-b-2 border-black/10 py-2 text-lg focus:outline-none focus:border-black transition-colors"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-black text-white py-4 rounded-2xl font-bold hover:scale-[1.02] active:scale-[0.98] transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {loading && <Loader2 className="w-5 h-5 animate-spin" />}
+            {mode === 'login' ? t.auth.login : t.auth.register}
+          </button>
+          <button
+            type="button"
+            onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setError(null); }}
+            className="w-full text-sm text-black/40 hover:text-black transition-colors"
+          >
+            {mode === 'login' ? t.auth.toRegister : t.auth.toLogin}
+          </button>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,78 @@
+import React, { useMemo } from 'react';
+import { AlertTriangle, Wallet } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { budgetStatus, costBreakdown, COST_CATEGORIES } from '../lib/budget';
+import { formatCost, type Itinerary } from '../lib/itinerary';
+import { useI18n } from './I18n';
+
+interface BudgetPanelProps {
+  plan: Itinerary;
+  travellers: number;
+  limit?: number | null;
+  limitCurrency?: string;
+}
+
+// Estimated spend per category against the traveller's limit
+export default function BudgetPanel({ plan, travellers, limit, limitCurrency }: BudgetPanelProps) {
+  const { t, language } = useI18n();
+  const breakdown = useMemo(() => costBreakdown(plan, travellers), [plan, travellers]);
+  // A limit in another currency can't be compared without exchange rates
+  const comparable = !!limit && (limitCurrency ?? plan.currency) === plan.currency;
+  const status = budgetStatus(breakdown.total, comparable ? limit : null);
+  const cost = (amount: number) => formatCost(amount, plan.currency, language);
+  const format = (amount: number) => amount === 0 ? '—' : cost(amount);
+
+  return (
+    <div className="p-6 rounded-[32px] border border-black/5 bg-white space-y-4 print:break-inside-avoid">
+      <div className="flex items-center justify-between gap-4">
+        <h3 className="text-xs font-bold uppercase tracking-wider text-black/40 flex items-center gap-2">
+          <Wallet className="w-3.5 h-3.5" /> {t.budget.title} · {t.itinerary.travellers(travellers)}
+        </h3>
+        <p className="text-lg font-serif">
+          {cost(breakdown.total)}
+          {comparable && <span className="text-sm text-black/40"> / {cost(limit!)}</span>}
+        </p>
+      </div>
+
+      {comparable && (
+        <div className="h-2 rounded-full bg-black/5 overflow-hidden">
+          <div
+            className={cn(
+              "h-full rounded-full transition-all",
+              status === 'over' ? "bg-red-500" : status === 'near' ? "bg-amber-500" : "bg-emerald-500"
+            )}
+            style={{ width: `${Math.min(100, (breakdown.total / limit!) * 100)}%` }}
+          />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {COST_CATEGORIES.map(category => (
+          <div key={category} className="space-y-1">
+            <p className="text-xs text-black/40">{t.options.costCategories[category]}</p>
+            <p className="font-bold">{format(breakdown[category])}</p>
+          </div>
+        ))}
+      </div>
+
+      {status === 'over' && (
+        <p className="flex items-center gap-2 text-sm text-red-500">
+          <AlertTriangle className="w-4 h-4" />
+          {t.budget.over(cost(breakdown.total - limit!))}
+        </p>
+      )}
+      {status === 'near' && (
+        <p className="flex items-center gap-2 text-sm text-amber-600">
+          <AlertTriangle className="w-4 h-4" />
+          {t.budget.near}
+        </p>
+      )}
+      {!!limit && !comparable && (
+        <p className="flex items-center gap-2 text-sm text-black/40">
+          <AlertTriangle className="w-4 h-4" />
+          {t.budget.otherCurrency(plan.currency, limitCurrency ?? '')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, MessageCircle, Pencil, Reply, ThumbsDown, ThumbsUp, Trash2 } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { tripHeaders } from '../lib/api';
+import { anchorKey } from '../lib/comments';
+import type { Slot } from '../lib/itinerary';
+import type { ActivityVotes, TripComment, TripEvent } from '../lib/types';
+import { useI18n } from './I18n';
+
+export interface Anchor {
+  day?: number;
+  slot?: Slot;
+  activity?: number;
+}
+
+// Comments and votes of one saved trip, shared by every thread and vote button in its view
+export interface Discussion {
+  comments: TripComment[];
+  votes: Map<string, ActivityVotes>;
+  userId: string | null;
+  // Whether the trip's access level allows it; signed out viewers are asked to log in first
+  canComment: boolean;
+  onLogin: () => void;
+  isOwner: boolean;
+  add: (anchor: Anchor, body: string, parentId?: string) => Promise<void>;
+  edit: (id: string, body: string) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  vote: (anchor: Required<Anchor>, value: -1 | 0 | 1) => Promise<void>;
+  // Applies a comment or vote change made by someone else, as pushed on the live channel
+  receive: (event: TripEvent) => void;
+}
+
+export function useDiscussion(
+  tripId: string | null,
+  version: number | null,
+  shareToken: string | null,
+  { userId, canComment, isOwner, onLogin }: Pick<Discussion, 'userId' | 'canComment' | 'isOwner' | 'onLogin'>
+): Discussion | null {
+  const [comments, setComments] = useState<TripComment[]>([]);
+  const [votes, setVotes] = useState(new Map<string, ActivityVotes>());
+
+  useEffect(() => {
+    setComments([]);
+    setVotes(new Map());
+  }, [tripId]);
+
+  // Edits to the plan move anchors on the server, so every new version is fetched again
+  useEffect(() => {
+    if (!tripId) return;
+    const headers = tripHeaders(shareToken);
+    Promise.all([
+      fetch(`/api/itineraries/${tripId}/comments`, { headers }),
+      fetch(`/api/itineraries/${tripId}/votes`, { headers })
+    ]).then(async ([commentsRes, votesRes]) => {
+      if (commentsRes.ok) setComments(await commentsRes.json());
+      if (votesRes.ok) setVotes(new Map((await votesRes.json() as ActivityVotes[]).map(v => [anchorKey(v), v])));
+    }).catch(err => console.error("Error fetching comments", err));
+  }, [tripId, version, shareToken, userId]);
+
+  if (!tripId) return null;
+
+  // Our own changes also come back from the live channel, so adding is idempotent
+  const upsert = (comment: TripComment) => setComments(prev =>
+    prev.some(c => c.id === comment.id) ? prev.map(c => c.id === comment.id ? comment : c) : [...prev, comment]
+  );
+
+  const request = async (path: string, method: string, body?: unknown) => {
+    const res = await fetch(`/api/itineraries/${tripId}/${path}`, {
+      method,
+      headers: tripHeaders(shareToken, body !== undefined),
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+    if (!res.ok) throw new Error((await res.json()).error || `Request failed (${res.status})`);
+    return res.json();
+  };
+
+  return {
+    comments,
+    votes,
+    userId,
+    canComment,
+    onLogin,
+    isOwner,
+    add: async (anchor, body, parentId) => {
+      upsert(await request('comments', 'POST', { ...anchor, body, parent_id: parentId ?? null }));
+    },
+    edit: async (id, body) => {
+      upsert(await request(`comments/${id}`, 'PATCH', { body }));
+    },
+    remove: async (id) => {
+      await request(`comments/${id}`, 'DELETE');
+      setComments(prev => prev.filter(c => c.id !== id && c.parent_id !== id));
+    },
+    vote: async (anchor, value) => {
+      const tally = await request('votes', 'PUT', { ...anchor, value });
+      setVotes(prev => new Map(prev).set(anchorKey(tally), tally));
+    },
+    receive: (event) => {
+      if (event.type === 'comment.added' || event.type === 'comment.updated') upsert(event.comment);
+      if (event.type === 'comment.deleted') setComments(prev => prev.filter(c => c.id !== event.id && c.parent_id !== event.id));
+      if (event.type === 'votes.updated') {
+        const key = anchorKey(event.votes);
+        setVotes(prev => new Map(prev).set(key, { ...event.votes, mine: prev.get(key)?.mine ?? 0 }));
+      }
+    }
+  };
+}
+
+export function VoteButtons({ discussion, anchor }: { discussion: Discussion; anchor: Required<Anchor> }) {
+  const { t } = useI18n();
+  const tally = discussion.votes.get(anchorKey(anchor));
+  const mine = tally?.mine ?? 0;
+  const cast = (value: -1 | 1) => {
+    if (!discussion.userId) return discussion.onLogin();
+    discussion.vote(anchor, mine === value ? 0 : value).catch(err => console.error(err));
+  };
+
+  return (
+    <span className="inline-flex items-center gap-1">
+      <button
+        onClick={() => cast(1)}
+        disabled={!discussion.canComment}
+        title={t.discussion.like}
+        className={cn("flex items-center gap-1 px-2 py-1 rounded-full transition-colors disabled:cursor-default", mine === 1 ? "bg-emerald-500 text-white" : "enabled:hover:bg-black/5")}
+      >
+        <ThumbsUp className="w-3 h-3" /> {tally?.up ?? 0}
+      </button>
+      <button
+        onClick={() => cast(-1)}
+        disabled={!discussion.canComment}
+        title={t.discussion.dislike}
+        className={cn("flex items-center gap-1 px-2 py-1 rounded-full transition-colors disabled:cursor-default", mine === -1 ? "bg-red-500 text-white" : "enabled:hover:bg-black/5")}
+      >
+        <ThumbsDown className="w-3 h-3" /> {tally?.down ?? 0}
+      </button>
+    </span>
+  );
+}
+
+function CommentForm({ initial = '', placeholder, onSubmit, onCancel }: {
+  initial?: string;
+  placeholder: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel?: () => void;
+}) {
+  const { t } = useI18n();
+  const [body, setBody] = useState(initial);
+  const [sending, setSending] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+    setSending(true);
+    try {
+      await onSubmit(body.trim());
+      setBody('');
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="flex items-center gap-2">
+      <input
+        autoFocus={!!onCancel}
+        placeholder={placeholder}
+        className="flex-1 bg-transparent border-b border-black/10 py-1 text-sm focus:outline-none focus:border-black transition-colors placeholder:text-black/30"
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        disabled={sending}
+      />
+      {sending && <Loader2 className="w-3.5 h-3.5 animate-spin text-black/40" />}
+      {onCancel && (
+        <button type="button" onClick={onCancel} className="text-xs text-black/40 hover:text-black">{t.common.cancel}</button>
+      )}
+    </form>
+  );
+}
+
+function CommentItem({ comment, discussion, onReply }: { comment: TripComment; discussion: Discussion; onReply?: () => void }) {
+  const { t, locale } = useI18n();
+  const [editing, setEditing] = useState(false);
+  const mine = comment.author_id === discussion.userId;
+
+  if (editing) {
+    return (
+      <CommentForm
+        initial={comment.body}
+        placeholder={t.discussion.editPlaceholder}
+        onSubmit={async (body) => { await discussion.edit(comment.id, body); setEditing(false); }}
+        onCancel={() => setEditing(false)}
+      />
+    );
+  }
+
+  return (
+    <div className="group/comment">
+      {comment.orphaned_activity && <p className="text-[11px] italic text-black/40">{t.discussion.orphaned(comment.orphaned_activity)}</p>}
+      <p className="text-sm text-black/80 whitespace-pre-wrap">{comment.body}</p>
+      <p className="flex items-center gap-3 text-[11px] text-black/40">
+        <span>{comment.author_email ?? t.discussion.removedUser} · {new Date(`${comment.created_at.replace(' ', 'T')}Z`).toLocaleString(locale, { dateStyle: 'short', timeStyle: 'short' })}{comment.updated_at && ` · ${t.discussion.edited}`}</span>
+        {onReply && discussion.canComment && discussion.userId && (
+          <button onClick={onReply} className="flex items-center gap-1 hover:text-black"><Reply className="w-3 h-3" /> {t.discussion.reply}</button>
+        )}
+        {mine && (
+          <button onClick={() => setEditing(true)} className="hidden group-hover/comment:flex items-center gap-1 hover:text-black"><Pencil className="w-3 h-3" /> {t.common.edit}</button>
+        )}
+        {(mine || discussion.isOwner) && (
+          <button onClick={() => discussion.remove(comment.id).catch(err => console.error(err))} className="hidden group-hover/comment:flex items-center gap-1 hover:text-red-500"><Trash2 className="w-3 h-3" /> {t.common.delete}</button>
+        )}
+      </p>
+    </div>
+  );
+}
+
+// Comments pinned to one anchor, collapsed behind a counter until opened
+export function CommentThread({ discussion, anchor, label }: { discussion: Discussion; anchor: Anchor; label?: string }) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const key = anchorKey(anchor);
+  const thread = discussion.comments.filter(c => anchorKey(c) === key);
+  const roots = thread.filter(c => !c.parent_id);
+
+  if (!open) {
+    if (thread.length === 0 && !discussion.canComment) return null;
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className={cn("inline-flex items-center gap-1 px-2 py-1 rounded-full transition-colors hover:bg-black/5", thread.length > 0 && "text-orange-600")}
+      >
+        <MessageCircle className="w-3 h-3" /> {thread.length > 0 ? thread.length : label ?? t.discussion.comment}
+      </button>
+    );
+  }
+
+  return (
+    <div className="not-prose mt-2 mb-4 p-4 rounded-2xl bg-black/[0.03] space-y-3">
+      {roots.map(root => (
+        <div key={root.id} className="space-y-2">
+          <CommentItem comment={root} discussion={discussion} onReply={() => setReplyTo(root.id)} />
+          <div className="pl-4 border-l-2 border-black/5 space-y-2">
+            {thread.filter(c => c.parent_id === root.id).map(reply => (
+              <CommentItem key={reply.id} comment={reply} discussion={discussion} onReply={() => setReplyTo(root.id)} />
+            ))}
+            {replyTo === root.id && (
+              <CommentForm
+                placeholder={t.discussion.replyPlaceholder}
+                onSubmit={async (body) => { await discussion.add(anchor, body, root.id); setReplyTo(null); }}
+                onCancel={() => setReplyTo(null)}
+              />
+            )}
+          </div>
+        </div>
+      ))}
+      {discussion.canComment && (discussion.userId ? (
+        <CommentForm placeholder={t.discussion.placeholder} onSubmit={(body) => discussion.add(anchor, body)} />
+      ) : (
+        <button onClick={discussion.onLogin} className="text-xs text-black/40 hover:text-black">{t.discussion.loginToComment}</button>
+      ))}
+      <button onClick={() => setOpen(false)} className="text-xs text-black/40 hover:text-black">{t.common.close}</button>
+    </div>
+  );
+}
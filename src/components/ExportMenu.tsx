@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { Calendar, ChevronDown, Download, FileText, Loader2, Map as MapIcon, Navigation } from 'lucide-react';
+import { downloadFile } from '../lib/api';
+import type { SavedTrip } from '../lib/types';
+import { useI18n } from './I18n';
+
+interface ExportMenuProps {
+  trip: SavedTrip;
+  shareToken: string | null;
+  onError: (message: string) => void;
+}
+
+export default function ExportMenu({ trip, shareToken, onError }: ExportMenuProps) {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState<string | null>(null);
+
+  const files = [
+    { file: 'itinerary.pdf', label: 'PDF', icon: FileText },
+    { file: 'itinerary.md', label: 'Markdown', icon: FileText },
+    { file: 'places.gpx', label: t.exports.gpx, icon: Navigation },
+    { file: 'places.geojson', label: 'GeoJSON', icon: MapIcon },
+  ];
+  // The calendar needs a day to place day 1 on
+  const formats = trip.itinerary && trip.start_date
+    ? [...files, { file: 'calendar.ics', label: t.exports.calendar, icon: Calendar }]
+    : files;
+
+  const exportAs = async (file: string) => {
+    setOpen(false);
+    setExporting(file);
+    try {
+      await downloadFile(`/api/itineraries/${trip.id}/${file}`, shareToken);
+    } catch (err) {
+      console.error(err);
+      onError(t.exports.failed);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={!!exporting}
+        className="flex items-center gap-2 px-4 py-2 bg-black/5 text-black rounded-full text-xs font-bold uppercase tracking-wider hover:bg-black/10 transition-colors disabled:opacity-50"
+      >
+        {exporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />}
+        {t.exports.button}
+        <ChevronDown className="w-3 h-3" />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-48 py-2 bg-white border border-black/5 rounded-2xl shadow-xl z-20">
+          {formats.map(({ file, label, icon: Icon }) => (
+            <button
+              key={file}
+              onClick={() => exportAs(file)}
+              className="w-full flex items-center gap-3 px-4 py-2 text-sm text-left hover:bg-black/5 transition-colors"
+            >
+              <Icon className="w-4 h-4 text-black/40" /> {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { Languages } from 'lucide-react';
+import { DEFAULT_LANGUAGE, LANGUAGES, LOCALES, MESSAGES, type Messages } from '../lib/i18n';
+import type { Language } from '../lib/types';
+
+const STORAGE_KEY = 'vagabond-language';
+
+interface I18n {
+  language: Language;
+  // Intl locale of the language, for dates and amounts
+  locale: string;
+  t: Messages;
+  setLanguage: (language: Language) => void;
+}
+
+const I18nContext = createContext<I18n | null>(null);
+
+const isLanguage = (value: string | null): value is Language => LANGUAGES.includes(value as Language);
+
+// The choice made on this device, else the first browser language we have, else Italian
+function initialLanguage(): Language {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLanguage(stored)) return stored;
+  } catch {
+    // Storage can be blocked; the browser languages still apply
+  }
+  return navigator.languages.map(tag => tag.slice(0, 2).toLowerCase()).find(isLanguage) ?? DEFAULT_LANGUAGE;
+}
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [language, setLanguage] = useState(initialLanguage);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    try {
+      localStorage.setItem(STORAGE_KEY, language);
+    } catch {
+      // Not remembered, but still applied for this visit
+    }
+  }, [language]);
+
+  return (
+    <I18nContext.Provider value={{ language, locale: LOCALES[language], t: MESSAGES[language], setLanguage }}>
+      {children}
+    </I18nContext.Provider>
+  );
+}
+
+export function useI18n(): I18n {
+  const i18n = useContext(I18nContext);
+  if (!i18n) throw new Error("useI18n must be used inside I18nProvider");
+  return i18n;
+}
+
+// Interface language picker for the header, each language named in itself
+export default function LanguageSwitcher() {
+  const { language, setLanguage, t } = useI18n();
+
+  return (
+    <label className="flex items-center gap-1.5 text-black/60 hover:text-black transition-colors" title={t.header.language}>
+      <Languages className="w-4 h-4" />
+      <select
+        className="bg-transparent focus:outline-none cursor-pointer"
+        value={language}
+        onChange={(e) => setLanguage(e.target.value as Language)}
+      >
+        {LANGUAGES.map(code => <option key={code} value={code}>{MESSAGES[code].language}</option>)}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Check, Copy, Loader2, Upload } from 'lucide-react';
+import type { ImportReport } from '../lib/types';
+import { useI18n } from './I18n';
+
+interface ImportPanelProps {
+  onImported: () => void;
+}
+
+// A request ready to send twice: once as a dry run, then for real
+interface PendingImport {
+  url: string;
+  body: string;
+}
+
+// Backup or Markdown import: picking files runs a dry run, whose report the user confirms
+export default function ImportPanel({ onImported }: ImportPanelProps) {
+  const { t, language } = useI18n();
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async ({ url, body }: PendingImport, dryRun: boolean) => {
+    const res = await fetch(dryRun ? `${url}?dryRun=true` : url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Import failed');
+    return data as ImportReport;
+  };
+
+  const pickFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setError(null);
+    setReport(null);
+
+    let request: PendingImport;
+    const backup = files.find(file => file.name.toLowerCase().endsWith('.json'));
+    try {
+      if (backup) {
+        request = { url: '/api/import', body: await backup.text() };
+      } else {
+        const contents = await Promise.all(files.map(async file => ({ name: file.name, content: await file.text() })));
+        request = { url: '/api/import/markdown', body: JSON.stringify({ files: contents, language }) };
+      }
+      setBusy(true);
+      setReport(await send(request, true));
+      setPending(request);
+    } catch (err) {
+      console.error(err);
+      setError(t.importer.invalidFile);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const confirm = async () => {
+    if (!pending) return;
+    setBusy(true);
+    try {
+      setReport(await send(pending, false));
+      setPending(null);
+      onImported();
+    } catch (err) {
+      console.error(err);
+      setError(t.importer.failed);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="p-5 rounded-3xl bg-black/[0.02] space-y-4 text-sm">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-black/60">{t.importer.intro}</p>
+        <label className="shrink-0 flex items-center gap-2 px-4 py-2 bg-black text-white rounded-full text-xs font-bold uppercase tracking-wider cursor-pointer hover:bg-black/80 transition-colors">
+          {busy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />} {t.importer.pick}
+          <input type="file" accept=".json,.md,.markdown" multiple className="hidden" onChange={pickFiles} disabled={busy} />
+        </label>
+      </div>
+
+      {error && <p className="text-red-500">{error}</p>}
+
+      {report && (
+        <div className="space-y-2">
+          <p className="font-bold">
+            {report.dryRun
+              ? t.importer.toImport(report.imported.length)
+              : t.importer.imported(report.imported.length)}
+            {report.duplicates.length > 0 && ` · ${t.importer.duplicates(report.duplicates.length)}`}
+            {report.invalid.length > 0 && ` · ${t.importer.invalid(report.invalid.length)}`}
+          </p>
+          <ul className="space-y-1 max-h-40 overflow-y-auto">
+            {report.imported.map(trip => (
+              <li key={trip.id} className="flex items-center gap-2 text-black/60">
+                <Check className="w-3.5 h-3.5 text-emerald-500" /> {trip.title}
+                {trip.revisions > 0 && <span className="text-black/30">{t.importer.revisions(trip.revisions)}</span>}
+              </li>
+            ))}
+            {report.duplicates.map((trip, i) => (
+              <li key={`duplicate-${i}`} className="flex items-center gap-2 text-black/40">
+                <Copy className="w-3.5 h-3.5" /> {trip.title}
+                <span>{t.importer.skipped(trip.reason === 'id' ? t.importer.sameTrip : t.importer.sameContent)}</span>
+              </li>
+            ))}
+            {report.invalid.map(entry => (
+              <li key={`invalid-${entry.index}`} className="flex items-start gap-2 text-red-500">
+                <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                <span>{entry.title ?? t.importer.entry(entry.index + 1)}: {entry.issues.slice(0, 2).join('; ')}</span>
+              </li>
+            ))}
+          </ul>
+          {report.dryRun && pending && report.imported.length > 0 && (
+            <div className="flex items-center gap-2 pt-2">
+              <button
+                onClick={confirm}
+                disabled={busy}
+                className="px-4 py-2 bg-orange-500 text-white rounded-full text-xs font-bold uppercase tracking-wider hover:bg-orange-600 transition-colors disabled:opacity-50"
+              >
+                {t.importer.confirm}
+              </button>
+              <button
+                onClick={() => { setPending(null); setReport(null); }}
+                className="px-4 py-2 text-xs font-bold uppercase tracking-wider text-black/40 hover:text-black transition-colors"
+              >
+                {t.common.cancel}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import { Loader2, Plus, Save, Trash2, X } from 'lucide-react';
+import { tripHeaders } from '../lib/api';
+import { queueEdit } from '../lib/offline';
+import { DEFAULT_LANGUAGE } from '../lib/i18n';
+import { collectLocations, renderItineraryMarkdown, SLOTS, type Itinerary, type ItineraryActivity, type Slot } from '../lib/itinerary';
+import { BUDGET_LEVELS, CURRENCIES, MAX_DURATION, MAX_TRAVELLERS, TRIP_TYPE_IDS, tripDayDate, tripLength } from '../lib/trip';
+import type { BudgetLevel, Currency, SavedTrip, TripType } from '../lib/types';
+import { useI18n } from './I18n';
+
+interface ItineraryEditorProps {
+  trip: SavedTrip;
+  shareToken: string | null;
+  // A newer version saved by someone else while this editor was open
+  remoteTrip?: SavedTrip | null;
+  onSaved: (trip: SavedTrip) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full bg-transparent border-b-2 border-black/10 py-1.5 focus:outline-none focus:border-black transition-colors";
+const labelClass = "text-xs font-bold uppercase tracking-wider text-black/40";
+
+export default function ItineraryEditor({ trip, shareToken, remoteTrip, onSaved, onCancel }: ItineraryEditorProps) {
+  const { t } = useI18n();
+  const [title, setTitle] = useState(trip.title);
+  const [destination, setDestination] = useState(trip.destination);
+  const [duration, setDuration] = useState(String(trip.duration));
+  const [startDate, setStartDate] = useState(trip.start_date ?? '');
+  const [endDate, setEndDate] = useState(trip.end_date ?? '');
+  const [budget, setBudget] = useState(trip.budget);
+  const [budgetAmount, setBudgetAmount] = useState(trip.budget_amount ? String(trip.budget_amount) : '');
+  const [budgetCurrency, setBudgetCurrency] = useState(trip.budget_currency ?? 'EUR');
+  const [travellers, setTravellers] = useState(String(trip.travellers ?? 1));
+  const [type, setType] = useState<TripType>(trip.type);
+  const [content, setContent] = useState(trip.content);
+  const [plan, setPlan] = useState<Itinerary | null>(trip.itinerary ?? null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<SavedTrip | null>(null);
+
+  const updateActivity = (dayIndex: number, slot: Slot, index: number, patch: Partial<ItineraryActivity>) => {
+    if (!plan) return;
+    const days = plan.days.map((day, i) => i !== dayIndex ? day : {
+      ...day,
+      [slot]: day[slot].map((activity, j) => j === index ? { ...activity, ...patch } : activity)
+    });
+    setPlan({ ...plan, days });
+  };
+
+  const removeActivity = (dayIndex: number, slot: Slot, index: number) => {
+    if (!plan) return;
+    const days = plan.days.map((day, i) => i !== dayIndex ? day : {
+      ...day,
+      [slot]: day[slot].filter((_, j) => j !== index)
+    });
+    setPlan({ ...plan, days });
+  };
+
+  // New activities start at the day's first known place so they stay on the map
+  const addActivity = (dayIndex: number, slot: Slot) => {
+    if (!plan) return;
+    const day = plan.days[dayIndex];
+    const anchor = SLOTS.flatMap(s => day[s])[0]?.place ?? { name: destination, lat: 0, lng: 0 };
+    const activity: ItineraryActivity = { title: t.editor.newActivity, description: '', place: { ...anchor }, estimatedCost: 0, proTip: '' };
+    const days = plan.days.map((d, i) => i !== dayIndex ? d : { ...d, [slot]: [...d[slot], activity] });
+    setPlan({ ...plan, days });
+  };
+
+  // With both dates set the duration follows them, unless legs already fix it
+  const changeDates = (start: string, end: string) => {
+    if (trip.legs?.length) end = start ? tripDayDate(start, trip.duration) : '';
+    setStartDate(start);
+    setEndDate(end);
+    if (start && end) setDuration(String(tripLength(start, end)));
+  };
+
+  // Saving over a conflict sends the current version, so our changes replace the other ones
+  const save = async (version = trip.version) => {
+    setSaving(true);
+    setError(null);
+    const body = {
+      title,
+      destination,
+      duration: parseInt(duration),
+      start_date: startDate || null,
+      end_date: endDate || null,
+      budget,
+      budget_amount: budgetAmount ? Number(budgetAmount) : null,
+      budget_currency: budgetCurrency,
+      travellers: parseInt(travellers),
+      type,
+      ...(plan ? { itinerary: plan } : { content }),
+      version
+    };
+    try {
+      let res: Response;
+      try {
+        if (!navigator.onLine) throw new Error("Offline");
+        res = await fetch(`/api/itineraries/${trip.id}`, {
+          method: 'PATCH',
+          headers: tripHeaders(shareToken, true),
+          body: JSON.stringify(body)
+        });
+      } catch {
+        return await saveOffline(body);
+      }
+      if (res.status === 409) {
+        const data = await res.json();
+        setConflict(data.current);
+        setError(t.editor.conflict);
+        return;
+      }
+      if (res.status === 400) throw new Error(t.editor.invalid);
+      if (!res.ok) throw new Error(t.errors.save);
+      setConflict(null);
+      onSaved(await res.json());
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Without a connection the change waits in the queue and shows locally until it syncs
+  const saveOffline = async ({ version, ...changes }: Record<string, unknown> & { version: number }) => {
+    await queueEdit({ tripId: trip.id, title, shareToken, body: { ...changes, version }, queued_at: new Date().toISOString() });
+    onSaved({
+      ...trip,
+      ...changes,
+      content: plan ? renderItineraryMarkdown(plan, trip.language ?? DEFAULT_LANGUAGE) : content,
+      locations: plan ? collectLocations(plan) : trip.locations
+    } as SavedTrip);
+  };
+
+  return (
+    <form onSubmit={(e) => { e.preventDefault(); save(); }} className="space-y-8">
+      {remoteTrip && remoteTrip.version > trip.version && !conflict && (
+        <div className="flex items-center justify-between gap-4 p-4 rounded-2xl bg-orange-50 text-sm text-orange-700">
+          <p>{t.editor.newVersion}</p>
+          <button type="button" onClick={() => onSaved(remoteTrip)} className="font-bold underline whitespace-nowrap">
+            {t.editor.loadLatest}
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label className={labelClass}>{t.editor.title}</label>
+        <input className={`${inputClass} text-2xl font-serif`} value={title} onChange={(e) => setTitle(e.target.value)} required />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+        <div className="space-y-2">
+          <label className={labelClass}>{t.editor.destination}</label>
+          <input className={inputClass} value={destination} onChange={(e) => setDestination(e.target.value)} required />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>{t.editor.duration}</label>
+          <input type="number" min="1" max={MAX_DURATION} className={`${inputClass} disabled:text-black/40`} value={duration} onChange={(e) => setDuration(e.target.value)} disabled={!!(trip.legs?.length || startDate && endDate)} required />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>{t.editor.budgetLevel}</label>
+          <select className={`${inputClass} cursor-pointer`} value={budget} onChange={(e) => setBudget(e.target.value as BudgetLevel)}>
+            {BUDGET_LEVELS.map(level => <option key={level} value={level}>{t.options.budgets[level]}</option>)}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>{t.editor.tripType}</label>
+          <select className={`${inputClass} cursor-pointer`} value={type} onChange={(e) => setType(e.target.value as TripType)}>
+            {TRIP_TYPE_IDS.map(id => <option key={id} value={id}>{t.options.tripTypes[id]}</option>)}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>{t.editor.from}</label>
+          <input type="date" className={inputClass} value={startDate} onChange={(e) => changeDates(e.target.value, endDate)} required={!!endDate} />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>{t.editor.to}</label>
+          <input type="date" min={startDate || undefined} className={inputClass} value={endDate} onChange={(e) => changeDates(startDate, e.target.value)} required={!!startDate} disabled={!!trip.legs?.length} />
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>{t.editor.budgetAmount}</label>
+          <div className="flex gap-2">
+            <input type="number" min="1" step="any" placeholder="—" className={inputClass} value={budgetAmount} onChange={(e) => setBudgetAmount(e.target.value)} />
+            <select className={`${inputClass} w-auto cursor-pointer`} value={budgetCurrency} onChange={(e) => setBudgetCurrency(e.target.value as Currency)}>
+              {CURRENCIES.map(currency => <option key={currency} value={currency}>{currency}</option>)}
+            </select>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label className={labelClass}>{t.editor.travellers}</label>
+          <input type="number" min="1" max={MAX_TRAVELLERS} className={inputClass} value={travellers} onChange={(e) => setTravellers(e.target.value)} required />
+        </div>
+      </div>
+
+      {plan ? (
+        <div className="space-y-8">
+          <div className="space-y-2">
+            <label className={labelClass}>{t.editor.summary}</label>
+            <textarea rows={3} className={`${inputClass} resize-y`} value={plan.summary} onChange={(e) => setPlan({ ...plan, summary: e.target.value })} />
+          </div>
+
+          {plan.days.map((day, dayIndex) => (
+            <div key={day.day} className="space-y-4 border-t border-black/5 pt-6">
+              <div className="flex items-center gap-3">
+                <span className="text-xs font-bold uppercase tracking-widest text-orange-500 whitespace-nowrap">{t.itinerary.day(day.day)}</span>
+                <input
+                  className={`${inputClass} font-serif text-lg`}
+                  value={day.title}
+                  onChange={(e) => setPlan({ ...plan, days: plan.days.map((d, i) => i === dayIndex ? { ...d, title: e.target.value } : d) })}
+                />
+              </div>
+
+              {SLOTS.map(slot => (
+                <div key={slot} className="space-y-3 pl-4">
+                  <div className="flex items-center justify-between">
+                    <span className={labelClass}>{t.options.slots[slot]}</span>
+                    <button type="button" onClick={() => addActivity(dayIndex, slot)} className="flex items-center gap-1 text-xs font-medium text-black/40 hover:text-black transition-colors">
+                      <Plus className="w-3.5 h-3.5" /> {t.editor.add}
+                    </button>
+                  </div>
+                  {day[slot].map((activity, index) => (
+                    <div key={index} className="p-4 border border-black/5 rounded-2xl space-y-3">
+                      <div className="flex items-center gap-3">
+                        <input className={`${inputClass} font-bold`} value={activity.title} onChange={(e) => updateActivity(dayIndex, slot, index, { title: e.target.value })} />
+                        <button type="button" onClick={() => removeActivity(dayIndex, slot, index)} className="p-2 text-red-500 hover:bg-red-50 rounded-xl transition-colors">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <textarea rows={2} placeholder={t.editor.description} className={`${inputClass} text-sm resize-y`} value={activity.description} onChange={(e) => updateActivity(dayIndex, slot, index, { description: e.target.value })} />
+                      <div className="grid grid-cols-[2fr_1fr_1fr_1fr_1fr] gap-3 text-sm">
+                        <input placeholder={t.editor.place} className={inputClass} value={activity.place.name} onChange={(e) => updateActivity(dayIndex, slot, index, { place: { ...activity.place, name: e.target.value } })} />
+                        <input type="number" step="any" min="-90" max="90" title={t.editor.latitude} className={inputClass} value={activity.place.lat} onChange={(e) => updateActivity(dayIndex, slot, index, { place: { ...activity.place, lat: Number(e.target.value) } })} />
+                        <input type="number" step="any" min="-180" max="180" title={t.editor.longitude} className={inputClass} value={activity.place.lng} onChange={(e) => updateActivity(dayIndex, slot, index, { place: { ...activity.place, lng: Number(e.target.value) } })} />
+                        <input type="number" step="any" min="0" title={t.editor.cost(plan.currency)} className={inputClass} value={activity.estimatedCost} onChange={(e) => updateActivity(dayIndex, slot, index, { estimatedCost: Number(e.target.value) })} />
+                        <select title={t.editor.category} className={`${inputClass} cursor-pointer`} value={activity.category ?? 'activities'} onChange={(e) => updateActivity(dayIndex, slot, index, { category: e.target.value as ItineraryActivity['category'] })}>
+                          <option value="activities">{t.options.costCategories.activities}</option>
+                          <option value="food">{t.options.costCategories.food}</option>
+                        </select>
+                      </div>
+                      <input placeholder={t.editor.proTip} className={`${inputClass} text-sm italic`} value={activity.proTip} onChange={(e) => updateActivity(dayIndex, slot, index, { proTip: e.target.value })} />
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <label className={labelClass}>{t.editor.content}</label>
+          <textarea rows={24} className="w-full border border-black/10 rounded-2xl p-4 font-mono text-sm focus:outline-none focus:border-black transition-colors resize-y" value={content} onChange={(e) => setContent(e.target.value)} />
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center justify-between gap-4 text-sm text-red-500">
+          <p>{error}</p>
+          {conflict && (
+            <div className="flex gap-4">
+              <button type="button" onClick={() => onSaved(conflict)} className="font-bold underline whitespace-nowrap">
+                {t.editor.loadLatest}
+              </button>
+              <button type="button" onClick={() => save(conflict.version)} disabled={saving} className="font-bold underline whitespace-nowrap">
+                {t.editor.overwrite}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="flex items-center gap-2 px-4 py-2 bg-black/5 text-black rounded-full text-xs font-bold uppercase tracking-wider hover:bg-black/10 transition-colors">
+          <X className="w-3.5 h-3.5" /> {t.common.cancel}
+        </button>
+        <button type="submit" disabled={saving} className="flex items-center gap-2 px-4 py-2 bg-black text-white rounded-full text-xs font-bold uppercase tracking-wider hover:bg-orange-600 transition-colors disabled:opacity-50">
+          {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />} {t.editor.save}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import Markdown from 'react-markdown';
+import { Loader2, RefreshCw, X } from 'lucide-react';
+import { renderActivityMarkdown, renderDayMarkdown, renderOverviewMarkdown, SLOTS, type Itinerary, type ItineraryDay } from '../lib/itinerary';
+import { tripDayDate } from '../lib/trip';
+import { CommentThread, VoteButtons, type Discussion } from './Discussion';
+import { useI18n } from './I18n';
+
+interface ItineraryViewProps {
+  plan: Itinerary;
+  startDate?: string | null;
+  // Omitted when the viewer may not change the trip
+  onRegenerateDay?: (day: number, instruction: string) => Promise<void>;
+  // Comments and votes, for saved trips only
+  discussion?: Discussion | null;
+}
+
+// The day split into its activities, each with votes and a comment thread
+function DiscussedDay({ day, currency, discussion }: { day: ItineraryDay; currency: string; discussion: Discussion }) {
+  const { t, language } = useI18n();
+  return (
+    <>
+      <Markdown>{`## ${t.itinerary.day(day.day)}: ${day.title}`}</Markdown>
+      <div className="not-prose text-xs text-black/50 -mt-2">
+        <CommentThread discussion={discussion} anchor={{ day: day.day }} label={t.view.commentDay} />
+      </div>
+      {SLOTS.filter(slot => day[slot].length > 0).map(slot => (
+        <React.Fragment key={slot}>
+          <Markdown>{`### ${t.options.slots[slot]}`}</Markdown>
+          {day[slot].map((activity, index) => (
+            <div key={index}>
+              <Markdown>{renderActivityMarkdown(activity, currency, language)}</Markdown>
+              <div className="not-prose flex flex-wrap items-center gap-1 pl-6 -mt-2 text-xs text-black/50">
+                <VoteButtons discussion={discussion} anchor={{ day: day.day, slot, activity: index }} />
+                <CommentThread discussion={discussion} anchor={{ day: day.day, slot, activity: index }} />
+              </div>
+            </div>
+          ))}
+        </React.Fragment>
+      ))}
+    </>
+  );
+}
+
+function DaySection({ day, currency, date, onRegenerate, discussion }: {
+  day: ItineraryDay;
+  currency: string;
+  date?: string;
+  onRegenerate?: (instruction: string) => Promise<void>;
+  discussion?: Discussion | null;
+}) {
+  const { t, language, locale } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const regenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onRegenerate) return;
+    setLoading(true);
+    try {
+      await onRegenerate(instruction.trim());
+      setOpen(false);
+      setInstruction('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <section id={`day-${day.day}`} className="relative scroll-mt-24">
+      {onRegenerate && !open && (
+        <button
+          onClick={() => setOpen(true)}
+          className="absolute right-0 top-0 flex items-center gap-1.5 px-3 py-1.5 bg-black/5 text-black/60 rounded-full text-xs font-bold uppercase tracking-wider hover:bg-black hover:text-white transition-colors print:hidden"
+        >
+          <RefreshCw className="w-3 h-3" /> {t.view.regenerate}
+        </button>
+      )}
+      {open && (
+        <form onSubmit={regenerate} className="mb-6 p-4 bg-orange-50 rounded-2xl flex items-center gap-3 print:hidden">
+          <input
+            autoFocus
+            placeholder={t.view.regeneratePlaceholder}
+            className="flex-1 bg-transparent border-b-2 border-black/10 py-1.5 text-sm focus:outline-none focus:border-black transition-colors placeholder:text-black/30"
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            disabled={loading}
+          />
+          <button
+            type="submit"
+            disabled={loading}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-black text-white rounded-full text-xs font-bold uppercase tracking-wider hover:bg-orange-600 transition-colors disabled:opacity-50"
+          >
+            {loading ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />} {t.view.regenerateDay(day.day)}
+          </button>
+          <button type="button" onClick={() => setOpen(false)} disabled={loading} className="p-1.5 hover:bg-black/5 rounded-full transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </form>
+      )}
+      <div className={loading ? 'opacity-40 transition-opacity' : undefined}>
+        {date && (
+          <p className="not-prose text-xs font-bold uppercase tracking-widest text-orange-500 mt-8 -mb-4">
+            {new Date(date).toLocaleDateString(locale, { weekday: 'long', day: 'numeric', month: 'long', timeZone: 'UTC' })}
+          </p>
+        )}
+        {discussion
+          ? <DiscussedDay day={day} currency={currency} discussion={discussion} />
+          : <Markdown>{renderDayMarkdown(day, currency, language)}</Markdown>}
+      </div>
+    </section>
+  );
+}
+
+// Structured itinerary rendered day by day, so each day can be acted on separately
+export default function ItineraryView({ plan, startDate, onRegenerateDay, discussion }: ItineraryViewProps) {
+  const { t, language } = useI18n();
+  return (
+    <div className="prose prose-slate max-w-none markdown-body">
+      <Markdown>{renderOverviewMarkdown(plan, language)}</Markdown>
+      {discussion && (
+        <div className="not-prose text-xs text-black/50">
+          <CommentThread discussion={discussion} anchor={{}} label={t.view.commentTrip} />
+        </div>
+      )}
+      {plan.days.map(day => (
+        <DaySection
+          key={day.day}
+          day={day}
+          currency={plan.currency}
+          date={startDate ? tripDayDate(startDate, day.day) : undefined}
+          onRegenerate={onRegenerateDay && ((instruction) => onRegenerateDay(day.day, instruction))}
+          discussion={discussion}
+        />
+      ))}
+    </div>
+  );
+}
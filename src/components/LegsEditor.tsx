@@ -0,0 +1,85 @@
+import React from 'react';
+import { ArrowDown, Plus, Trash2 } from 'lucide-react';
+import { MAX_DURATION, MAX_LEGS, TRANSPORT_MODES } from '../lib/trip';
+import type { TransportMode, TripLeg } from '../lib/types';
+import { useI18n } from './I18n';
+
+interface LegsEditorProps {
+  legs: TripLeg[];
+  onChange: (legs: TripLeg[]) => void;
+}
+
+const inputClass = "bg-transparent border-b-2 border-black/10 py-1.5 focus:outline-none focus:border-black transition-colors placeholder:text-black/10";
+
+// Ordered stops of a multi-destination trip, each reached by the transfer shown above it
+export default function LegsEditor({ legs, onChange }: LegsEditorProps) {
+  const { t } = useI18n();
+  const update = (index: number, patch: Partial<TripLeg>) => {
+    onChange(legs.map((leg, i) => i === index ? { ...leg, ...patch } : leg));
+  };
+
+  const remove = (index: number) => {
+    const next = legs.filter((_, i) => i !== index);
+    // The new first leg has nothing to transfer from
+    onChange(next.map((leg, i) => i === 0 ? { ...leg, transfer: null } : leg));
+  };
+
+  return (
+    <div className="space-y-2">
+      {legs.map((leg, index) => (
+        <React.Fragment key={index}>
+          {index > 0 && (
+            <div className="flex items-center gap-2 pl-2 text-xs text-black/40">
+              <ArrowDown className="w-3 h-3" />
+              <select
+                className="bg-transparent font-bold uppercase tracking-wider focus:outline-none cursor-pointer"
+                value={leg.transfer ?? 'train'}
+                onChange={(e) => update(index, { transfer: e.target.value as TransportMode })}
+              >
+                {TRANSPORT_MODES.map(mode => <option key={mode} value={mode}>{t.options.transport[mode]}</option>)}
+              </select>
+            </div>
+          )}
+          <div className="flex items-center gap-3">
+            <span className="w-5 text-xs font-bold text-orange-500">{index + 1}</span>
+            <input
+              type="text"
+              placeholder={t.legs.placeholder}
+              className={`${inputClass} flex-1 text-lg`}
+              value={leg.destination}
+              onChange={(e) => update(index, { destination: e.target.value })}
+              required
+            />
+            <input
+              type="number"
+              min="1"
+              max={MAX_DURATION - 1}
+              title={t.legs.nights}
+              className={`${inputClass} w-14 text-lg text-right`}
+              value={leg.nights}
+              onChange={(e) => update(index, { nights: Math.max(1, parseInt(e.target.value) || 1) })}
+            />
+            <span className="text-xs text-black/40">{t.legs.nightsUnit}</span>
+            <button
+              type="button"
+              onClick={() => remove(index)}
+              disabled={legs.length <= 2}
+              className="p-1.5 text-red-500 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-20 disabled:hover:bg-transparent"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </React.Fragment>
+      ))}
+      {legs.length < MAX_LEGS && (
+        <button
+          type="button"
+          onClick={() => onChange([...legs, { destination: '', nights: 1, transfer: 'train' }])}
+          className="flex items-center gap-1 pl-8 text-xs font-medium text-black/40 hover:text-black transition-colors"
+        >
+          <Plus className="w-3.5 h-3.5" /> {t.legs.add}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pencil } from 'lucide-react';
+import { cn } from '../lib/utils';
+import { LIVE_CLOSE_FORBIDDEN } from '../lib/trip';
+import type { LiveClientMessage, LiveServerMessage, LiveViewer, TripEvent } from '../lib/types';
+import { useI18n } from './I18n';
+
+const MAX_RETRY_MS = 30_000;
+
+// Keeps a WebSocket open on the trip's live channel while it's shown, reconnecting with
+// backoff if it drops. Returns who else has the trip open; events go to onEvent.
+export function useLiveTrip(
+  tripId: string | null,
+  shareToken: string | null,
+  { editing, onEvent }: { editing: boolean; onEvent: (event: TripEvent) => void }
+) {
+  const [viewers, setViewers] = useState<LiveViewer[]>([]);
+  const socketRef = useRef<WebSocket | null>(null);
+  const onEventRef = useRef(onEvent);
+  const editingRef = useRef(editing);
+  onEventRef.current = onEvent;
+  editingRef.current = editing;
+
+  const send = (message: LiveClientMessage) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) socketRef.current.send(JSON.stringify(message));
+  };
+
+  useEffect(() => {
+    setViewers([]);
+    if (!tripId) return;
+
+    let closed = false;
+    let retries = 0;
+    let retryTimer: ReturnType<typeof setTimeout>;
+
+    const connect = () => {
+      const protocol = location.protocol === 'https:' ? 'wss' : 'ws';
+      const query = shareToken ? `?share=${encodeURIComponent(shareToken)}` : '';
+      const socket = new WebSocket(`${protocol}://${location.host}/api/itineraries/${tripId}/live${query}`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        retries = 0;
+        if (editingRef.current) send({ type: 'editing', editing: true });
+      };
+      socket.onmessage = (e) => {
+        const message: LiveServerMessage = JSON.parse(e.data);
+        if (message.type === 'presence') setViewers(message.viewers);
+        else onEventRef.current(message);
+      };
+      socket.onclose = (e) => {
+        setViewers([]);
+        if (closed || e.code === LIVE_CLOSE_FORBIDDEN) return;
+        retryTimer = setTimeout(connect, Math.min(1000 * 2 ** retries++, MAX_RETRY_MS));
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+    };
+  }, [tripId, shareToken]);
+
+  useEffect(() => {
+    send({ type: 'editing', editing });
+  }, [editing]);
+
+  return viewers;
+}
+
+const initials = (name: string) => name.split(/[@.\s]/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join('');
+
+// Avatars of the other people looking at the trip, marked while they edit it
+export default function LivePresence({ viewers }: { viewers: LiveViewer[] }) {
+  const { t } = useI18n();
+  if (viewers.length === 0) return null;
+  const editors = viewers.filter(viewer => viewer.editing);
+  const name = (viewer: LiveViewer) => viewer.name ?? t.presence.guest;
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex -space-x-2">
+        {viewers.slice(0, 5).map(viewer => (
+          <span
+            key={viewer.id}
+            title={viewer.editing ? t.presence.editing(name(viewer)) : name(viewer)}
+            className={cn(
+              "relative w-8 h-8 rounded-full border-2 border-white flex items-center justify-center text-[10px] font-bold",
+              viewer.editing ? "bg-orange-500 text-white" : "bg-black/10 text-black/60"
+            )}
+          >
+            {initials(name(viewer))}
+            {viewer.editing && <Pencil className="absolute -bottom-1 -right-1 w-3.5 h-3.5 p-0.5 bg-white text-orange-500 rounded-full" />}
+          </span>
+        ))}
+        {viewers.length > 5 && (
+          <span className="w-8 h-8 rounded-full border-2 border-white bg-black/5 flex items-center justify-center text-[10px] font-bold text-black/40">
+            +{viewers.length - 5}
+          </span>
+        )}
+      </div>
+      {editors.length > 0 && (
+        <span className="text-xs text-orange-600">
+          {editors.length === 1 ? t.presence.editing(name(editors[0])) : t.presence.editors(editors.length)}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CloudOff, Download, Loader2, MapPin, Trash2, WifiOff, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { cn } from '../lib/utils';
+import {
+  downloadTrip,
+  getOfflineTrip,
+  listOfflineTrips,
+  listQueuedEdits,
+  removeOfflineTrip,
+  resolveConflict,
+  syncQueuedEdits,
+  type OfflineTrip,
+  type QueuedEdit
+} from '../lib/offline';
+import type { ItineraryAccess, SavedTrip } from '../lib/types';
+import { useI18n } from './I18n';
+
+// Tracks the connection and sends edits queued offline as soon as it's back
+export function useOfflineSync(onSynced: (trip: SavedTrip) => void) {
+  const [online, setOnline] = useState(navigator.onLine);
+  const [queued, setQueued] = useState<QueuedEdit[]>([]);
+  // Edits the server refused for good, until the user has seen them
+  const [dropped, setDropped] = useState<QueuedEdit[]>([]);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const refresh = () => listQueuedEdits().then(setQueued).catch(err => console.error("Error reading queued edits", err));
+
+  const sync = async () => {
+    try {
+      const report = await syncQueuedEdits();
+      report.synced.forEach(trip => onSyncedRef.current(trip));
+      if (report.failed.length) setDropped(prev => [...prev, ...report.failed]);
+    } catch (err) {
+      console.error("Error syncing offline edits", err);
+    }
+    refresh();
+  };
+
+  useEffect(() => {
+    const goOnline = () => { setOnline(true); sync(); };
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    if (navigator.onLine) sync(); else refresh();
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, []);
+
+  return {
+    online,
+    queued,
+    conflicts: queued.filter(edit => edit.conflict),
+    dropped,
+    dismissDropped: () => setDropped([]),
+    refresh,
+    resolve: async (edit: QueuedEdit, overwrite: boolean) => {
+      await resolveConflict(edit, overwrite);
+      if (overwrite) await sync(); else await refresh();
+    }
+  };
+}
+
+// Saves the open trip on this device, or removes the saved copy
+export function OfflineButton({ trip, access, shareToken, onError }: {
+  trip: SavedTrip;
+  access: ItineraryAccess;
+  shareToken: string | null;
+  onError: (message: string) => void;
+}) {
+  const { t } = useI18n();
+  const [saved, setSaved] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    getOfflineTrip(trip.id).then(record => setSaved(!!record)).catch(() => setSaved(false));
+  }, [trip.id]);
+
+  const toggle = async () => {
+    try {
+      if (saved) {
+        await removeOfflineTrip(trip.id);
+        setSaved(false);
+      } else {
+        setProgress({ done: 0, total: 0 });
+        await downloadTrip(trip, access, shareToken, (done, total) => setProgress({ done, total }));
+        setSaved(true);
+      }
+    } catch (err) {
+      console.error(err);
+      onError(t.offline.saveFailed);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <button
+      onClick={toggle}
+      disabled={!!progress}
+      title={saved ? t.offline.remove : t.offline.download}
+      className={cn(
+        "flex items-center gap-2 px-4 py-2 rounded-full text-xs font-bold uppercase tracking-wider transition-colors disabled:opacity-50",
+        saved ? "bg-emerald-50 text-emerald-700 hover:bg-emerald-100" : "bg-black/5 text-black hover:bg-black/10"
+      )}
+    >
+      {progress ? (
+        <><Loader2 className="w-3.5 h-3.5 animate-spin" /> {t.offline.maps} {progress.done}/{progress.total}</>
+      ) : saved ? (
+        <><CloudOff className="w-3.5 h-3.5" /> {t.offline.saved}</>
+      ) : (
+        <><Download className="w-3.5 h-3.5" /> {t.offline.downloadButton}</>
+      )}
+    </button>
+  );
+}
+
+// Shown while offline, when edits made offline clash with newer versions, and when some were refused
+export function OfflineBanner({ sync }: { sync: ReturnType<typeof useOfflineSync> }) {
+  const { t } = useI18n();
+  const pending = sync.queued.length - sync.conflicts.length;
+  if (sync.online && sync.conflicts.length === 0 && sync.dropped.length === 0) return null;
+
+  return (
+    <div className="bg-black text-white text-sm">
+      <div className="max-w-6xl mx-auto px-6 py-3 space-y-2">
+        {!sync.online && (
+          <p className="flex items-center gap-2">
+            <WifiOff className="w-4 h-4" /> {t.offline.banner}
+            {pending > 0 && ` ${t.offline.pending(pending)}`}
+          </p>
+        )}
+        {sync.conflicts.map(edit => (
+          <div key={edit.tripId} className="flex flex-wrap items-center gap-x-4 gap-y-1">
+            <span>{t.offline.conflict(edit.title)}</span>
+            <button onClick={() => sync.resolve(edit, true)} className="font-bold underline">{t.offline.overwrite}</button>
+            <button onClick={() => sync.resolve(edit, false)} className="font-bold underline text-white/60">{t.offline.discard}</button>
+          </div>
+        ))}
+        {sync.dropped.length > 0 && (
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+            <span>{t.offline.dropped(sync.dropped.map(edit => edit.title))}</span>
+            <button onClick={sync.dismissDropped} className="font-bold underline text-white/60">{t.common.close}</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function OfflineTripsModal({ onOpen, onClose }: { onOpen: (record: OfflineTrip) => void; onClose: () => void }) {
+  const { t, locale } = useI18n();
+  const [records, setRecords] = useState<OfflineTrip[] | null>(null);
+
+  const fetchRecords = () => listOfflineTrips()
+    .then(list => setRecords(list.sort((a, b) => b.saved_at.localeCompare(a.saved_at))))
+    .catch(err => {
+      console.error("Error reading offline trips", err);
+      setRecords([]);
+    });
+
+  useEffect(() => {
+    fetchRecords();
+  }, []);
+
+  const remove = async (id: string) => {
+    await removeOfflineTrip(id);
+    fetchRecords();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/40 backdrop-blur-sm z-[9999] flex items-center justify-center p-6"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        className="bg-white w-full max-w-2xl rounded-[40px] shadow-2xl overflow-hidden flex flex-col max-h-[80vh]"
+      >
+        <div className="p-8 border-b border-black/5 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-serif">{t.offline.title}</h2>
+            <p className="text-sm text-black/40">{t.offline.subtitle}</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-3">
+          {!records ? (
+            <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 animate-spin text-black/20" /></div>
+          ) : records.length === 0 ? (
+            <p className="text-center text-black/40 py-12">{t.offline.empty}</p>
+          ) : records.map(record => (
+            <div key={record.id} className="flex items-center justify-between gap-4 p-4 border border-black/5 rounded-2xl hover:border-black/20 transition-colors">
+              <button onClick={() => onOpen(record)} className="flex-1 text-left">
+                <h3 className="font-bold">{record.trip.title}</h3>
+                <p className="flex items-center gap-1 text-xs text-black/40">
+                  <MapPin className="w-3 h-3" /> {record.trip.destination} · {t.itinerary.days(record.trip.duration)} · {t.offline.downloadedOn(new Date(record.saved_at).toLocaleDateString(locale))}
+                </p>
+              </button>
+              <button onClick={() => remove(record.id)} title={t.offline.removeDevice} className="p-2 text-red-500 hover:bg-red-50 rounded-xl transition-colors">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
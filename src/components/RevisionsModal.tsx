@@ -0,0 +1,145 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2, RotateCcw, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { cn } from '../lib/utils';
+import { tripHeaders } from '../lib/api';
+import { diffLines } from '../lib/diff';
+import type { ItineraryRevision, ItineraryRevisionSummary, SavedTrip } from '../lib/types';
+import { useI18n } from './I18n';
+
+interface RevisionsModalProps {
+  trip: SavedTrip;
+  shareToken: string | null;
+  canRestore: boolean;
+  onRestored: (trip: SavedTrip) => void;
+  onClose: () => void;
+}
+
+export default function RevisionsModal({ trip, shareToken, canRestore, onRestored, onClose }: RevisionsModalProps) {
+  const { t, locale } = useI18n();
+  const [revisions, setRevisions] = useState<ItineraryRevisionSummary[]>([]);
+  const [selected, setSelected] = useState<ItineraryRevision | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/itineraries/${trip.id}/revisions`, { headers: tripHeaders(shareToken) })
+      .then(res => res.ok ? res.json() : [])
+      .then(setRevisions)
+      .catch(err => console.error("Error fetching revisions", err));
+  }, [trip.id, trip.version]);
+
+  const selectRevision = async (id: number) => {
+    try {
+      const res = await fetch(`/api/itineraries/${trip.id}/revisions/${id}`, { headers: tripHeaders(shareToken) });
+      if (!res.ok) throw new Error("Revision not found");
+      setSelected(await res.json());
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const restore = async () => {
+    if (!selected) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/itineraries/${trip.id}/revisions/${selected.id}/restore`, {
+        method: 'POST',
+        headers: tripHeaders(shareToken)
+      });
+      if (!res.ok) throw new Error("Restore failed");
+      onRestored(await res.json());
+    } catch (err) {
+      setError(t.revisions.restoreFailed);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Changes that turn the selected revision into the current version
+  const diff = useMemo(() => selected ? diffLines(selected.content ?? '', trip.content ?? '') : [], [selected, trip.content]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/40 backdrop-blur-sm z-[9999] flex items-center justify-center p-6"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        className="bg-white w-full max-w-5xl rounded-[40px] shadow-2xl overflow-hidden flex flex-col max-h-[85vh]"
+      >
+        <div className="p-8 border-b border-black/5 flex items-center justify-between">
+          <h2 className="text-2xl font-serif">{t.revisions.title}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+        <div className="flex-1 grid md:grid-cols-[260px_1fr] min-h-0">
+          <div className="overflow-y-auto p-4 space-y-2 border-r border-black/5">
+            {revisions.length === 0 ? (
+              <div className="text-center py-12 text-black/40 text-sm">{t.revisions.empty}</div>
+            ) : (
+              revisions.map(revision => (
+                <button
+                  key={revision.id}
+                  onClick={() => selectRevision(revision.id)}
+                  className={cn(
+                    "w-full text-left p-4 rounded-2xl border transition-all",
+                    selected?.id === revision.id ? "border-black bg-black text-white" : "border-black/5 hover:border-black/20"
+                  )}
+                >
+                  <p className="font-bold text-sm">{t.revisions.version(revision.version)}</p>
+                  <p className={cn("text-xs", selected?.id === revision.id ? "text-white/60" : "text-black/40")}>
+                    {new Date(revision.created_at).toLocaleString(locale)}
+                    {revision.author_email && ` • ${revision.author_email}`}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+          <div className="overflow-y-auto p-6 space-y-4">
+            {!selected ? (
+              <div className="text-center py-12 text-black/40 text-sm">{t.revisions.pick}</div>
+            ) : (
+              <>
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-sm text-black/60">
+                    {t.revisions.from} <strong>{t.revisions.fromVersion(selected.version)}</strong> {t.revisions.to} <strong>{t.revisions.currentVersion(trip.version)}</strong>
+                  </p>
+                  {canRestore && (
+                    <button
+                      onClick={restore}
+                      disabled={loading}
+                      className="flex items-center gap-2 px-4 py-2 bg-black text-white rounded-full text-xs font-bold uppercase tracking-wider hover:bg-orange-600 transition-colors disabled:opacity-50"
+                    >
+                      {loading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />} {t.revisions.restore}
+                    </button>
+                  )}
+                </div>
+                {error && <p className="text-sm text-red-500">{error}</p>}
+                <pre className="text-xs font-mono rounded-2xl border border-black/5 overflow-x-auto">
+                  {diff.map((line, i) => (
+                    <div
+                      key={i}
+                      className={cn(
+                        "px-4 whitespace-pre-wrap",
+                        line.type === 'added' && "bg-emerald-50 text-emerald-800",
+                        line.type === 'removed' && "bg-red-50 text-red-800 line-through decoration-red-300"
+                      )}
+                    >
+                      {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                    </div>
+                  ))}
+                </pre>
+              </>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
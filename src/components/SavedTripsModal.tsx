@@ -0,0 +1,421 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, ExternalLink, FolderPlus, Loader2, Search, SlidersHorizontal, Star, Tag as TagIcon, Trash2, Upload, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { cn } from '../lib/utils';
+import { DEFAULT_PAGE_SIZE, type TripSort } from '../lib/search';
+import { BUDGET_LEVELS, formatTripDates, INTEREST_IDS, MAX_DURATION, TRIP_TYPE_IDS } from '../lib/trip';
+import type { Folder, SavedTrip, SavedTripPage, Tag } from '../lib/types';
+import TripOrganiser from './TripOrganiser';
+import ImportPanel from './ImportPanel';
+import { useI18n } from './I18n';
+import { downloadFile } from '../lib/api';
+
+interface SavedTripsModalProps {
+  onOpen: (trip: SavedTrip) => void;
+  onClose: () => void;
+}
+
+type SortId = 'newest' | 'oldest' | 'updated' | 'title' | 'shortest' | 'longest' | 'relevance';
+
+const SORT_OPTIONS: { id: SortId; sort: TripSort; order?: 'asc' | 'desc' }[] = [
+  { id: 'newest', sort: 'created' },
+  { id: 'oldest', sort: 'created', order: 'asc' },
+  { id: 'updated', sort: 'updated' },
+  { id: 'title', sort: 'title' },
+  { id: 'shortest', sort: 'duration', order: 'asc' },
+  { id: 'longest', sort: 'duration' },
+  { id: 'relevance', sort: 'relevance' },
+];
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const chipClass = (active: boolean) => cn(
+  "px-3 py-1.5 rounded-full text-xs font-medium border transition-all",
+  active ? "bg-black text-white border-black" : "bg-white text-black/60 border-black/5 hover:border-black/20"
+);
+
+const toggle = <T,>(list: T[], item: T) => list.includes(item) ? list.filter(i => i !== item) : [...list, item];
+
+export default function SavedTripsModal({ onOpen, onClose }: SavedTripsModalProps) {
+  const { t, language, locale } = useI18n();
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [types, setTypes] = useState<string[]>([]);
+  const [budgets, setBudgets] = useState<string[]>([]);
+  const [interests, setInterests] = useState<string[]>([]);
+  const [minDuration, setMinDuration] = useState('');
+  const [maxDuration, setMaxDuration] = useState('');
+  const [sortId, setSortId] = useState('newest');
+  const [showFilters, setShowFilters] = useState(false);
+  const [folder, setFolder] = useState<string | null>(null);
+  const [favouritesOnly, setFavouritesOnly] = useState(false);
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [newFolder, setNewFolder] = useState<string | null>(null);
+  const [organising, setOrganising] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [page, setPage] = useState<SavedTripPage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Relevance only means something while searching
+  const sortOptions = SORT_OPTIONS.filter(option => option.sort !== 'relevance' || debouncedQuery);
+  const sort = sortOptions.find(option => option.id === sortId) ?? SORT_OPTIONS[0];
+
+  const buildParams = (cursor?: string) => {
+    const params = new URLSearchParams({ sort: sort.sort, limit: String(DEFAULT_PAGE_SIZE) });
+    if (sort.order) params.set('order', sort.order);
+    if (debouncedQuery) params.set('q', debouncedQuery);
+    if (types.length) params.set('type', types.join(','));
+    if (budgets.length) params.set('budget', budgets.join(','));
+    interests.forEach(interest => params.append('interests', interest));
+    tagFilter.forEach(tag => params.append('tag', tag));
+    if (folder) params.set('folder', folder);
+    if (favouritesOnly) params.set('favourite', 'true');
+    if (minDuration) params.set('minDuration', minDuration);
+    if (maxDuration) params.set('maxDuration', maxDuration);
+    if (cursor) params.set('cursor', cursor);
+    return params;
+  };
+
+  // Answers to superseded searches are dropped, so typing fast can't show stale results
+  const fetchPage = async (cursor?: string) => {
+    const request = ++latestRequest.current;
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/itineraries?${buildParams(cursor)}`);
+      if (!res.ok) throw new Error("Search failed");
+      const next: SavedTripPage = await res.json();
+      if (request !== latestRequest.current) return;
+      setPage(prev => cursor && prev ? { ...next, items: [...prev.items, ...next.items] } : next);
+    } catch (err) {
+      console.error("Error fetching saved trips", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPage();
+  }, [debouncedQuery, types, budgets, interests, tagFilter, folder, favouritesOnly, minDuration, maxDuration, sort.id]);
+
+  // Folder and tag lists, with their trip counts
+  const fetchCollections = async () => {
+    try {
+      const [foldersRes, tagsRes] = await Promise.all([fetch('/api/folders'), fetch('/api/tags')]);
+      if (foldersRes.ok) setFolders(await foldersRes.json());
+      if (tagsRes.ok) setTags(await tagsRes.json());
+    } catch (err) {
+      console.error("Error fetching folders and tags", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchCollections();
+  }, []);
+
+  const deleteTrip = async (id: string) => {
+    try {
+      await fetch(`/api/itineraries/${id}`, { method: 'DELETE' });
+      fetchPage();
+      fetchCollections();
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const updateTrip = (id: string, patch: Partial<SavedTrip>) => {
+    setPage(prev => prev && { ...prev, items: prev.items.map(trip => trip.id === id ? { ...trip, ...patch } : trip) });
+    if ('folder_id' in patch || 'tags' in patch) fetchCollections();
+  };
+
+  const toggleFavourite = async (trip: SavedTrip) => {
+    try {
+      const res = await fetch(`/api/itineraries/${trip.id}/favourite`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ favourite: !trip.favourite })
+      });
+      if (res.ok) updateTrip(trip.id, await res.json());
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const createFolder = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newFolder?.trim();
+    if (!name) return setNewFolder(null);
+    try {
+      const res = await fetch('/api/folders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name })
+      });
+      if (res.ok) {
+        setNewFolder(null);
+        fetchCollections();
+      }
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  // Trips in the folder stay saved and just leave it
+  const deleteFolder = async (id: string) => {
+    try {
+      await fetch(`/api/folders/${id}`, { method: 'DELETE' });
+      setFolder(null);
+      fetchCollections();
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const deleteTag = async (id: string) => {
+    try {
+      await fetch(`/api/tags/${id}`, { method: 'DELETE' });
+      setTagFilter(tagFilter.filter(t => t !== id));
+      fetchCollections();
+      fetchPage();
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const activeFilters = types.length + budgets.length + interests.length + tagFilter.length + (minDuration ? 1 : 0) + (maxDuration ? 1 : 0);
+  const filtering = !!debouncedQuery || activeFilters > 0 || !!folder || favouritesOnly;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/40 backdrop-blur-sm z-[9999] flex items-center justify-center p-6"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        className="bg-white w-full max-w-2xl rounded-[40px] shadow-2xl overflow-hidden flex flex-col max-h-[80vh]"
+      >
+        <div className="p-8 border-b border-black/5 space-y-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-2xl font-serif">{t.saved.title}</h2>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => downloadFile('/api/backup', null).catch(err => console.error(err))}
+                title={t.saved.backup}
+                className="p-2 text-black/40 hover:text-black hover:bg-black/5 rounded-full transition-colors"
+              >
+                <Download className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowImport(!showImport)}
+                title={t.saved.import}
+                className={cn("p-2 rounded-full transition-colors", showImport ? "bg-black text-white" : "text-black/40 hover:text-black hover:bg-black/5")}
+              >
+                <Upload className="w-5 h-5" />
+              </button>
+              <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+          </div>
+
+          {showImport && <ImportPanel onImported={() => { fetchPage(); fetchCollections(); }} />}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button type="button" onClick={() => { setFolder(null); setFavouritesOnly(false); }} className={chipClass(!folder && !favouritesOnly)}>
+              {t.saved.all}
+            </button>
+            <button type="button" onClick={() => setFavouritesOnly(!favouritesOnly)} className={cn(chipClass(favouritesOnly), "flex items-center gap-1")}>
+              <Star className="w-3 h-3" /> {t.saved.favourites}
+            </button>
+            {folders.map(f => (
+              <span key={f.id} className={cn(chipClass(folder === f.id), "flex items-center gap-1.5")}>
+                <button type="button" onClick={() => setFolder(folder === f.id ? null : f.id)}>
+                  {f.name} <span className="opacity-50">{f.trip_count}</span>
+                </button>
+                {folder === f.id && (
+                  <button type="button" title={t.saved.deleteFolder} onClick={() => deleteFolder(f.id)} className="hover:text-red-300">
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </span>
+            ))}
+            {newFolder === null ? (
+              <button type="button" onClick={() => setNewFolder('')} className="flex items-center gap-1 px-2 py-1.5 text-xs font-medium text-black/40 hover:text-black transition-colors">
+                <FolderPlus className="w-3.5 h-3.5" /> {t.saved.folder}
+              </button>
+            ) : (
+              <form onSubmit={createFolder}>
+                <input
+                  autoFocus
+                  placeholder={t.saved.folderPlaceholder}
+                  className="w-32 bg-transparent border-b border-black/10 py-1 text-xs focus:outline-none focus:border-black transition-colors"
+                  value={newFolder}
+                  onChange={(e) => setNewFolder(e.target.value)}
+                  onBlur={() => !newFolder.trim() && setNewFolder(null)}
+                />
+              </form>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <div className="flex-1 flex items-center gap-2 border-b-2 border-black/10 focus-within:border-black transition-colors">
+              <Search className="w-4 h-4 text-black/40" />
+              <input
+                type="search"
+                placeholder={t.saved.search}
+                className="w-full bg-transparent py-2 focus:outline-none placeholder:text-black/20"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+              />
+            </div>
+            <select
+              className="bg-transparent border-b-2 border-black/10 py-2 text-sm focus:outline-none focus:border-black transition-colors cursor-pointer"
+              value={sort.id}
+              onChange={(e) => setSortId(e.target.value)}
+            >
+              {sortOptions.map(option => <option key={option.id} value={option.id}>{t.saved.sort[option.id]}</option>)}
+            </select>
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className={cn("flex items-center gap-1.5 p-2 rounded-xl text-xs font-bold transition-colors", showFilters ? "bg-black text-white" : "hover:bg-black/5")}
+            >
+              <SlidersHorizontal className="w-4 h-4" /> {activeFilters > 0 && activeFilters}
+            </button>
+          </div>
+
+          {showFilters && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {TRIP_TYPE_IDS.map(id => (
+                  <button key={id} type="button" onClick={() => setTypes(toggle(types, id))} className={chipClass(types.includes(id))}>
+                    {t.options.tripTypes[id]}
+                  </button>
+                ))}
+                {BUDGET_LEVELS.map(level => (
+                  <button key={level} type="button" onClick={() => setBudgets(toggle(budgets, level))} className={chipClass(budgets.includes(level))}>
+                    {t.options.budgets[level]}
+                  </button>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {INTEREST_IDS.map(interest => (
+                  <button key={interest} type="button" onClick={() => setInterests(toggle(interests, interest))} className={chipClass(interests.includes(interest))}>
+                    {t.options.interests[interest]}
+                  </button>
+                ))}
+              </div>
+              {tags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {tags.map(tag => (
+                    <span key={tag.id} className={cn(chipClass(tagFilter.includes(tag.id)), "flex items-center gap-1.5")}>
+                      <button type="button" onClick={() => setTagFilter(toggle(tagFilter, tag.id))} className="flex items-center gap-1">
+                        <TagIcon className="w-3 h-3" /> {tag.name}
+                      </button>
+                      {tagFilter.includes(tag.id) && (
+                        <button type="button" title={t.saved.deleteTag} onClick={() => deleteTag(tag.id)} className="hover:text-red-300">
+                          <X className="w-3 h-3" />
+                        </button>
+                      )}
+                    </span>
+                  ))}
+                </div>
+              )}
+              <div className="flex items-center gap-3 text-sm text-black/60">
+                <span>{t.saved.durationFrom}</span>
+                <input type="number" min="1" max={MAX_DURATION} className="w-16 bg-transparent border-b-2 border-black/10 py-1 focus:outline-none focus:border-black" value={minDuration} onChange={(e) => setMinDuration(e.target.value)} />
+                <span>{t.saved.durationTo}</span>
+                <input type="number" min="1" max={MAX_DURATION} className="w-16 bg-transparent border-b-2 border-black/10 py-1 focus:outline-none focus:border-black" value={maxDuration} onChange={(e) => setMaxDuration(e.target.value)} />
+                <span>{t.saved.durationUnit}</span>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-4">
+          {page && page.items.length === 0 ? (
+            <div className="text-center py-12 text-black/40">
+              {filtering ? t.saved.noMatches : t.saved.empty}
+            </div>
+          ) : (
+            page?.items.map(trip => (
+              <div key={trip.id} className="group p-6 border border-black/5 rounded-3xl hover:border-black/20 transition-all">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <h4 className="font-bold text-lg">{trip.title}</h4>
+                    <p className="text-sm text-black/40">
+                      {trip.destination} • {trip.start_date && trip.end_date ? formatTripDates(trip.start_date, trip.end_date, language) : t.itinerary.days(trip.duration)} • {new Date(trip.created_at).toLocaleDateString(locale)}
+                    </p>
+                    {(trip.tags?.length ?? 0) > 0 && (
+                      <div className="flex flex-wrap gap-1.5 pt-1">
+                        {trip.tags!.map(tag => (
+                          <span key={tag.id} className="px-2 py-0.5 bg-orange-50 text-orange-600 rounded-full text-[10px] font-bold uppercase tracking-wider">{tag.name}</span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => toggleFavourite(trip)}
+                      title={trip.favourite ? t.saved.unfavourite : t.saved.favourite}
+                      className={cn("p-3 rounded-xl transition-all", trip.favourite ? "text-amber-500 bg-amber-50" : "text-black/20 hover:text-amber-500")}
+                    >
+                      <Star className={cn("w-4 h-4", trip.favourite && "fill-current")} />
+                    </button>
+                    <button
+                      onClick={() => setOrganising(organising === trip.id ? null : trip.id)}
+                      title={t.saved.organise}
+                      className={cn("p-3 rounded-xl transition-all", organising === trip.id ? "bg-black text-white" : "bg-black/5 hover:bg-black hover:text-white")}
+                    >
+                      <TagIcon className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => onOpen(trip)}
+                      className="p-3 bg-black/5 rounded-xl hover:bg-black hover:text-white transition-all"
+                    >
+                      <ExternalLink className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => deleteTrip(trip.id)}
+                      className="p-3 bg-red-50 text-red-500 rounded-xl hover:bg-red-500 hover:text-white transition-all"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                {organising === trip.id && (
+                  <TripOrganiser
+                    trip={trip}
+                    folders={folders}
+                    tags={tags}
+                    onUpdated={(patch) => updateTrip(trip.id, patch)}
+                    onTagCreated={(tag) => setTags([...tags, tag])}
+                  />
+                )}
+              </div>
+            ))
+          )}
+
+          {page?.nextCursor && (
+            <button
+              onClick={() => fetchPage(page.nextCursor!)}
+              disabled={loading}
+              className="w-full flex items-center justify-center gap-2 py-3 text-xs font-bold uppercase tracking-wider text-black/40 hover:text-black transition-colors disabled:opacity-50"
+            >
+              {loading && <Loader2 className="w-3.5 h-3.5 animate-spin" />} {t.saved.more(page.total - page.items.length)}
+            </button>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
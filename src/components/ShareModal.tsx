@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Copy, Loader2, Trash2, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import { cn } from '../lib/utils';
+import type { ShareAccess, ShareLink } from '../lib/types';
+import { useI18n } from './I18n';
+
+const ACCESS_LEVELS: ShareAccess[] = ['view', 'comment', 'edit'];
+
+export function shareUrl(token: string) {
+  return `${window.location.origin}?trip=${token}`;
+}
+
+interface ShareModalProps {
+  tripId: string;
+  onClose: () => void;
+}
+
+export default function ShareModal({ tripId, onClose }: ShareModalProps) {
+  const { t, locale } = useI18n();
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [access, setAccess] = useState<ShareAccess>('view');
+  const [expiresInDays, setExpiresInDays] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [tripId]);
+
+  const fetchLinks = async () => {
+    try {
+      const res = await fetch(`/api/itineraries/${tripId}/shares`);
+      if (res.ok) setLinks(await res.json());
+    } catch (err) {
+      console.error("Error fetching share links", err);
+    }
+  };
+
+  const createLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError(null);
+    try {
+      const days = parseInt(expiresInDays);
+      const res = await fetch(`/api/itineraries/${tripId}/shares`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          access,
+          expiresAt: days > 0 ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null
+        })
+      });
+      if (!res.ok) throw new Error("Share failed");
+      const link: ShareLink = await res.json();
+      setLinks([link, ...links]);
+      copyLink(link.token);
+    } catch (err) {
+      setError(t.share.failed);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const revokeLink = async (token: string) => {
+    try {
+      await fetch(`/api/itineraries/${tripId}/shares/${token}`, { method: 'DELETE' });
+      setLinks(links.filter(l => l.token !== token));
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  const copyLink = (token: string) => {
+    navigator.clipboard.writeText(shareUrl(token));
+    setCopiedToken(token);
+    setTimeout(() => setCopiedToken(null), 2000);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/40 backdrop-blur-sm z-[9999] flex items-center justify-center p-6"
+    >
+      <motion.div
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        className="bg-white w-full max-w-xl rounded-[40px] shadow-2xl overflow-hidden flex flex-col max-h-[80vh]"
+      >
+        <div className="p-8 border-b border-black/5 flex items-center justify-between">
+          <h2 className="text-2xl font-serif">{t.share.title}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-black/5 rounded-full transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={createLink} className="p-8 border-b border-black/5 space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {ACCESS_LEVELS.map(level => (
+              <button
+                key={level}
+                type="button"
+                onClick={() => setAccess(level)}
+                className={cn(
+                  "px-3 py-2 rounded-xl text-xs font-medium border transition-all",
+                  access === level
+                    ? "bg-black text-white border-black"
+                    : "bg-white text-black/60 border-black/5 hover:border-black/20"
+                )}
+              >
+                {t.options.access[level]}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-4">
+            <label className="text-xs font-bold uppercase tracking-wider text-black/40 whitespace-nowrap">{t.share.expiresAfter}</label>
+            <input
+              type="number"
+              min="1"
+              placeholder={t.share.never}
+              className="w-full bg-transparent border-b-2 border-black/10 py-1 focus:outline-none focus:border-black transition-colors placeholder:text-black/20"
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(e.target.value)}
+            />
+          </div>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-orange-500 text-white py-3 rounded-2xl font-bold text-sm uppercase tracking-wider hover:bg-orange-600 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            {loading && <Loader2 className="w-4 h-4 animate-spin" />}
+            {t.share.create}
+          </button>
+        </form>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-3">
+          {links.length === 0 ? (
+            <div className="text-center py-6 text-black/40">{t.share.empty}</div>
+          ) : (
+            links.map(link => (
+              <div key={link.token} className="p-4 border border-black/5 rounded-2xl flex items-center justify-between gap-4">
+                <div className="space-y-1 min-w-0">
+                  <p className="font-bold text-sm">{t.options.access[link.access]}</p>
+                  <p className="text-xs text-black/40 truncate">
+                    {link.expires_at ? t.share.expires(new Date(link.expires_at).toLocaleDateString(locale)) : t.share.noExpiry}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => copyLink(link.token)}
+                    className="p-3 bg-black/5 rounded-xl hover:bg-black hover:text-white transition-all"
+                  >
+                    {copiedToken === link.token ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => revokeLink(link.token)}
+                    title={t.share.revoke}
+                    className="p-3 bg-red-50 text-red-500 rounded-xl hover:bg-red-500 hover:text-white transition-all"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,143 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MapContainer, TileLayer, Marker, Polyline, Tooltip, useMap } from 'react-leaflet';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { cn } from '../lib/utils';
+import { SLOTS, type Itinerary, type Slot } from '../lib/itinerary';
+import type { Messages } from '../lib/i18n';
+import { TILE_URL } from '../lib/offline';
+import type { MapLocation } from '../lib/types';
+import { useI18n } from './I18n';
+
+// One colour per day, reused in order for longer trips
+const DAY_COLOURS = ['#ea580c', '#2563eb', '#16a34a', '#9333ea', '#db2777', '#0891b2', '#ca8a04', '#4f46e5'];
+const ROUTE_COLOUR = '#1a1a1a';
+const MAX_FIT_ZOOM = 15;
+
+interface MapStop {
+  name: string;
+  lat: number;
+  lng: number;
+  title?: string;
+  slot?: Slot;
+}
+
+interface MapDay {
+  day: number | null;
+  label: string;
+  colour: string;
+  stops: MapStop[];
+}
+
+const dayColour = (index: number) => DAY_COLOURS[index % DAY_COLOURS.length];
+
+// Visits grouped by day in visiting order; trips without a structured plan get a single layer of places
+function mapDays(plan: Itinerary | null, locations: MapLocation[], t: Messages): MapDay[] {
+  if (!plan) return locations.length ? [{ day: null, label: t.map.places, colour: dayColour(0), stops: locations }] : [];
+  return plan.days
+    .map((day, index) => ({
+      day: day.day,
+      label: t.itinerary.day(day.day),
+      colour: dayColour(index),
+      stops: SLOTS.flatMap(slot => day[slot].map(activity => ({ ...activity.place, title: activity.title, slot })))
+    }))
+    .filter(day => day.stops.length > 0);
+}
+
+const numberedIcon = (number: number, colour: string) => L.divIcon({
+  className: '',
+  html: `<span class="flex items-center justify-center w-7 h-7 rounded-full border-2 border-white shadow-md text-white text-xs font-bold" style="background:${colour}">${number}</span>`,
+  iconSize: [28, 28],
+  iconAnchor: [14, 14],
+  tooltipAnchor: [14, 0]
+});
+
+// Jumps to the day in the itinerary below; the offset keeps it clear of the sticky header
+const scrollToDay = (day: number) => {
+  document.getElementById(`day-${day}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+};
+
+function FitBounds({ points }: { points: [number, number][] }) {
+  const map = useMap();
+  useEffect(() => {
+    if (points.length > 0) map.fitBounds(points, { padding: [32, 32], maxZoom: MAX_FIT_ZOOM });
+  }, [map, JSON.stringify(points)]);
+  return null;
+}
+
+export default function TripMap({ plan, locations }: { plan: Itinerary | null; locations: MapLocation[] }) {
+  const { t } = useI18n();
+  const days = useMemo(() => mapDays(plan, locations, t), [plan, locations, t]);
+  // Route between the legs of a multi-destination trip
+  const route = useMemo(() => (plan?.route ?? []).map(stop => [stop.place.lat, stop.place.lng] as [number, number]), [plan]);
+  const [hidden, setHidden] = useState<Set<number | null>>(new Set());
+
+  const visible = days.filter(day => !hidden.has(day.day));
+  const points = [
+    ...visible.flatMap(day => day.stops.map(stop => [stop.lat, stop.lng] as [number, number])),
+    ...(route.length > 1 ? route : [])
+  ];
+  if (days.length === 0) return null;
+
+  const toggleDay = (day: number | null) => setHidden(prev => {
+    const next = new Set(prev);
+    if (!next.delete(day)) next.add(day);
+    return next;
+  });
+
+  return (
+    <div className="space-y-3">
+      {days.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => setHidden(new Set())}
+            className={cn("px-3 py-1.5 rounded-full text-xs font-medium border transition-all", hidden.size === 0 ? "bg-black text-white border-black" : "bg-white text-black/60 border-black/5 hover:border-black/20")}
+          >
+            {t.map.allDays}
+          </button>
+          {days.map(day => (
+            <button
+              key={day.day}
+              onClick={() => toggleDay(day.day)}
+              className={cn("flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium border transition-all", hidden.has(day.day) ? "bg-white text-black/30 border-black/5" : "bg-white text-black border-black/20")}
+            >
+              <span className="w-2.5 h-2.5 rounded-full" style={{ background: hidden.has(day.day) ? '#d4d4d4' : day.colour }} />
+              {day.label}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="h-[360px] w-full rounded-[32px] overflow-hidden border border-black/5 shadow-sm z-0">
+        <MapContainer center={[days[0].stops[0].lat, days[0].stops[0].lng]} zoom={13} style={{ height: '100%', width: '100%' }}>
+          <TileLayer url={TILE_URL} />
+          <FitBounds points={points} />
+          {route.length > 1 && (
+            <Polyline positions={route} pathOptions={{ color: ROUTE_COLOUR, weight: 2, dashArray: '6 8', opacity: 0.5 }} />
+          )}
+          {visible.map(day => (
+            <React.Fragment key={day.day}>
+              {day.stops.length > 1 && (
+                <Polyline positions={day.stops.map(stop => [stop.lat, stop.lng] as [number, number])} pathOptions={{ color: day.colour, weight: 3, opacity: 0.8 }} />
+              )}
+              {day.stops.map((stop, index) => (
+                <Marker
+                  key={index}
+                  position={[stop.lat, stop.lng]}
+                  icon={numberedIcon(index + 1, day.colour)}
+                  eventHandlers={day.day !== null ? { click: () => scrollToDay(day.day!) } : undefined}
+                >
+                  <Tooltip>
+                    <strong>{day.day !== null ? `${day.label} · ${index + 1}` : index + 1}</strong>
+                    {stop.slot && ` · ${t.options.slots[stop.slot]}`}
+                    <br />
+                    {stop.title ? `${stop.title} — ${stop.name}` : stop.name}
+                  </Tooltip>
+                </Marker>
+              ))}
+            </React.Fragment>
+          ))}
+        </MapContainer>
+      </div>
+    </div>
+  );
+}
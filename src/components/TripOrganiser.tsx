@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { cn } from '../lib/utils';
+import type { Folder, SavedTrip, Tag } from '../lib/types';
+import { useI18n } from './I18n';
+
+interface TripOrganiserProps {
+  trip: SavedTrip;
+  folders: Folder[];
+  tags: Tag[];
+  onUpdated: (patch: Partial<SavedTrip>) => void;
+  onTagCreated: (tag: Tag) => void;
+}
+
+// Folder and tag assignment for one saved trip, shown inline in the saved-trips list
+export default function TripOrganiser({ trip, folders, tags, onUpdated, onTagCreated }: TripOrganiserProps) {
+  const { t } = useI18n();
+  const [newTag, setNewTag] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const assigned = trip.tags ?? [];
+
+  const put = async (setting: string, body: unknown) => {
+    const res = await fetch(`/api/itineraries/${trip.id}/${setting}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    if (!res.ok) throw new Error(`Could not update ${setting}`);
+    return res.json();
+  };
+
+  const moveToFolder = async (folderId: string | null) => {
+    setError(null);
+    try {
+      await put('folder', { folder_id: folderId });
+      onUpdated({ folder_id: folderId });
+    } catch (err) {
+      setError(t.organiser.moveFailed);
+    }
+  };
+
+  const saveTags = async (tagIds: string[]) => {
+    setError(null);
+    try {
+      onUpdated({ tags: await put('tags', { tag_ids: tagIds }) });
+    } catch (err) {
+      setError(t.organiser.tagsFailed);
+    }
+  };
+
+  const createTag = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newTag.trim();
+    if (!name) return;
+    setError(null);
+
+    // Reuse an existing tag with the same name rather than failing on the duplicate
+    const existing = tags.find(tag => tag.name.toLowerCase() === name.toLowerCase());
+    let tag = existing;
+    if (!tag) {
+      const res = await fetch('/api/tags', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name })
+      });
+      if (!res.ok) {
+        setError(t.organiser.createTagFailed);
+        return;
+      }
+      tag = await res.json() as Tag;
+      onTagCreated(tag);
+    }
+    setNewTag('');
+    if (!assigned.some(t => t.id === tag!.id)) saveTags([...assigned.map(t => t.id), tag.id]);
+  };
+
+  return (
+    <div className="pt-4 mt-4 border-t border-black/5 space-y-3 text-sm">
+      <div className="flex items-center gap-3">
+        <span className="text-xs font-bold uppercase tracking-wider text-black/40 w-20">{t.organiser.folder}</span>
+        <select
+          className="bg-transparent border-b-2 border-black/10 py-1 focus:outline-none focus:border-black transition-colors cursor-pointer"
+          value={trip.folder_id ?? ''}
+          onChange={(e) => moveToFolder(e.target.value || null)}
+        >
+          <option value="">{t.organiser.none}</option>
+          {folders.map(folder => <option key={folder.id} value={folder.id}>{folder.name}</option>)}
+        </select>
+      </div>
+      <div className="flex items-start gap-3">
+        <span className="text-xs font-bold uppercase tracking-wider text-black/40 w-20 pt-1.5">{t.organiser.tags}</span>
+        <div className="flex-1 flex flex-wrap items-center gap-2">
+          {tags.map(tag => {
+            const active = assigned.some(t => t.id === tag.id);
+            return (
+              <button
+                key={tag.id}
+                type="button"
+                onClick={() => saveTags(active ? assigned.filter(t => t.id !== tag.id).map(t => t.id) : [...assigned.map(t => t.id), tag.id])}
+                className={cn(
+                  "px-2.5 py-1 rounded-full text-xs font-medium border transition-all",
+                  active ? "bg-orange-500 text-white border-orange-500" : "bg-white text-black/60 border-black/5 hover:border-black/20"
+                )}
+              >
+                {tag.name}
+              </button>
+            );
+          })}
+          <form onSubmit={createTag} className="flex items-center gap-1">
+            <input
+              placeholder={t.organiser.newTag}
+              className="w-32 bg-transparent border-b border-black/10 py-1 text-xs focus:outline-none focus:border-black transition-colors"
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+            />
+            <button type="submit" className="p-1 text-black/40 hover:text-black transition-colors">
+              <Plus className="w-3.5 h-3.5" />
+            </button>
+          </form>
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+}
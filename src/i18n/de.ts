@@ -0,0 +1,330 @@
+import type { Messages } from '../lib/i18n';
+
+const de: Messages = {
+  language: 'Deutsch',
+  languages: { it: 'Italienisch', en: 'Englisch', de: 'Deutsch' },
+
+  options: {
+    tripTypes: { adventurous: 'Abenteuerlich', relax: 'Erholsam', cultural: 'Kulturell', foodie: 'Kulinarisch' },
+    budgets: { economy: 'Günstig', standard: 'Mittel', luxury: 'Luxus' },
+    interests: {
+      food: 'Essen & Trinken',
+      art: 'Kunst',
+      nature: 'Natur',
+      adventure: 'Abenteuer',
+      nightlife: 'Nachtleben',
+      shopping: 'Shopping',
+      history: 'Geschichte',
+      relax: 'Entspannung',
+    },
+    activities: {
+      guided_tours: 'Führungen',
+      hiking: 'Wandern',
+      cooking_classes: 'Kochkurse',
+      self_guided: 'Auf eigene Faust',
+      water_sports: 'Wassersport',
+      museums: 'Museen',
+    },
+    transport: { train: 'Zug', car: 'Auto', bus: 'Bus', flight: 'Flug', ferry: 'Fähre' },
+    slots: { morning: 'Vormittag', afternoon: 'Nachmittag', evening: 'Abend' },
+    costCategories: { lodging: 'Unterkunft', transport: 'Verkehr', food: 'Essen', activities: 'Aktivitäten' },
+    access: { view: 'Nur lesen', comment: 'Darf kommentieren', edit: 'Darf bearbeiten' },
+  },
+
+  itinerary: {
+    day: (day: number) => `Tag ${day}`,
+    days: (count: number) => count === 1 ? '1 Tag' : `${count} Tage`,
+    nights: (count: number) => count === 1 ? '1 Nacht' : `${count} Nächte`,
+    travellers: (count: number) => count === 1 ? '1 Reisender' : `${count} Reisende`,
+    route: 'Route',
+    lodging: 'Unterkunft',
+    transport: 'Verkehr',
+    free: 'Kostenlos',
+    untitled: (destination: string) => `Reise nach ${destination}`,
+    imported: 'Importierte Reise',
+    estimatedCost: 'Geschätzte Kosten',
+    tip: 'Tipp',
+    pdfHeading: 'Vagabond · Reiseplan',
+    pdfColumns: { slot: 'Zeit', activity: 'Aktivität', place: 'Ort', cost: 'Kosten' },
+  },
+
+  common: {
+    cancel: 'Abbrechen',
+    close: 'Schließen',
+    edit: 'Bearbeiten',
+    delete: 'Löschen',
+    genericError: 'Es ist ein Fehler aufgetreten. Bitte später erneut versuchen.',
+  },
+
+  header: {
+    myTrips: 'Meine Reisen',
+    offline: 'Offline',
+    logout: 'Abmelden',
+    login: 'Anmelden',
+    support: 'Hilfe',
+    language: 'Sprache',
+  },
+
+  form: {
+    titleLine: 'Plane deine',
+    titleAccent: 'maßgeschneiderte Reise.',
+    legs: 'Etappen',
+    destination: 'Reiseziel',
+    singleDestination: 'Ein Ziel',
+    multipleLegs: 'Mehrere Etappen',
+    destinationPlaceholder: 'z. B. Tokio, Paris, Bali...',
+    from: 'Vom',
+    to: 'Bis',
+    duration: 'Dauer (Tage)',
+    durationFromLegs: 'Aus den Etappen berechnet',
+    durationFromDates: 'Aus den Daten berechnet',
+    budgetLevel: 'Preisklasse',
+    budgetAmount: 'Gesamtbudget',
+    optional: 'Optional',
+    travellers: 'Reisende',
+    interests: 'Interessen',
+    activities: 'Aktivitäten',
+    tripType: 'Reisestil',
+    outputLanguage: 'Sprache des Reiseplans',
+    generating: 'Wird erstellt...',
+    submit: 'Reiseplan erstellen',
+  },
+
+  legs: {
+    placeholder: 'z. B. Florenz',
+    nights: 'Nächte',
+    nightsUnit: 'Nächte',
+    add: 'Etappe hinzufügen',
+  },
+
+  result: {
+    emptyTitle: 'Beginne dein Abenteuer',
+    emptyText: 'Gib die Details deiner Reise ein, um einen vollständigen Reiseplan mit Unterkünften und Verbindungen zu erstellen.',
+    loading: 'Wir entwerfen deine perfekte Reise...',
+    badge: 'Vagabond-Reiseplan',
+    streaming: (day: number, total: number) => `Tag ${day} von ${total} ist unterwegs...`,
+    stop: 'Anhalten',
+    cancelled: (days: number, total: number) => `Erstellung nach ${days} von ${total} Tagen abgebrochen.`,
+    keepDraft: 'Entwurf behalten',
+    discard: 'Verwerfen',
+    save: 'Reise speichern',
+    claim: 'Zu meinen Reisen hinzufügen',
+    claimTitle: 'Diese Reise wurde vor den Konten gespeichert und hat noch keinen Eigentümer',
+    share: 'Link teilen',
+    variant: 'Neue Variante',
+    variantTitle: 'Einen anderen Reiseplan mit denselben Angaben erstellen',
+    edit: 'Bearbeiten',
+    history: 'Verlauf',
+    print: 'Drucken',
+    updatedBy: (email: string) => `Aktualisiert von ${email}`,
+    updated: 'Reiseplan aktualisiert',
+  },
+
+  errors: {
+    sharedTrip: 'Der geteilte Reiseplan konnte nicht geladen werden.',
+    generation: 'Beim Erstellen ist ein Fehler aufgetreten. Bitte später erneut versuchen.',
+    save: 'Fehler beim Speichern.',
+    claim: 'Die Reise konnte nicht hinzugefügt werden: Vielleicht hat sie schon jemand anderes übernommen.',
+    deleted: 'Diese Reise wurde von ihrem Eigentümer gelöscht.',
+    regenerate: 'Der Tag konnte nicht neu erstellt werden. Bitte später erneut versuchen.',
+    quotaExceeded: 'Du hast das Tageslimit für erstellte Reisepläne erreicht. Bitte morgen erneut versuchen.',
+    rateLimited: (seconds: number) => `Zu viele Anfragen in kurzer Zeit. Bitte in ${seconds} Sekunden erneut versuchen.`,
+    rateLimitedSoon: 'Zu viele Anfragen in kurzer Zeit. Bitte gleich erneut versuchen.',
+  },
+
+  view: {
+    commentDay: 'Tag kommentieren',
+    commentTrip: 'Reise kommentieren',
+    regenerate: 'Neu erstellen',
+    regeneratePlaceholder: 'z. B. mehr Museen, weniger Fußwege (optional)',
+    regenerateDay: (day: number) => `Tag ${day} neu erstellen`,
+  },
+
+  budget: {
+    title: 'Geschätztes Budget',
+    over: (amount: string) => `Der Plan überschreitet das Budget um ${amount}.`,
+    near: 'Der Plan liegt nahe an der Budgetgrenze.',
+    otherCurrency: (costs: string, limit: string) => `Die Kosten sind in ${costs}, das Budget in ${limit}: kein Vergleich möglich.`,
+  },
+
+  map: {
+    places: 'Orte',
+    allDays: 'Alle Tage',
+  },
+
+  editor: {
+    newVersion: 'Während du bearbeitet hast, wurde eine neue Version gespeichert.',
+    loadLatest: 'Neueste Version laden',
+    title: 'Titel',
+    destination: 'Reiseziel',
+    duration: 'Dauer (Tage)',
+    budgetLevel: 'Preisklasse',
+    tripType: 'Stil',
+    from: 'Vom',
+    to: 'Bis',
+    budgetAmount: 'Gesamtbudget',
+    travellers: 'Reisende',
+    summary: 'Einleitung',
+    add: 'Hinzufügen',
+    newActivity: 'Neue Aktivität',
+    description: 'Beschreibung',
+    place: 'Ort',
+    latitude: 'Breitengrad',
+    longitude: 'Längengrad',
+    cost: (currency: string) => `Kosten (${currency})`,
+    category: 'Ausgabenkategorie',
+    proTip: 'Profi-Tipp',
+    content: 'Inhalt (Markdown)',
+    conflict: 'Jemand anderes hat diese Reise inzwischen geändert.',
+    invalid: 'Bitte die Felder prüfen: Einige Werte sind ungültig.',
+    overwrite: 'Mit meinen Änderungen überschreiben',
+    save: 'Änderungen speichern',
+  },
+
+  auth: {
+    login: 'Anmelden',
+    createAccount: 'Konto erstellen',
+    email: 'E-Mail',
+    password: 'Passwort',
+    register: 'Registrieren',
+    toRegister: 'Noch kein Konto? Registrieren',
+    toLogin: 'Schon ein Konto? Anmelden',
+    wrongCredentials: 'E-Mail oder Passwort falsch.',
+    emailTaken: 'Diese E-Mail ist bereits registriert.',
+    invalid: 'Gib eine gültige E-Mail und ein Passwort mit mindestens 8 Zeichen ein.',
+  },
+
+  share: {
+    title: 'Reise teilen',
+    expiresAfter: 'Läuft ab nach (Tagen)',
+    never: 'Nie',
+    create: 'Link erstellen und kopieren',
+    failed: 'Der Link zum Teilen konnte nicht erstellt werden.',
+    empty: 'Keine aktiven Links.',
+    expires: (date: string) => `Läuft am ${date} ab`,
+    noExpiry: 'Kein Ablaufdatum',
+    revoke: 'Widerrufen',
+  },
+
+  revisions: {
+    title: 'Änderungsverlauf',
+    empty: 'Keine früheren Versionen.',
+    version: (version: number) => `Version ${version}`,
+    pick: 'Wähle eine Version, um sie mit der aktuellen zu vergleichen.',
+    fromVersion: (version: number) => `Version ${version}`,
+    currentVersion: (version: number) => `aktuelle Version (${version})`,
+    from: 'Von',
+    to: 'bis',
+    restore: 'Wiederherstellen',
+    restoreFailed: 'Diese Version konnte nicht wiederhergestellt werden.',
+  },
+
+  discussion: {
+    like: 'Gefällt mir',
+    dislike: 'Gefällt mir nicht',
+    editPlaceholder: 'Kommentar bearbeiten',
+    removedUser: 'Gelöschter Nutzer',
+    edited: 'bearbeitet',
+    orphaned: (title: string) => `Zu „${title}“, nicht mehr im Plan`,
+    reply: 'Antworten',
+    comment: 'Kommentieren',
+    replyPlaceholder: 'Antworten…',
+    placeholder: 'Kommentar schreiben…',
+    loginToComment: 'Zum Kommentieren anmelden',
+  },
+
+  presence: {
+    guest: 'Gast',
+    editing: (name: string) => `${name} bearbeitet gerade`,
+    editors: (count: number) => `${count} Personen bearbeiten gerade`,
+  },
+
+  exports: {
+    button: 'Exportieren',
+    gpx: 'GPX (Navigationsgeräte)',
+    calendar: 'Kalender',
+    failed: 'Der Reiseplan konnte nicht exportiert werden.',
+  },
+
+  saved: {
+    title: 'Meine gespeicherten Reisen',
+    backup: 'Sicherung aller Reisen herunterladen',
+    import: 'Reisen importieren',
+    all: 'Alle',
+    favourites: 'Favoriten',
+    deleteFolder: 'Ordner löschen',
+    folder: 'Ordner',
+    folderPlaceholder: 'z. B. Sommer 2027',
+    search: 'Nach Titel, Reiseziel oder Inhalt suchen...',
+    deleteTag: 'Schlagwort löschen',
+    durationFrom: 'Dauer von',
+    durationTo: 'bis',
+    durationUnit: 'Tage',
+    noMatches: 'Keine Reise entspricht der Suche.',
+    empty: 'Du hast noch keine Reise gespeichert.',
+    unfavourite: 'Aus Favoriten entfernen',
+    favourite: 'Zu Favoriten hinzufügen',
+    organise: 'Ordner und Schlagwörter',
+    more: (count: number) => `Weitere laden (${count})`,
+    sort: {
+      newest: 'Neueste',
+      oldest: 'Älteste',
+      updated: 'Zuletzt bearbeitet',
+      title: 'Titel (A-Z)',
+      shortest: 'Kürzeste',
+      longest: 'Längste',
+      relevance: 'Relevanz',
+    },
+  },
+
+  organiser: {
+    folder: 'Ordner',
+    none: 'Keiner',
+    tags: 'Schlagwörter',
+    newTag: 'Neues Schlagwort',
+    moveFailed: 'Die Reise konnte nicht verschoben werden.',
+    tagsFailed: 'Die Schlagwörter konnten nicht aktualisiert werden.',
+    createTagFailed: 'Das Schlagwort konnte nicht erstellt werden.',
+  },
+
+  importer: {
+    intro: 'Importiere eine Sicherung (.json) oder einen oder mehrere Reisepläne in Markdown (.md).',
+    pick: 'Dateien auswählen',
+    invalidFile: 'Die Datei ist keine gültige Sicherung und kein gültiges Markdown.',
+    failed: 'Import fehlgeschlagen.',
+    toImport: (count: number) => `${count} zu importieren`,
+    imported: (count: number) => `${count} importiert`,
+    duplicates: (count: number) => `${count} bereits vorhanden`,
+    invalid: (count: number) => `${count} ungültig`,
+    revisions: (count: number) => `(${count} frühere Versionen)`,
+    sameTrip: 'dieselbe Reise',
+    sameContent: 'derselbe Inhalt',
+    skipped: (reason: string) => `(${reason}, übersprungen)`,
+    entry: (index: number) => `Eintrag ${index}`,
+    confirm: 'Import bestätigen',
+  },
+
+  offline: {
+    saveFailed: 'Die Reise konnte nicht für die Offline-Nutzung gespeichert werden.',
+    remove: 'Offline-Kopie entfernen',
+    download: 'Reiseplan und Karten auf diesem Gerät speichern',
+    maps: 'Karten',
+    saved: 'Offline',
+    downloadButton: 'Herunterladen',
+    banner: 'Du bist offline: Heruntergeladene Reisen bleiben verfügbar.',
+    pending: (count: number) => count === 1
+      ? '1 Änderung wird gesendet, sobald die Verbindung zurück ist.'
+      : `${count} Änderungen werden gesendet, sobald die Verbindung zurück ist.`,
+    conflict: (title: string) => `Offline-Änderungen an „${title}“ stehen im Konflikt mit einer neueren Version.`,
+    overwrite: 'Überschreiben',
+    discard: 'Meine Änderungen verwerfen',
+    dropped: (titles: string[]) => `Offline-Änderungen an ${titles.map(title => `„${title}“`).join(', ')} wurden nicht gespeichert: Die Reise wurde gelöscht oder du darfst sie nicht mehr bearbeiten.`,
+    title: 'Offline-Reisen',
+    subtitle: 'Auf diesem Gerät gespeichert, mit Karten der Orte',
+    empty: 'Keine heruntergeladenen Reisen. Öffne eine Reise und wähle „Herunterladen“, um sie auch ohne Verbindung zu haben.',
+    downloadedOn: (date: string) => `heruntergeladen am ${date}`,
+    removeDevice: 'Vom Gerät entfernen',
+  },
+};
+
+export default de;
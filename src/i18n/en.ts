@@ -0,0 +1,330 @@
+import type { Messages } from '../lib/i18n';
+
+const en: Messages = {
+  language: 'English',
+  languages: { it: 'Italian', en: 'English', de: 'German' },
+
+  options: {
+    tripTypes: { adventurous: 'Adventurous', relax: 'Relaxing', cultural: 'Cultural', foodie: 'Foodie' },
+    budgets: { economy: 'Budget', standard: 'Mid-range', luxury: 'Luxury' },
+    interests: {
+      food: 'Food & Drink',
+      art: 'Art',
+      nature: 'Nature',
+      adventure: 'Adventure',
+      nightlife: 'Nightlife',
+      shopping: 'Shopping',
+      history: 'History',
+      relax: 'Relaxation',
+    },
+    activities: {
+      guided_tours: 'Guided Tours',
+      hiking: 'Hiking',
+      cooking_classes: 'Cooking Classes',
+      self_guided: 'Self-guided Exploring',
+      water_sports: 'Water Sports',
+      museums: 'Museums',
+    },
+    transport: { train: 'Train', car: 'Car', bus: 'Bus', flight: 'Flight', ferry: 'Ferry' },
+    slots: { morning: 'Morning', afternoon: 'Afternoon', evening: 'Evening' },
+    costCategories: { lodging: 'Lodging', transport: 'Transport', food: 'Food', activities: 'Activities' },
+    access: { view: 'View only', comment: 'Can comment', edit: 'Can edit' },
+  },
+
+  itinerary: {
+    day: (day: number) => `Day ${day}`,
+    days: (count: number) => count === 1 ? '1 day' : `${count} days`,
+    nights: (count: number) => count === 1 ? '1 night' : `${count} nights`,
+    travellers: (count: number) => count === 1 ? '1 traveller' : `${count} travellers`,
+    route: 'Route',
+    lodging: 'Lodging',
+    transport: 'Transport',
+    free: 'Free',
+    untitled: (destination: string) => `Trip to ${destination}`,
+    imported: 'Imported trip',
+    estimatedCost: 'Estimated cost',
+    tip: 'Tip',
+    pdfHeading: 'Vagabond · Itinerary',
+    pdfColumns: { slot: 'Time', activity: 'Activity', place: 'Place', cost: 'Cost' },
+  },
+
+  common: {
+    cancel: 'Cancel',
+    close: 'Close',
+    edit: 'Edit',
+    delete: 'Delete',
+    genericError: 'Something went wrong. Please try again later.',
+  },
+
+  header: {
+    myTrips: 'My trips',
+    offline: 'Offline',
+    logout: 'Log out',
+    login: 'Log in',
+    support: 'Support',
+    language: 'Language',
+  },
+
+  form: {
+    titleLine: 'Plan your',
+    titleAccent: 'tailor-made trip.',
+    legs: 'Stops',
+    destination: 'Destination',
+    singleDestination: 'One destination',
+    multipleLegs: 'Several stops',
+    destinationPlaceholder: 'E.g. Tokyo, Paris, Bali...',
+    from: 'From',
+    to: 'To',
+    duration: 'Duration (days)',
+    durationFromLegs: 'Worked out from the stops',
+    durationFromDates: 'Worked out from the dates',
+    budgetLevel: 'Price range',
+    budgetAmount: 'Total budget',
+    optional: 'Optional',
+    travellers: 'Travellers',
+    interests: 'Interests',
+    activities: 'Activities',
+    tripType: 'Travel Style',
+    outputLanguage: 'Itinerary language',
+    generating: 'Generating...',
+    submit: 'Create Itinerary',
+  },
+
+  legs: {
+    placeholder: 'E.g. Florence',
+    nights: 'Nights',
+    nightsUnit: 'nights',
+    add: 'Add stop',
+  },
+
+  result: {
+    emptyTitle: 'Start your adventure',
+    emptyText: 'Enter the details of your trip to generate a full itinerary with lodging and transport.',
+    loading: 'Sketching out your perfect trip...',
+    badge: 'Vagabond Itinerary',
+    streaming: (day: number, total: number) => `Day ${day} of ${total} on its way...`,
+    stop: 'Stop',
+    cancelled: (days: number, total: number) => `Generation stopped after ${days} of ${total} days.`,
+    keepDraft: 'Keep draft',
+    discard: 'Discard',
+    save: 'Save Trip',
+    claim: 'Add to my trips',
+    claimTitle: 'This trip was saved before accounts existed and has no owner yet',
+    share: 'Share Link',
+    variant: 'New variant',
+    variantTitle: 'Generate a different itinerary from the same details',
+    edit: 'Edit',
+    history: 'History',
+    print: 'Print',
+    updatedBy: (email: string) => `Updated by ${email}`,
+    updated: 'Itinerary updated',
+  },
+
+  errors: {
+    sharedTrip: 'Couldn\'t load the shared itinerary.',
+    generation: 'Something went wrong while generating. Please try again later.',
+    save: 'Couldn\'t save the trip.',
+    claim: 'Couldn\'t add the trip: someone else may have taken it already.',
+    deleted: 'This trip has been deleted by its owner.',
+    regenerate: 'Couldn\'t regenerate the day. Please try again later.',
+    quotaExceeded: 'You\'ve reached the daily limit of generated itineraries. Please try again tomorrow.',
+    rateLimited: (seconds: number) => `Too many requests in a short time. Try again in ${seconds} seconds.`,
+    rateLimitedSoon: 'Too many requests in a short time. Try again shortly.',
+  },
+
+  view: {
+    commentDay: 'Comment on this day',
+    commentTrip: 'Comment on the trip',
+    regenerate: 'Regenerate',
+    regeneratePlaceholder: 'E.g. more museums, less walking (optional)',
+    regenerateDay: (day: number) => `Regenerate day ${day}`,
+  },
+
+  budget: {
+    title: 'Estimated budget',
+    over: (amount: string) => `The plan is ${amount} over budget.`,
+    near: 'The plan is close to the budget limit.',
+    otherCurrency: (costs: string, limit: string) => `Costs are in ${costs} and the budget in ${limit}, so they can't be compared.`,
+  },
+
+  map: {
+    places: 'Places',
+    allDays: 'All days',
+  },
+
+  editor: {
+    newVersion: 'A new version was saved while you were editing.',
+    loadLatest: 'Load the latest version',
+    title: 'Title',
+    destination: 'Destination',
+    duration: 'Duration (days)',
+    budgetLevel: 'Price range',
+    tripType: 'Style',
+    from: 'From',
+    to: 'To',
+    budgetAmount: 'Total budget',
+    travellers: 'Travellers',
+    summary: 'Introduction',
+    add: 'Add',
+    newActivity: 'New activity',
+    description: 'Description',
+    place: 'Place',
+    latitude: 'Latitude',
+    longitude: 'Longitude',
+    cost: (currency: string) => `Cost (${currency})`,
+    category: 'Spending category',
+    proTip: 'Pro tip',
+    content: 'Content (Markdown)',
+    conflict: 'Someone else has changed this trip in the meantime.',
+    invalid: 'Check the fields: some values aren\'t valid.',
+    overwrite: 'Overwrite with my changes',
+    save: 'Save changes',
+  },
+
+  auth: {
+    login: 'Log in',
+    createAccount: 'Create an account',
+    email: 'Email',
+    password: 'Password',
+    register: 'Sign up',
+    toRegister: 'No account yet? Sign up',
+    toLogin: 'Already have an account? Log in',
+    wrongCredentials: 'Wrong email or password.',
+    emailTaken: 'This email is already registered.',
+    invalid: 'Enter a valid email and a password of at least 8 characters.',
+  },
+
+  share: {
+    title: 'Share trip',
+    expiresAfter: 'Expires after (days)',
+    never: 'Never',
+    create: 'Create and copy link',
+    failed: 'Couldn\'t create the share link.',
+    empty: 'No active links.',
+    expires: (date: string) => `Expires on ${date}`,
+    noExpiry: 'No expiry',
+    revoke: 'Revoke',
+  },
+
+  revisions: {
+    title: 'Edit history',
+    empty: 'No earlier versions.',
+    version: (version: number) => `Version ${version}`,
+    pick: 'Pick a version to compare it with the current one.',
+    fromVersion: (version: number) => `version ${version}`,
+    currentVersion: (version: number) => `current version (${version})`,
+    from: 'From',
+    to: 'to',
+    restore: 'Restore',
+    restoreFailed: 'Couldn\'t restore this version.',
+  },
+
+  discussion: {
+    like: 'Like',
+    dislike: 'Dislike',
+    editPlaceholder: 'Edit the comment',
+    removedUser: 'Deleted user',
+    edited: 'edited',
+    orphaned: (title: string) => `About “${title}”, no longer in the plan`,
+    reply: 'Reply',
+    comment: 'Comment',
+    replyPlaceholder: 'Reply…',
+    placeholder: 'Write a comment…',
+    loginToComment: 'Log in to comment',
+  },
+
+  presence: {
+    guest: 'Guest',
+    editing: (name: string) => `${name} is editing`,
+    editors: (count: number) => `${count} people are editing`,
+  },
+
+  exports: {
+    button: 'Export',
+    gpx: 'GPX (sat navs)',
+    calendar: 'Calendar',
+    failed: 'Couldn\'t export the itinerary.',
+  },
+
+  saved: {
+    title: 'My saved trips',
+    backup: 'Download a backup of all trips',
+    import: 'Import trips',
+    all: 'All',
+    favourites: 'Favourites',
+    deleteFolder: 'Delete folder',
+    folder: 'Folder',
+    folderPlaceholder: 'E.g. Summer 2027',
+    search: 'Search by title, destination or content...',
+    deleteTag: 'Delete tag',
+    durationFrom: 'Duration from',
+    durationTo: 'to',
+    durationUnit: 'days',
+    noMatches: 'No trips match your search.',
+    empty: 'You haven\'t saved any trips yet.',
+    unfavourite: 'Remove from favourites',
+    favourite: 'Add to favourites',
+    organise: 'Folder and tags',
+    more: (count: number) => `Load more (${count})`,
+    sort: {
+      newest: 'Newest',
+      oldest: 'Oldest',
+      updated: 'Recently edited',
+      title: 'Title (A-Z)',
+      shortest: 'Shortest',
+      longest: 'Longest',
+      relevance: 'Relevance',
+    },
+  },
+
+  organiser: {
+    folder: 'Folder',
+    none: 'None',
+    tags: 'Tags',
+    newTag: 'New tag',
+    moveFailed: 'Couldn\'t move the trip.',
+    tagsFailed: 'Couldn\'t update the tags.',
+    createTagFailed: 'Couldn\'t create the tag.',
+  },
+
+  importer: {
+    intro: 'Import a backup (.json) or one or more Markdown itineraries (.md).',
+    pick: 'Choose files',
+    invalidFile: 'The file isn\'t a valid backup or Markdown file.',
+    failed: 'Import failed.',
+    toImport: (count: number) => `${count} to import`,
+    imported: (count: number) => `${count} imported`,
+    duplicates: (count: number) => `${count} already there`,
+    invalid: (count: number) => `${count} invalid`,
+    revisions: (count: number) => `(${count} earlier versions)`,
+    sameTrip: 'same trip',
+    sameContent: 'same content',
+    skipped: (reason: string) => `(${reason}, skipped)`,
+    entry: (index: number) => `Entry ${index}`,
+    confirm: 'Confirm import',
+  },
+
+  offline: {
+    saveFailed: 'Couldn\'t save the trip for offline use.',
+    remove: 'Remove the offline copy',
+    download: 'Save itinerary and maps on this device',
+    maps: 'Maps',
+    saved: 'Offline',
+    downloadButton: 'Download',
+    banner: 'You\'re offline: downloaded trips are still available.',
+    pending: (count: number) => count === 1
+      ? '1 change will be sent when the connection is back.'
+      : `${count} changes will be sent when the connection is back.`,
+    conflict: (title: string) => `Offline changes to “${title}” clash with a newer version.`,
+    overwrite: 'Overwrite',
+    discard: 'Discard my changes',
+    dropped: (titles: string[]) => `Offline changes to ${titles.map(title => `“${title}”`).join(', ')} weren't saved: the trip was deleted or you can no longer edit it.`,
+    title: 'Offline trips',
+    subtitle: 'Saved on this device, with maps of the places',
+    empty: 'No downloaded trips. Open a trip and choose "Download" to have it without a connection too.',
+    downloadedOn: (date: string) => `downloaded on ${date}`,
+    removeDevice: 'Remove from device',
+  },
+};
+
+export default en;
@@ -0,0 +1,332 @@
+// Italian strings: the reference catalogue, whose shape every other language must follow.
+// Entries that depend on a count or a name are functions.
+const it = {
+  language: 'Italiano',
+  // Names of the itinerary languages, as shown in this language
+  languages: { it: 'Italiano', en: 'Inglese', de: 'Tedesco' },
+
+  options: {
+    tripTypes: { adventurous: 'Avventuroso', relax: 'Relax', cultural: 'Culturale', foodie: 'Gastronomico' },
+    budgets: { economy: 'Economico', standard: 'Medio', luxury: 'Lusso' },
+    interests: {
+      food: 'Gastronomia',
+      art: 'Arte',
+      nature: 'Natura',
+      adventure: 'Avventura',
+      nightlife: 'Vita Notturna',
+      shopping: 'Shopping',
+      history: 'Storia',
+      relax: 'Relax',
+    },
+    activities: {
+      guided_tours: 'Visite Guidate',
+      hiking: 'Escursioni',
+      cooking_classes: 'Corsi di Cucina',
+      self_guided: 'Esplorazione Indipendente',
+      water_sports: 'Sport Acquatici',
+      museums: 'Musei',
+    },
+    transport: { train: 'Treno', car: 'Auto', bus: 'Autobus', flight: 'Aereo', ferry: 'Traghetto' },
+    slots: { morning: 'Mattina', afternoon: 'Pomeriggio', evening: 'Sera' },
+    costCategories: { lodging: 'Alloggio', transport: 'Trasporti', food: 'Cibo', activities: 'Attività' },
+    access: { view: 'Sola lettura', comment: 'Può commentare', edit: 'Può modificare' },
+  },
+
+  // Wording of itineraries themselves: Markdown, exports and the itinerary view
+  itinerary: {
+    day: (day: number) => `Giorno ${day}`,
+    days: (count: number) => count === 1 ? '1 giorno' : `${count} giorni`,
+    nights: (count: number) => count === 1 ? '1 notte' : `${count} notti`,
+    travellers: (count: number) => count === 1 ? '1 viaggiatore' : `${count} viaggiatori`,
+    route: 'Percorso',
+    lodging: 'Alloggio',
+    transport: 'Trasporti',
+    free: 'Gratis',
+    untitled: (destination: string) => `Viaggio a ${destination}`,
+    imported: 'Viaggio importato',
+    estimatedCost: 'Costo stimato',
+    tip: 'Consiglio',
+    pdfHeading: 'Vagabond · Itinerario',
+    pdfColumns: { slot: 'Momento', activity: 'Attività', place: 'Luogo', cost: 'Costo' },
+  },
+
+  common: {
+    cancel: 'Annulla',
+    close: 'Chiudi',
+    edit: 'Modifica',
+    delete: 'Elimina',
+    genericError: 'Si è verificato un errore. Riprova più tardi.',
+  },
+
+  header: {
+    myTrips: 'I miei viaggi',
+    offline: 'Offline',
+    logout: 'Esci',
+    login: 'Accedi',
+    support: 'Supporto',
+    language: 'Lingua',
+  },
+
+  form: {
+    titleLine: 'Pianifica il tuo',
+    titleAccent: 'viaggio su misura.',
+    legs: 'Tappe',
+    destination: 'Destinazione',
+    singleDestination: 'Una sola meta',
+    multipleLegs: 'Più tappe',
+    destinationPlaceholder: 'Es: Tokyo, Parigi, Bali...',
+    from: 'Dal',
+    to: 'Al',
+    duration: 'Durata (giorni)',
+    durationFromLegs: 'Calcolata dalle tappe',
+    durationFromDates: 'Calcolata dalle date',
+    budgetLevel: 'Fascia',
+    budgetAmount: 'Budget totale',
+    optional: 'Facoltativo',
+    travellers: 'Viaggiatori',
+    interests: 'Interessi',
+    activities: 'Attività',
+    tripType: 'Stile di Viaggio',
+    outputLanguage: 'Lingua dell\'itinerario',
+    generating: 'Generazione...',
+    submit: 'Crea Itinerario',
+  },
+
+  legs: {
+    placeholder: 'Es: Firenze',
+    nights: 'Notti',
+    nightsUnit: 'notti',
+    add: 'Aggiungi tappa',
+  },
+
+  result: {
+    emptyTitle: 'Inizia la tua avventura',
+    emptyText: 'Inserisci i dettagli del tuo viaggio per generare un itinerario completo di alloggi e trasporti.',
+    loading: 'Stiamo disegnando il tuo viaggio perfetto...',
+    badge: 'Itinerario Vagabond',
+    streaming: (day: number, total: number) => `Giorno ${day} di ${total} in arrivo...`,
+    stop: 'Interrompi',
+    cancelled: (days: number, total: number) => `Generazione interrotta dopo ${days} giorni su ${total}.`,
+    keepDraft: 'Tieni bozza',
+    discard: 'Scarta',
+    save: 'Salva Viaggio',
+    claim: 'Aggiungi ai miei viaggi',
+    claimTitle: 'Questo viaggio è stato salvato prima degli account e non ha ancora un proprietario',
+    share: 'Condividi Link',
+    variant: 'Nuova variante',
+    variantTitle: 'Genera un itinerario diverso con gli stessi dettagli',
+    edit: 'Modifica',
+    history: 'Cronologia',
+    print: 'Stampa',
+    updatedBy: (email: string) => `Aggiornato da ${email}`,
+    updated: 'Itinerario aggiornato',
+  },
+
+  errors: {
+    sharedTrip: 'Impossibile caricare l\'itinerario condiviso.',
+    generation: 'Si è verificato un errore durante la generazione. Riprova più tardi.',
+    save: 'Errore durante il salvataggio.',
+    claim: 'Impossibile aggiungere il viaggio: potrebbe averlo già preso qualcun altro.',
+    deleted: 'Questo viaggio è stato eliminato dal proprietario.',
+    regenerate: 'Impossibile rigenerare il giorno. Riprova più tardi.',
+    quotaExceeded: 'Hai raggiunto il limite giornaliero di itinerari generati. Riprova domani.',
+    rateLimited: (seconds: number) => `Troppe richieste in poco tempo. Riprova tra ${seconds} secondi.`,
+    rateLimitedSoon: 'Troppe richieste in poco tempo. Riprova tra poco.',
+  },
+
+  view: {
+    commentDay: 'Commenta il giorno',
+    commentTrip: 'Commenta il viaggio',
+    regenerate: 'Rigenera',
+    regeneratePlaceholder: 'Es: più musei, meno camminate (facoltativo)',
+    regenerateDay: (day: number) => `Rigenera giorno ${day}`,
+  },
+
+  budget: {
+    title: 'Budget stimato',
+    over: (amount: string) => `Il piano supera il budget di ${amount}.`,
+    near: 'Il piano è vicino al limite di budget.',
+    otherCurrency: (costs: string, limit: string) => `I costi sono in ${costs}, il budget in ${limit}: confronto non disponibile.`,
+  },
+
+  map: {
+    places: 'Luoghi',
+    allDays: 'Tutti i giorni',
+  },
+
+  editor: {
+    newVersion: 'È stata salvata una nuova versione mentre modificavi.',
+    loadLatest: 'Carica l\'ultima versione',
+    title: 'Titolo',
+    destination: 'Destinazione',
+    duration: 'Durata (giorni)',
+    budgetLevel: 'Fascia',
+    tripType: 'Stile',
+    from: 'Dal',
+    to: 'Al',
+    budgetAmount: 'Budget totale',
+    travellers: 'Viaggiatori',
+    summary: 'Introduzione',
+    add: 'Aggiungi',
+    newActivity: 'Nuova attività',
+    description: 'Descrizione',
+    place: 'Luogo',
+    latitude: 'Latitudine',
+    longitude: 'Longitudine',
+    cost: (currency: string) => `Costo (${currency})`,
+    category: 'Categoria di spesa',
+    proTip: 'Consiglio pro',
+    content: 'Contenuto (Markdown)',
+    conflict: 'Qualcun altro ha modificato questo viaggio nel frattempo.',
+    invalid: 'Controlla i campi: alcuni valori non sono validi.',
+    overwrite: 'Sovrascrivi con le mie modifiche',
+    save: 'Salva modifiche',
+  },
+
+  auth: {
+    login: 'Accedi',
+    createAccount: 'Crea un account',
+    email: 'Email',
+    password: 'Password',
+    register: 'Registrati',
+    toRegister: 'Non hai un account? Registrati',
+    toLogin: 'Hai già un account? Accedi',
+    wrongCredentials: 'Email o password non corretti.',
+    emailTaken: 'Questa email è già registrata.',
+    invalid: 'Inserisci un\'email valida e una password di almeno 8 caratteri.',
+  },
+
+  share: {
+    title: 'Condividi viaggio',
+    expiresAfter: 'Scade dopo (giorni)',
+    never: 'Mai',
+    create: 'Crea e copia link',
+    failed: 'Impossibile creare il link di condivisione.',
+    empty: 'Nessun link attivo.',
+    expires: (date: string) => `Scade il ${date}`,
+    noExpiry: 'Nessuna scadenza',
+    revoke: 'Revoca',
+  },
+
+  revisions: {
+    title: 'Cronologia modifiche',
+    empty: 'Nessuna versione precedente.',
+    version: (version: number) => `Versione ${version}`,
+    pick: 'Seleziona una versione per confrontarla con quella attuale.',
+    fromVersion: (version: number) => `versione ${version}`,
+    currentVersion: (version: number) => `versione attuale (${version})`,
+    from: 'Da',
+    to: 'a',
+    restore: 'Ripristina',
+    restoreFailed: 'Impossibile ripristinare questa versione.',
+  },
+
+  discussion: {
+    like: 'Mi piace',
+    dislike: 'Non mi piace',
+    editPlaceholder: 'Modifica il commento',
+    removedUser: 'Utente rimosso',
+    edited: 'modificato',
+    orphaned: (title: string) => `Su “${title}”, non più nel programma`,
+    reply: 'Rispondi',
+    comment: 'Commenta',
+    replyPlaceholder: 'Rispondi…',
+    placeholder: 'Scrivi un commento…',
+    loginToComment: 'Accedi per commentare',
+  },
+
+  presence: {
+    guest: 'Ospite',
+    editing: (name: string) => `${name} sta modificando`,
+    editors: (count: number) => `${count} persone stanno modificando`,
+  },
+
+  exports: {
+    button: 'Esporta',
+    gpx: 'GPX (navigatori)',
+    calendar: 'Calendario',
+    failed: 'Impossibile esportare l\'itinerario.',
+  },
+
+  saved: {
+    title: 'I miei viaggi salvati',
+    backup: 'Scarica un backup di tutti i viaggi',
+    import: 'Importa viaggi',
+    all: 'Tutti',
+    favourites: 'Preferiti',
+    deleteFolder: 'Elimina cartella',
+    folder: 'Cartella',
+    folderPlaceholder: 'Es: Estate 2027',
+    search: 'Cerca per titolo, destinazione o contenuto...',
+    deleteTag: 'Elimina etichetta',
+    durationFrom: 'Durata da',
+    durationTo: 'a',
+    durationUnit: 'giorni',
+    noMatches: 'Nessun viaggio corrisponde alla ricerca.',
+    empty: 'Non hai ancora salvato nessun viaggio.',
+    unfavourite: 'Rimuovi dai preferiti',
+    favourite: 'Aggiungi ai preferiti',
+    organise: 'Cartella ed etichette',
+    more: (count: number) => `Carica altri (${count})`,
+    sort: {
+      newest: 'Più recenti',
+      oldest: 'Meno recenti',
+      updated: 'Modificati di recente',
+      title: 'Titolo (A-Z)',
+      shortest: 'Più brevi',
+      longest: 'Più lunghi',
+      relevance: 'Pertinenza',
+    },
+  },
+
+  organiser: {
+    folder: 'Cartella',
+    none: 'Nessuna',
+    tags: 'Etichette',
+    newTag: 'Nuova etichetta',
+    moveFailed: 'Impossibile spostare il viaggio.',
+    tagsFailed: 'Impossibile aggiornare le etichette.',
+    createTagFailed: 'Impossibile creare l\'etichetta.',
+  },
+
+  importer: {
+    intro: 'Importa un backup (.json) o uno o più itinerari in Markdown (.md).',
+    pick: 'Scegli file',
+    invalidFile: 'Il file non è un backup o un Markdown valido.',
+    failed: 'Importazione non riuscita.',
+    toImport: (count: number) => `${count} da importare`,
+    imported: (count: number) => `${count} importati`,
+    duplicates: (count: number) => `${count} già presenti`,
+    invalid: (count: number) => `${count} non validi`,
+    revisions: (count: number) => `(${count} versioni precedenti)`,
+    sameTrip: 'stesso viaggio',
+    sameContent: 'stesso contenuto',
+    skipped: (reason: string) => `(${reason}, saltato)`,
+    entry: (index: number) => `Voce ${index}`,
+    confirm: 'Conferma importazione',
+  },
+
+  offline: {
+    saveFailed: 'Impossibile salvare il viaggio per l\'uso offline.',
+    remove: 'Rimuovi la copia offline',
+    download: 'Salva itinerario e mappe su questo dispositivo',
+    maps: 'Mappe',
+    saved: 'Offline',
+    downloadButton: 'Scarica',
+    banner: 'Sei offline: puoi consultare i viaggi scaricati.',
+    pending: (count: number) => count === 1
+      ? '1 modifica verrà inviata al ritorno della connessione.'
+      : `${count} modifiche verranno inviate al ritorno della connessione.`,
+    conflict: (title: string) => `Le modifiche offline a «${title}» sono in conflitto con una versione più recente.`,
+    overwrite: 'Sovrascrivi',
+    discard: 'Scarta le mie modifiche',
+    dropped: (titles: string[]) => `Le modifiche offline a ${titles.map(title => `«${title}»`).join(', ')} non sono state salvate: il viaggio è stato eliminato o non puoi più modificarlo.`,
+    title: 'Viaggi offline',
+    subtitle: 'Salvati su questo dispositivo, con le mappe dei luoghi',
+    empty: 'Nessun viaggio scaricato. Apri un viaggio e scegli "Scarica" per averlo anche senza connessione.',
+    downloadedOn: (date: string) => `scaricato il ${date}`,
+    removeDevice: 'Rimuovi dal dispositivo',
+  },
+};
+
+export default it;
@@ -0,0 +1,42 @@
+import { messagesFor } from './i18n';
+import { SHARE_TOKEN_HEADER } from './trip';
+import type { ApiErrorBody, Language } from './types';
+
+// Headers for itinerary requests made through a share link rather than as the owner.
+export function tripHeaders(shareToken: string | null, json = false): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (json) headers['Content-Type'] = 'application/json';
+  if (shareToken) headers[SHARE_TOKEN_HEADER] = shareToken;
+  return headers;
+}
+
+// Fetches a file export and hands it to the browser as a download.
+// A plain link can't carry the share token header, hence the detour through a blob.
+export async function downloadFile(url: string, shareToken: string | null) {
+  const res = await fetch(url, { headers: tripHeaders(shareToken) });
+  if (!res.ok) throw new Error(`Download failed (${res.status})`);
+
+  const name = res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? 'download';
+  const href = URL.createObjectURL(await res.blob());
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(href);
+}
+
+// A generation refused by the rate limit or the daily quota; the message is ready to show
+export class GenerationLimitError extends Error {}
+
+// Throws unless a generation request went through; limit messages are in the interface language
+export async function checkGeneration(res: Response, language: Language) {
+  if (res.ok) return;
+  if (res.status === 429) {
+    const { errors } = messagesFor(language);
+    const body: ApiErrorBody | null = await res.json().catch(() => null);
+    if (body?.code === 'quota_exceeded') throw new GenerationLimitError(errors.quotaExceeded);
+    const seconds = body?.retry_after ?? Number(res.headers.get('Retry-After'));
+    throw new GenerationLimitError(seconds > 0 ? errors.rateLimited(seconds) : errors.rateLimitedSoon);
+  }
+  throw new Error(`Generation failed (${res.status})`);
+}
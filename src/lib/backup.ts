@@ -0,0 +1,67 @@
+import { z } from 'zod';
+import { LANGUAGES } from './i18n';
+import { itinerarySchema, placeSchema } from './itinerary';
+import { BUDGET_LEVELS, legacyOptionKey, tripDetailsSchema } from './trip';
+
+// Backups are plain JSON documents that identify themselves by format and version.
+// Bump BACKUP_VERSION on incompatible changes and keep importing the older versions.
+export const BACKUP_FORMAT = 'vagabond-backup';
+export const BACKUP_VERSION = 1;
+export const MAX_IMPORT_TRIPS = 1000;
+
+const snapshotSchema = tripDetailsSchema.extend({
+  // Backups made before the budget became a key carry its Italian label, as they do for interests and activities
+  budget: z.string().transform(legacyOptionKey).pipe(z.enum(BUDGET_LEVELS)),
+  title: z.string().trim().min(1),
+  content: z.string(),
+  itinerary: itinerarySchema.nullable(),
+  locations: z.array(placeSchema),
+});
+
+// A past state of a trip, as kept in its history
+export const backupRevisionSchema = snapshotSchema.extend({
+  version: z.number().int().min(1),
+  author_email: z.string().nullable().optional(),
+  created_at: z.string(),
+});
+
+export const backupTripSchema = snapshotSchema.extend({
+  id: z.string().min(1).max(100),
+  version: z.number().int().min(1),
+  created_at: z.string(),
+  updated_at: z.string().nullable().optional(),
+  // Folders and tags travel by name, since their ids only mean something on one instance
+  favourite: z.boolean().optional(),
+  folder: z.string().trim().min(1).max(60).nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(60)).max(50).optional(),
+  prompt_template: z.string().max(60).nullable().optional(),
+  prompt_version: z.number().int().min(1).nullable().optional(),
+  revisions: z.array(backupRevisionSchema).optional(),
+});
+
+// Trips are checked one by one on import, so a bad entry is reported rather than failing the lot
+export const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().min(1),
+  exported_at: z.string().optional(),
+  trips: z.array(z.unknown()).max(MAX_IMPORT_TRIPS),
+});
+
+export const markdownImportSchema = z.object({
+  files: z.array(z.object({
+    name: z.string().max(255),
+    content: z.string().min(1),
+  })).min(1).max(MAX_IMPORT_TRIPS),
+  // The importer's interface language, taken as the language the files are written in
+  language: z.enum(LANGUAGES).optional(),
+}).strict();
+
+export type BackupRevision = z.infer<typeof backupRevisionSchema>;
+export type BackupTrip = z.infer<typeof backupTripSchema>;
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: string;
+  trips: BackupTrip[];
+}
@@ -0,0 +1,32 @@
+import { SLOTS, type Itinerary } from './itinerary';
+
+export const COST_CATEGORIES = ['lodging', 'transport', 'food', 'activities'] as const;
+export type CostCategory = typeof COST_CATEGORIES[number];
+
+export type CostBreakdown = Record<CostCategory, number> & { total: number };
+
+// Estimated spend for the whole group. Lodging and transport are quoted for the group,
+// activity costs per person; activities without a category count as "activities".
+export function costBreakdown(itinerary: Itinerary, travellers = 1): CostBreakdown {
+  const breakdown: CostBreakdown = { lodging: 0, transport: 0, food: 0, activities: 0, total: 0 };
+
+  itinerary.accommodation.forEach(a => breakdown.lodging += a.estimatedCost ?? 0);
+  itinerary.transport.forEach(t => breakdown.transport += t.estimatedCost ?? 0);
+  itinerary.days.forEach(day => SLOTS.forEach(slot => day[slot].forEach(activity => {
+    breakdown[activity.category ?? 'activities'] += activity.estimatedCost * travellers;
+  })));
+
+  breakdown.total = COST_CATEGORIES.reduce((total, category) => total + breakdown[category], 0);
+  return breakdown;
+}
+
+export type BudgetStatus = 'unknown' | 'ok' | 'near' | 'over';
+
+// Share of the limit above which the plan is flagged as close to it
+export const BUDGET_WARNING_RATIO = 0.9;
+
+export function budgetStatus(total: number, limit: number | null | undefined): BudgetStatus {
+  if (!limit) return 'unknown';
+  if (total > limit) return 'over';
+  return total >= limit * BUDGET_WARNING_RATIO ? 'near' : 'ok';
+}
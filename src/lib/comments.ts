@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { SLOTS } from './itinerary';
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+const commentBody = z.string().trim().min(1).max(MAX_COMMENT_LENGTH);
+
+// Anchors narrow down from the whole trip (no day) to a day, a slot, and one activity by position
+export const newCommentSchema = z.object({
+  body: commentBody,
+  parent_id: z.string().nullable().optional(),
+  day: z.number().int().min(1).nullable().optional(),
+  slot: z.enum(SLOTS).nullable().optional(),
+  activity: z.number().int().min(0).nullable().optional(),
+}).strict().refine(
+  c => (c.slot == null || c.day != null) && (c.activity == null || c.slot != null),
+  'A slot needs a day and an activity needs a slot'
+);
+
+export const editCommentSchema = z.object({ body: commentBody }).strict();
+
+// 0 takes the caller's vote back
+export const voteSchema = z.object({
+  day: z.number().int().min(1),
+  slot: z.enum(SLOTS),
+  activity: z.number().int().min(0),
+  value: z.union([z.literal(-1), z.literal(0), z.literal(1)]),
+}).strict();
+
+type Anchor = { day?: number | null; slot?: string | null; activity?: number | null };
+
+// Stable key for grouping comments and votes by what they point at
+export function anchorKey({ day, slot, activity }: Anchor): string {
+  return [day, slot, activity].map(part => part ?? '').join(':');
+}
@@ -0,0 +1,28 @@
+import it from '../i18n/it';
+import en from '../i18n/en';
+import de from '../i18n/de';
+import type { Language } from './types';
+
+// Languages of the interface and of generated itineraries; trips saved before the choice existed are Italian
+export const LANGUAGES = ['it', 'en', 'de'] as const;
+export const DEFAULT_LANGUAGE: Language = 'it';
+
+export type Messages = typeof it;
+
+export const MESSAGES: Record<Language, Messages> = { it, en, de };
+
+// Intl locale of each language, for dates and amounts
+export const LOCALES: Record<Language, string> = {
+  it: 'it-IT',
+  en: 'en-GB',
+  de: 'de-DE',
+};
+
+export function messagesFor(language: Language | null | undefined): Messages {
+  return MESSAGES[language ?? DEFAULT_LANGUAGE] ?? it;
+}
+
+// Label of an option key; values that aren't known keys are shown as they are
+export function optionLabel(labels: Record<string, string>, key: string): string {
+  return labels[key] ?? key;
+}
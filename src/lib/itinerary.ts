@@ -0,0 +1,146 @@
+import { z } from 'zod';
+import { LOCALES, messagesFor } from './i18n';
+import { TRANSPORT_MODES } from './trip';
+import type { Language, MapLocation } from './types';
+
+export const placeSchema = z.object({
+  name: z.string().min(1),
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+export const activitySchema = z.object({
+  title: z.string().min(1),
+  description: z.string(),
+  place: placeSchema,
+  estimatedCost: z.number().min(0).describe('Costo stimato per persona, nella valuta dell\'itinerario'),
+  category: z.enum(['food', 'activities']).optional().describe('"food" per pasti e degustazioni, "activities" per tutto il resto'),
+  proTip: z.string().describe('Consiglio "pro" o curiosità locale'),
+});
+
+export const SLOTS = ['morning', 'afternoon', 'evening'] as const;
+export type Slot = typeof SLOTS[number];
+
+export const daySchema = z.object({
+  day: z.number().int().min(1),
+  leg: z.number().int().min(1).optional().describe('Numero della tappa (da 1) in cui si dorme quel giorno, solo per viaggi con più tappe'),
+  title: z.string(),
+  morning: z.array(activitySchema),
+  afternoon: z.array(activitySchema),
+  evening: z.array(activitySchema),
+});
+
+export const routeStopSchema = z.object({
+  destination: z.string().min(1),
+  place: placeSchema,
+  nights: z.number().int().min(0),
+  transfer: z.object({
+    mode: z.enum(TRANSPORT_MODES),
+    description: z.string(),
+  }).nullable().describe('Come si arriva dalla tappa precedente; null per la prima tappa'),
+});
+
+export const itinerarySchema = z.object({
+  title: z.string().min(1),
+  summary: z.string(),
+  currency: z.string().length(3).describe('Codice valuta ISO 4217, es. EUR'),
+  accommodation: z.array(z.object({
+    name: z.string(),
+    description: z.string(),
+    estimatedCost: z.number().min(0).optional().describe('Costo totale del soggiorno per tutto il gruppo'),
+  })),
+  transport: z.array(z.object({
+    mode: z.string(),
+    description: z.string(),
+    estimatedCost: z.number().min(0).optional().describe('Costo totale per tutto il gruppo'),
+  })),
+  route: z.array(routeStopSchema).optional().describe('Le tappe in ordine, solo per viaggi con più destinazioni'),
+  days: z.array(daySchema).min(1),
+});
+
+export type Place = z.infer<typeof placeSchema>;
+export type ItineraryActivity = z.infer<typeof activitySchema>;
+export type ItineraryDay = z.infer<typeof daySchema>;
+export type RouteStop = z.infer<typeof routeStopSchema>;
+export type Itinerary = z.infer<typeof itinerarySchema>;
+
+export function formatCost(amount: number, currency: string, language: Language) {
+  if (amount === 0) return messagesFor(language).itinerary.free;
+  try {
+    return new Intl.NumberFormat(LOCALES[language], { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount} ${currency}`;
+  }
+}
+
+// Title, summary, route, lodging and transport: everything that precedes the days
+export function renderOverviewMarkdown(itinerary: Itinerary, language: Language): string {
+  const t = messagesFor(language);
+  const cost = (amount?: number) => amount !== undefined ? ` (${formatCost(amount, itinerary.currency, language)})` : '';
+  const lines: string[] = [`# ${itinerary.title}`, '', itinerary.summary, ''];
+
+  if (itinerary.route && itinerary.route.length > 1) {
+    lines.push(`## ${t.itinerary.route}`, '');
+    itinerary.route.forEach((stop, i) => {
+      lines.push(`${i + 1}. **${stop.destination}** — ${t.itinerary.nights(stop.nights)}`);
+      if (stop.transfer) lines.push(`   ${t.options.transport[stop.transfer.mode]}: ${stop.transfer.description}`);
+    });
+    lines.push('');
+  }
+
+  if (itinerary.accommodation.length > 0) {
+    lines.push(`## ${t.itinerary.lodging}`, '');
+    itinerary.accommodation.forEach(a => lines.push(`- **${a.name}**: ${a.description}${cost(a.estimatedCost)}`));
+    lines.push('');
+  }
+
+  if (itinerary.transport.length > 0) {
+    lines.push(`## ${t.itinerary.transport}`, '');
+    itinerary.transport.forEach(item => lines.push(`- **${item.mode}**: ${item.description}${cost(item.estimatedCost)}`));
+    lines.push('');
+  }
+
+  return lines.join('\n').trim() + '\n';
+}
+
+// One list item, so activities can also be rendered on their own
+export function renderActivityMarkdown(activity: ItineraryActivity, currency: string, language: Language): string {
+  const lines = [`- **${activity.title}** — ${activity.place.name} (${formatCost(activity.estimatedCost, currency, language)})`];
+  if (activity.description) lines.push(`  ${activity.description}`);
+  if (activity.proTip) lines.push(`  > 💡 ${activity.proTip}`);
+  return lines.join('\n');
+}
+
+export function renderDayMarkdown(day: ItineraryDay, currency: string, language: Language): string {
+  const t = messagesFor(language);
+  const lines: string[] = [`## ${t.itinerary.day(day.day)}: ${day.title}`, ''];
+
+  SLOTS.forEach(slot => {
+    if (day[slot].length === 0) return;
+    lines.push(`### ${t.options.slots[slot]}`, '');
+    day[slot].forEach(activity => lines.push(renderActivityMarkdown(activity, currency, language)));
+    lines.push('');
+  });
+
+  return lines.join('\n').trim() + '\n';
+}
+
+export function renderItineraryMarkdown(itinerary: Itinerary, language: Language): string {
+  return [
+    renderOverviewMarkdown(itinerary, language),
+    ...itinerary.days.map(day => renderDayMarkdown(day, itinerary.currency, language)),
+  ].join('\n');
+}
+
+// Unique places in visiting order, as consumed by the map.
+export function collectLocations(itinerary: Itinerary): MapLocation[] {
+  const seen = new Set<string>();
+  const locations: MapLocation[] = [];
+  itinerary.days.forEach(day => SLOTS.forEach(slot => day[slot].forEach(({ place }) => {
+    const key = `${place.name}|${place.lat}|${place.lng}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    locations.push({ name: place.name, lat: place.lat, lng: place.lng });
+  })));
+  return locations;
+}
@@ -0,0 +1,230 @@
+import { tripHeaders } from './api';
+import type { ItineraryAccess, SavedTrip } from './types';
+
+// Same tile server for the live map and the offline copies, so cached tiles match Leaflet's requests
+export const TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+// Read by public/sw.js too: keep the names in sync
+export const TILE_CACHE = 'vagabond-tiles-v1';
+
+// Wide zooms cover everything the trip spans, close ones only the blocks around each place
+const OVERVIEW_ZOOMS = [6, 8, 10, 12];
+const DETAIL_ZOOMS = [13, 14, 15, 16];
+const MAX_OVERVIEW_TILES_PER_ZOOM = 64;
+// The OSM tile policy frowns on bulk downloads, so one trip never fetches more than this
+export const MAX_OFFLINE_TILES = 600;
+const TILE_FETCH_CONCURRENCY = 4;
+
+const DB_NAME = 'vagabond-offline';
+const DB_VERSION = 1;
+
+// A trip downloaded for offline use, with what's needed to edit it again later
+export interface OfflineTrip {
+  id: string;
+  trip: SavedTrip;
+  access: ItineraryAccess;
+  shareToken: string | null;
+  tiles: number;
+  saved_at: string;
+}
+
+// Changes saved while offline. The editor always sends the whole trip, so one entry per trip
+// holds the latest state; a conflict keeps it here until someone decides what to do with it.
+export interface QueuedEdit {
+  tripId: string;
+  title: string;
+  shareToken: string | null;
+  body: Record<string, unknown> & { version: number };
+  queued_at: string;
+  conflict?: SavedTrip;
+}
+
+export interface SyncReport {
+  synced: SavedTrip[];
+  conflicts: QueuedEdit[];
+  failed: QueuedEdit[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore('trips', { keyPath: 'id' });
+      request.result.createObjectStore('edits', { keyPath: 'tripId' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+async function withStore<T>(name: 'trips' | 'edits', mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest) {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(name, mode).objectStore(name));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export const listOfflineTrips = () => withStore<OfflineTrip[]>('trips', 'readonly', store => store.getAll());
+export const getOfflineTrip = (id: string) => withStore<OfflineTrip | undefined>('trips', 'readonly', store => store.get(id));
+export const putOfflineTrip = (record: OfflineTrip) => withStore<string>('trips', 'readwrite', store => store.put(record));
+
+export async function findOfflineTripByToken(token: string) {
+  return (await listOfflineTrips()).find(record => record.shareToken === token);
+}
+
+// Keeps a downloaded copy current when the trip changes while online; trips that weren't downloaded are left alone
+export async function refreshOfflineTrip(trip: SavedTrip) {
+  const record = await getOfflineTrip(trip.id);
+  if (record && record.trip.version <= trip.version) await putOfflineTrip({ ...record, trip, saved_at: new Date().toISOString() });
+}
+
+export async function removeOfflineTrip(id: string) {
+  await withStore('trips', 'readwrite', store => store.delete(id));
+  // Tiles are shared between trips, so they only go once nothing needs them
+  if ((await listOfflineTrips()).length === 0) await caches.delete(TILE_CACHE);
+}
+
+export const listQueuedEdits = () => withStore<QueuedEdit[]>('edits', 'readonly', store => store.getAll());
+export const queueEdit = (edit: QueuedEdit) => withStore<string>('edits', 'readwrite', store => store.put(edit));
+export const dropQueuedEdit = (tripId: string) => withStore('edits', 'readwrite', store => store.delete(tripId));
+
+function tileAt(lat: number, lng: number, zoom: number) {
+  const n = 2 ** zoom;
+  const clampedLat = Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI / 180;
+  const x = Math.floor((lng + 180) / 360 * n);
+  const y = Math.floor((1 - Math.log(Math.tan(clampedLat) + 1 / Math.cos(clampedLat)) / Math.PI) / 2 * n);
+  return { x: Math.max(0, Math.min(n - 1, x)), y: Math.max(0, Math.min(n - 1, y)) };
+}
+
+const tileUrl = (z: number, x: number, y: number) =>
+  TILE_URL.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
+
+// Tiles to keep for a set of places, widest zooms first so a capped download still shows the whole area
+export function offlineTileUrls(points: [number, number][]) {
+  if (points.length === 0) return [];
+  const urls = new Set<string>();
+  const lats = points.map(([lat]) => lat);
+  const lngs = points.map(([, lng]) => lng);
+
+  for (const zoom of OVERVIEW_ZOOMS) {
+    const topLeft = tileAt(Math.max(...lats), Math.min(...lngs), zoom);
+    const bottomRight = tileAt(Math.min(...lats), Math.max(...lngs), zoom);
+    const count = (bottomRight.x - topLeft.x + 3) * (bottomRight.y - topLeft.y + 3);
+    if (count > MAX_OVERVIEW_TILES_PER_ZOOM) continue;
+    for (let x = topLeft.x - 1; x <= bottomRight.x + 1; x++) {
+      for (let y = topLeft.y - 1; y <= bottomRight.y + 1; y++) {
+        if (x >= 0 && y >= 0 && x < 2 ** zoom && y < 2 ** zoom) urls.add(tileUrl(zoom, x, y));
+      }
+    }
+  }
+  for (const zoom of DETAIL_ZOOMS) {
+    for (const [lat, lng] of points) {
+      const centre = tileAt(lat, lng, zoom);
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          const x = centre.x + dx;
+          const y = centre.y + dy;
+          if (x >= 0 && y >= 0 && x < 2 ** zoom && y < 2 ** zoom) urls.add(tileUrl(zoom, x, y));
+        }
+      }
+    }
+  }
+  return [...urls].slice(0, MAX_OFFLINE_TILES);
+}
+
+// Downloads the map tiles around a trip's places into the cache the service worker serves them from
+export async function cacheTiles(points: [number, number][], onProgress?: (done: number, total: number) => void) {
+  const urls = offlineTileUrls(points);
+  const cache = await caches.open(TILE_CACHE);
+  let done = 0;
+  let stored = 0;
+
+  const queue = [...urls];
+  const worker = async () => {
+    for (let url = queue.shift(); url; url = queue.shift()) {
+      try {
+        if (await cache.match(url)) {
+          stored++;
+        } else {
+          const res = await fetch(url, { mode: 'cors' });
+          if (res.ok) {
+            await cache.put(url, res);
+            stored++;
+          }
+        }
+      } catch (err) {
+        console.error("Error caching map tile", url, err);
+      }
+      onProgress?.(++done, urls.length);
+    }
+  };
+  await Promise.all(Array.from({ length: TILE_FETCH_CONCURRENCY }, worker));
+  return stored;
+}
+
+// Saves a trip and its map area on this device
+export async function downloadTrip(
+  trip: SavedTrip,
+  access: ItineraryAccess,
+  shareToken: string | null,
+  onProgress?: (done: number, total: number) => void
+) {
+  const points = (trip.locations ?? []).map(location => [location.lat, location.lng] as [number, number]);
+  const tiles = await cacheTiles(points, onProgress);
+  const record: OfflineTrip = { id: trip.id, trip, access, shareToken, tiles, saved_at: new Date().toISOString() };
+  await putOfflineTrip(record);
+  return record;
+}
+
+// Sends queued edits in the order they were made. Network failures, expired sessions, rate limits and
+// server errors leave that edit and the rest queued for the next try.
+export async function syncQueuedEdits(): Promise<SyncReport> {
+  const report: SyncReport = { synced: [], conflicts: [], failed: [] };
+  const edits = (await listQueuedEdits())
+    .filter(edit => !edit.conflict)
+    .sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+
+  for (const edit of edits) {
+    let res: Response;
+    try {
+      res = await fetch(`/api/itineraries/${edit.tripId}`, {
+        method: 'PATCH',
+        headers: tripHeaders(edit.shareToken, true),
+        body: JSON.stringify(edit.body)
+      });
+    } catch {
+      break;
+    }
+
+    if (res.ok) {
+      const trip: SavedTrip = await res.json();
+      await dropQueuedEdit(edit.tripId);
+      await refreshOfflineTrip(trip);
+      report.synced.push(trip);
+    } else if (res.status === 409) {
+      const conflicted = { ...edit, conflict: (await res.json()).current };
+      await queueEdit(conflicted);
+      report.conflicts.push(conflicted);
+    } else if (res.status === 403 || res.status === 404) {
+      // The trip is gone or no longer ours to edit: nothing later will make this succeed
+      await dropQueuedEdit(edit.tripId);
+      report.failed.push(edit);
+    } else {
+      break;
+    }
+  }
+  return report;
+}
+
+// Settles a conflict: either keep the offline changes over the newer version, or throw them away
+export async function resolveConflict(edit: QueuedEdit, overwrite: boolean) {
+  if (!overwrite || !edit.conflict) return dropQueuedEdit(edit.tripId);
+  await queueEdit({ ...edit, body: { ...edit.body, version: edit.conflict.version }, conflict: undefined });
+}
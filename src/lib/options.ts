@@ -0,0 +1,9 @@
+import { History, Mountain, Palmtree, Utensils } from 'lucide-react';
+
+// Icons and colours of the trip styles; labels come from the message catalogues
+export const TRIP_TYPES = [
+  { id: 'adventurous', icon: Mountain, color: 'text-orange-500' },
+  { id: 'relax', icon: Palmtree, color: 'text-blue-500' },
+  { id: 'cultural', icon: History, color: 'text-purple-500' },
+  { id: 'foodie', icon: Utensils, color: 'text-emerald-500' },
+] as const;
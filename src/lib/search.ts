@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { BUDGET_LEVELS, INTEREST_IDS, MAX_DURATION, TRIP_TYPE_IDS } from './trip';
+
+export const TRIP_SORTS = ['created', 'updated', 'title', 'duration', 'relevance'] as const;
+export type TripSort = typeof TRIP_SORTS[number];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Query strings carry lists either as repeated keys or comma separated
+const list = <T extends z.ZodType>(item: T) => z.preprocess(
+  value => value === undefined ? undefined : [value].flat().flatMap(v => String(v).split(',')).filter(Boolean),
+  z.array(item).optional()
+);
+
+// Query parameters accepted by GET /api/itineraries
+export const tripSearchSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  type: list(z.enum(TRIP_TYPE_IDS)),
+  budget: list(z.enum(BUDGET_LEVELS)),
+  // Trips must have every listed interest
+  interests: list(z.enum(INTEREST_IDS)),
+  // Trips must have every listed tag id
+  tag: list(z.string()),
+  // A folder id, or "none" for trips outside any folder
+  folder: z.string().optional(),
+  favourite: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  minDuration: z.coerce.number().int().min(1).max(MAX_DURATION).optional(),
+  maxDuration: z.coerce.number().int().min(1).max(MAX_DURATION).optional(),
+  // "relevance" needs q; the default order is newest first
+  sort: z.enum(TRIP_SORTS).default('created'),
+  order: z.enum(['asc', 'desc']).optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().optional(),
+});
+
+export type TripSearch = z.infer<typeof tripSearchSchema>;
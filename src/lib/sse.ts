@@ -0,0 +1,34 @@
+// An event as it comes off the wire, before the caller narrows it to the events it expects
+export interface StreamEvent {
+  event: string;
+  data: unknown;
+}
+
+// Reads a text/event-stream response body, calling onEvent for each complete event.
+// EventSource can't POST, so the stream is consumed through fetch instead.
+// T is the union of events the endpoint sends; the server is trusted to send only those.
+export async function readEventStream<T extends StreamEvent>(res: Response, onEvent: (message: T) => void) {
+  if (!res.body) throw new Error("Response has no body");
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let boundary;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+      }
+      if (data.length > 0) onEvent({ event, data: JSON.parse(data.join('\n')) } as T);
+    }
+  }
+}
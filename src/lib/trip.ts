@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import { LANGUAGES, LOCALES } from './i18n';
+import type { Language } from './types';
+
+export const TRIP_TYPE_IDS = ['adventurous', 'relax', 'cultural', 'foodie'] as const;
+export const BUDGET_LEVELS = ['economy', 'standard', 'luxury'] as const;
+export const INTEREST_IDS = ['food', 'art', 'nature', 'adventure', 'nightlife', 'shopping', 'history', 'relax'] as const;
+export const ACTIVITY_IDS = ['guided_tours', 'hiking', 'cooking_classes', 'self_guided', 'water_sports', 'museums'] as const;
+
+// Italian labels stored as values before budget, interests and activities became keys
+const LEGACY_VALUES: Record<string, string> = {
+  economico: 'economy',
+  medio: 'standard',
+  lusso: 'luxury',
+  'Gastronomia': 'food',
+  'Arte': 'art',
+  'Natura': 'nature',
+  'Avventura': 'adventure',
+  'Vita Notturna': 'nightlife',
+  'Shopping': 'shopping',
+  'Storia': 'history',
+  'Relax': 'relax',
+  'Visite Guidate': 'guided_tours',
+  'Escursioni': 'hiking',
+  'Corsi di Cucina': 'cooking_classes',
+  'Esplorazione Indipendente': 'self_guided',
+  'Sport Acquatici': 'water_sports',
+  'Musei': 'museums',
+};
+
+export const legacyOptionKey = (value: string) => LEGACY_VALUES[value] ?? value;
+
+export const TRANSPORT_MODES = ['train', 'car', 'bus', 'flight', 'ferry'] as const;
+
+export const MAX_DURATION = 30;
+export const MAX_LEGS = 10;
+export const MAX_TRAVELLERS = 20;
+
+export const CURRENCIES = ['EUR', 'USD', 'GBP', 'CHF', 'JPY', 'AUD', 'CAD'] as const;
+
+export const tripLegSchema = z.object({
+  destination: z.string().trim().min(1),
+  nights: z.number().int().min(1).max(MAX_DURATION - 1),
+  // How the traveller gets here from the previous leg; null on the first one
+  transfer: z.enum(TRANSPORT_MODES).nullable(),
+});
+
+export const tripDetailsSchema = z.object({
+  destination: z.string().trim().min(1),
+  duration: z.number().int().min(1).max(MAX_DURATION),
+  budget: z.enum(BUDGET_LEVELS),
+  type: z.enum(TRIP_TYPE_IDS),
+  // Keys of the interest and activity options; Italian labels from before they were keys are mapped first
+  interests: z.array(z.string().transform(legacyOptionKey).pipe(z.enum(INTEREST_IDS))),
+  activities: z.array(z.string().transform(legacyOptionKey).pipe(z.enum(ACTIVITY_IDS))),
+  start_date: z.iso.date().nullable().optional(),
+  end_date: z.iso.date().nullable().optional(),
+  legs: z.array(tripLegSchema).min(1).max(MAX_LEGS).nullable().optional(),
+  // Spending limit for the whole group and the whole trip
+  budget_amount: z.number().positive().nullable().optional(),
+  budget_currency: z.enum(CURRENCIES).optional(),
+  travellers: z.number().int().min(1).max(MAX_TRAVELLERS).optional(),
+  // Language the itinerary is written in
+  language: z.enum(LANGUAGES).optional(),
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Dates are plain YYYY-MM-DD strings, handled in UTC so time zones never shift a day
+export function tripDayDate(startDate: string, day: number): string {
+  return new Date(Date.parse(startDate) + (day - 1) * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Number of days from start to end, both included
+export function tripLength(startDate: string, endDate: string): number {
+  return Math.round((Date.parse(endDate) - Date.parse(startDate)) / DAY_MS) + 1;
+}
+
+export function formatTripDates(startDate: string, endDate: string, language: Language): string {
+  const format = (date: string) => new Date(date).toLocaleDateString(LOCALES[language], { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+  return `${format(startDate)} – ${format(endDate)}`;
+}
+
+// A trip made of legs lasts one day more than its nights: the last day is the departure
+export function legsDuration(legs: { nights: number }[]): number {
+  return legs.reduce((total, leg) => total + leg.nights, 0) + 1;
+}
+
+// 1-based leg where the traveller sleeps on a given day; a transfer day belongs to the leg it reaches
+export function legForDay(legs: { nights: number }[], day: number): number {
+  let nights = 0;
+  for (let i = 0; i < legs.length; i++) {
+    nights += legs[i].nights;
+    if (day <= nights) return i + 1;
+  }
+  return legs.length;
+}
+
+export function legsDestination(legs: { destination: string }[]): string {
+  return legs.map(leg => leg.destination).join(' → ');
+}
+
+type TripShape = {
+  duration: number;
+  start_date?: string | null;
+  end_date?: string | null;
+  legs?: { nights: number }[] | null;
+};
+
+// Dates are optional, but when both are set they must span exactly `duration` days
+export function datesMatchDuration({ duration, start_date, end_date }: TripShape): boolean {
+  if (!start_date && !end_date) return true;
+  if (!start_date || !end_date) return false;
+  return tripLength(start_date, end_date) === duration;
+}
+
+// Cross-field rules the object schema can't express; returns the first one broken
+export function tripConsistencyError(details: TripShape): string | null {
+  if (!datesMatchDuration(details)) return "Start and end dates must span the trip duration";
+  if (details.legs?.length && legsDuration(details.legs) !== details.duration) return "Leg nights must add up to the trip duration";
+  return null;
+}
+
+// Header carrying a share link token on requests made by non-owners
+export const SHARE_TOKEN_HEADER = 'X-Share-Token';
+
+// Close code of a trip's live channel once the viewer lost access; clients don't reconnect after it
+export const LIVE_CLOSE_FORBIDDEN = 4403;
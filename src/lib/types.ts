@@ -0,0 +1,266 @@
+import type { Itinerary, ItineraryDay, Slot } from './itinerary';
+import type { LANGUAGES } from './i18n';
+import type { BUDGET_LEVELS, CURRENCIES, TRANSPORT_MODES, TRIP_TYPE_IDS } from './trip';
+
+export type TripType = typeof TRIP_TYPE_IDS[number];
+export type BudgetLevel = typeof BUDGET_LEVELS[number];
+export type TransportMode = typeof TRANSPORT_MODES[number];
+export type Currency = typeof CURRENCIES[number];
+export type Language = typeof LANGUAGES[number];
+
+// One stop of a multi-destination trip
+export interface TripLeg {
+  destination: string;
+  nights: number;
+  // How the traveller gets here from the previous leg; null on the first one
+  transfer?: TransportMode | null;
+}
+
+export interface TripDetails {
+  destination: string;
+  duration: number;
+  budget: BudgetLevel;
+  type: TripType;
+  // INTEREST_IDS and ACTIVITY_IDS keys
+  interests: string[];
+  activities: string[];
+  // YYYY-MM-DD; absent for trips planned by length only
+  start_date?: string | null;
+  end_date?: string | null;
+  // Ordered stops; destination then reads "Roma → Firenze → …"
+  legs?: TripLeg[] | null;
+  // Spending limit for the whole group and the whole trip, in budget_currency
+  budget_amount?: number | null;
+  budget_currency?: Currency;
+  travellers?: number;
+  // Language the itinerary is written in; Italian when absent
+  language?: Language;
+}
+
+export interface MapLocation {
+  lat: number;
+  lng: number;
+  name: string;
+}
+
+export interface SavedTrip extends TripDetails {
+  id: string;
+  owner_id: string | null;
+  title: string;
+  content: string;
+  created_at: string;
+  updated_at?: string | null;
+  version: number;
+  locations?: MapLocation[];
+  itinerary?: Itinerary | null;
+  // Owner's own organisation; tags are only filled in by the trip list
+  folder_id?: string | null;
+  favourite?: boolean;
+  tags?: Tag[];
+  // Prompt template the itinerary was generated with; null for trips written or imported by hand
+  prompt_template?: string | null;
+  prompt_version?: number | null;
+}
+
+// Owner-defined labels; a trip has any number of tags and sits in at most one folder
+export interface Tag {
+  id: string;
+  name: string;
+  // Present when listing the owner's tags
+  trip_count?: number;
+}
+
+export interface Folder {
+  id: string;
+  name: string;
+  trip_count: number;
+}
+
+// One page of GET /api/itineraries; pass nextCursor back to get the following one
+export interface SavedTripPage {
+  items: SavedTrip[];
+  total: number;
+  nextCursor: string | null;
+}
+
+// A snapshot of a saved trip taken before one of its edits
+export interface ItineraryRevisionSummary {
+  id: number;
+  version: number;
+  title: string;
+  author_email: string | null;
+  created_at: string;
+}
+
+export interface ItineraryRevision extends ItineraryRevisionSummary, TripDetails {
+  content: string;
+  itinerary: Itinerary | null;
+  locations: MapLocation[];
+}
+
+// A server-side prompt template, by name and version
+export interface PromptRef {
+  name: string;
+  version: number;
+}
+
+export interface GeneratedItinerary {
+  itinerary: Itinerary;
+  content: string;
+  locations: MapLocation[];
+  // Send back when saving, so the trip records which prompt produced it
+  prompt: PromptRef;
+}
+
+export type ItineraryOverview = Omit<Itinerary, 'days'>;
+
+// Server-sent events emitted by POST /api/generate/stream
+export type GenerationStreamEvent =
+  | { event: 'overview'; data: ItineraryOverview }
+  | { event: 'day'; data: ItineraryDay }
+  | { event: 'done'; data: GeneratedItinerary }
+  | { event: 'error'; data: { error: string } };
+
+export interface User {
+  id: string;
+  email: string;
+}
+
+export type ShareAccess = 'view' | 'comment' | 'edit';
+
+// What the caller may do with an itinerary: its owner, or a share link's level.
+export type ItineraryAccess = 'owner' | ShareAccess;
+
+export interface ShareLink {
+  token: string;
+  access: ShareAccess;
+  created_at: string;
+  expires_at: string | null;
+}
+
+export interface SharedTrip {
+  access: ItineraryAccess;
+  trip: SavedTrip;
+}
+
+// A comment on a trip, one of its days or one activity; replies share their parent's anchor
+export interface TripComment {
+  id: string;
+  parent_id: string | null;
+  author_id: string | null;
+  author_email: string | null;
+  day: number | null;
+  slot: Slot | null;
+  activity: number | null;
+  // Title of the activity the comment was about, after it left the plan; the comment then sits on its day
+  orphaned_activity: string | null;
+  body: string;
+  created_at: string;
+  updated_at: string | null;
+}
+
+// Vote tally for one activity; `mine` is the caller's own vote
+export interface ActivityVotes {
+  day: number;
+  slot: Slot;
+  activity: number;
+  up: number;
+  down: number;
+  mine: -1 | 0 | 1;
+}
+
+// Outcome of a backup or Markdown import; a dry run reports the same without writing
+export interface ImportReport {
+  dryRun: boolean;
+  imported: { id: string; title: string; revisions: number }[];
+  duplicates: { id: string; title: string; reason: 'id' | 'content'; existing_id: string }[];
+  invalid: { index: number; title: string | null; issues: string[] }[];
+}
+
+// Someone else with the same trip open; guests opened it through a share link without signing in
+export interface LiveViewer {
+  id: string;
+  // Null for guests, who are named by the client in its own language
+  name: string | null;
+  editing: boolean;
+}
+
+// Vote counts as broadcast to everyone, without anyone's own vote
+export type VoteTally = Omit<ActivityVotes, 'mine'>;
+
+// Changes to a trip pushed to everyone who has it open, as made through the REST API
+export type TripEvent =
+  | { type: 'trip.updated'; trip: SavedTrip; by: string | null }
+  | { type: 'trip.deleted' }
+  | { type: 'comment.added'; comment: TripComment }
+  | { type: 'comment.updated'; comment: TripComment }
+  | { type: 'comment.deleted'; id: string }
+  | { type: 'votes.updated'; votes: VoteTally };
+
+// Messages on an itinerary's live channel
+export type LiveServerMessage = TripEvent | { type: 'presence'; viewers: LiveViewer[] };
+export type LiveClientMessage = { type: 'editing'; editing: boolean };
+
+// Machine-readable reason sent with every API error, next to a human-readable message
+export type ApiErrorCode =
+  | 'invalid_request'
+  | 'invalid_json'
+  | 'unauthenticated'
+  | 'invalid_credentials'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'version_conflict'
+  | 'payload_too_large'
+  | 'generation_failed'
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'internal';
+
+// Body of every non-2xx API response. Validation failures list the zod issues;
+// version conflicts carry the trip as it is now; limits say how many seconds to wait.
+export interface ApiErrorBody {
+  error: string;
+  code: ApiErrorCode;
+  issues?: { path: PropertyKey[]; message: string }[];
+  current?: SavedTrip;
+  retry_after?: number;
+}
+
+// Model calls over a period, as reported by GET /api/admin/stats
+export interface GenerationUsage {
+  generations: number;
+  succeeded: number;
+  // Served from the generation cache, without a model call
+  cached: number;
+  // The model answered, but not with a valid itinerary
+  invalid: number;
+  failed: number;
+  cancelled: number;
+  users: number;
+  guest_ips: number;
+  prompt_tokens: number;
+  output_tokens: number;
+  // Model calls only
+  avg_latency_ms: number | null;
+}
+
+export interface GenerationStats {
+  // First UTC day covered, YYYY-MM-DD
+  since: string;
+  // Newest first; days without calls are left out
+  days: (GenerationUsage & { date: string })[];
+  totals: GenerationUsage;
+}
+
+// Listed by GET /api/admin/prompts
+export interface PromptTemplateInfo extends PromptRef {
+  // The version new generations use
+  active: boolean;
+  variables: string[];
+  text: string;
+}
+
+export interface PromptPreview extends PromptRef {
+  prompt: string;
+}